@@ -0,0 +1,401 @@
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { isComputerCallToolMessage } from "@langchain/langgraph-cua";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import {
+  ComputerAction,
+  getComputerCall,
+  GrokComputerAction,
+  toGrokAction,
+} from "./computer-actions";
+import {
+  formatShellToolInput,
+  getShellToolCalls,
+  ShellToolName,
+} from "./shell-tools";
+import type { RunProgress } from "./budget";
+import { RUN_SKILL_TOOL_NAME } from "./skills";
+import type { VerifiedComputerCall, VerifierSettings } from "./verification";
+
+/**
+ * Which actions pause the run until the user approves them. An action needs
+ * approval if it matches any of the criteria.
+ */
+export interface ApprovalSettings {
+  enabled: boolean;
+  /**
+   * The types of computer action which always need approval.
+   */
+  actions: ComputerAction["type"][];
+  /**
+   * Key presses which need approval, e.g. "enter" to check forms before they
+   * are submitted. Compared case-insensitively against each key pressed.
+   */
+  keys: string[];
+  /**
+   * Whether typing needs approval when the model's response mentions a
+   * password, PIN or passcode, since it is probably typing one.
+   */
+  passwords: boolean;
+  /**
+   * Whether every `bash` and `str_replace_editor` call needs approval.
+   */
+  shellTools: boolean;
+  /**
+   * Once a model response in the run mentions one of these words, every
+   * later action in the run needs approval, including that response's.
+   */
+  keywords: string[];
+}
+
+export const DEFAULT_APPROVAL: ApprovalSettings = {
+  enabled: false,
+  actions: [],
+  keys: ["enter", "return"],
+  passwords: true,
+  shellTools: true,
+  keywords: ["purchase", "checkout", "payment"],
+};
+
+const ACTION_TYPES: ComputerAction["type"][] = [
+  "click",
+  "double_click",
+  "drag",
+  "keypress",
+  "move",
+  "screenshot",
+  "scroll",
+  "type",
+  "wait",
+];
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && item.trim())
+  );
+}
+
+/**
+ * Validates approval settings passed in the configurable fields.
+ *
+ * @param {ApprovalSettings} approval The settings to validate.
+ * @returns {ApprovalSettings} The settings.
+ */
+export function validateApproval(approval: ApprovalSettings): ApprovalSettings {
+  for (const key of ["enabled", "passwords", "shellTools"] as const) {
+    if (typeof approval[key] !== "boolean") {
+      throw new Error(`approval.${key} must be a boolean`);
+    }
+  }
+  if (
+    !Array.isArray(approval.actions) ||
+    !approval.actions.every((type) => ACTION_TYPES.includes(type))
+  ) {
+    throw new Error(
+      `approval.actions must be a list of action types: ${ACTION_TYPES.join(", ")}`,
+    );
+  }
+  for (const key of ["keys", "keywords"] as const) {
+    if (!isStringList(approval[key])) {
+      throw new Error(`approval.${key} must be a list of non-empty strings`);
+    }
+  }
+  return approval;
+}
+
+/**
+ * An action waiting for approval. Computer actions are shown and edited in
+ * the `computer_use` tool format, in screen coordinates.
+ */
+export interface ApprovalCall {
+  toolCallId: string;
+  tool: "computer" | ShellToolName | typeof RUN_SKILL_TOOL_NAME;
+  /**
+   * The computer action, or the arguments of the shell or `run_skill` tool
+   * call.
+   */
+  args: GrokComputerAction | Record<string, unknown>;
+  /**
+   * The action, as a short line for display.
+   */
+  input: string;
+}
+
+/**
+ * The value of the interrupt raised before actions which need approval.
+ */
+export interface ApprovalRequest {
+  type: "approval";
+  calls: ApprovalCall[];
+  /**
+   * Why the actions need approval.
+   */
+  reasons: string[];
+  /**
+   * The model's reasoning for the actions, if it gave any.
+   */
+  reasoning?: string;
+  /**
+   * The latest screenshot, as a URL or data URL.
+   */
+  screenshot?: string;
+}
+
+/**
+ * How the user answered an approval request, passed as the `resume` value of
+ * the command which continues the run. Edits replace the arguments of the
+ * calls they list, and the edited calls then run.
+ */
+export type ApprovalDecision =
+  | { decision: "approve" }
+  | {
+      decision: "edit";
+      args: Record<string, GrokComputerAction | Record<string, unknown>>;
+    }
+  | { decision: "reject"; reason?: string };
+
+/**
+ * What became of a computer action which needed approval, stored on its
+ * computer call so the UI can show it.
+ */
+export type ApprovalOutcome = "approved" | "edited" | "rejected";
+
+export type ApprovedComputerCall = VerifiedComputerCall & {
+  approval?: ApprovalOutcome;
+};
+
+/**
+ * Validates the decision the run was resumed with.
+ *
+ * @param {unknown} decision The resume value.
+ * @returns {ApprovalDecision} The decision.
+ */
+export function validateApprovalDecision(decision: unknown): ApprovalDecision {
+  const value = decision as Partial<Record<string, unknown>> | undefined;
+  switch (value?.decision) {
+    case "approve":
+      return { decision: "approve" };
+    case "reject":
+      if (value.reason !== undefined && typeof value.reason !== "string") {
+        throw new Error("approval reason must be a string");
+      }
+      return { decision: "reject", reason: value.reason || undefined };
+    case "edit":
+      if (
+        !value.args ||
+        typeof value.args !== "object" ||
+        !Object.values(value.args).every(
+          (args) => args && typeof args === "object" && !Array.isArray(args),
+        )
+      ) {
+        throw new Error(
+          "approval edits must map tool call IDs to argument objects",
+        );
+      }
+      return {
+        decision: "edit",
+        args: value.args as Record<string, Record<string, unknown>>,
+      };
+    default:
+      throw new Error(
+        `approval decision must be "approve", "edit" or "reject"`,
+      );
+  }
+}
+
+/**
+ * The actions the last model response will take: its shell tool calls, or
+ * otherwise its last computer call, which is the only one executed.
+ */
+export function getPendingCalls(message: AIMessage): ApprovalCall[] {
+  const shellToolCalls = getShellToolCalls(message);
+  if (shellToolCalls.length) {
+    return shellToolCalls.map((toolCall: ToolCall) => ({
+      toolCallId: toolCall.id as string,
+      tool: toolCall.name as ShellToolName,
+      args: toolCall.args,
+      input: formatShellToolInput(toolCall),
+    }));
+  }
+  const call = getComputerCall(message);
+  if (!call) {
+    return [];
+  }
+  const args = toGrokAction(call.action);
+  return [
+    {
+      toolCallId: call.call_id,
+      tool: "computer",
+      args,
+      input: JSON.stringify(args),
+    },
+  ];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function findKeyword(
+  messages: BaseMessage[],
+  keywords: string[],
+): string | undefined {
+  for (const message of messages) {
+    if (message.getType() !== "ai") {
+      continue;
+    }
+    const keyword = keywords.find((k) =>
+      new RegExp(`\\b${escapeRegExp(k)}`, "i").test(message.text),
+    );
+    if (keyword) {
+      return keyword;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists why the actions of the last model response need approval.
+ *
+ * @param {BaseMessage[]} messages The thread's messages, ending with the model response.
+ * @param {RunProgress | undefined} runProgress The progress of the current run, which keywords are searched from the start of.
+ * @param {ApprovalSettings} approval The approval settings.
+ * @returns {string[]} The reasons, or none if the actions can run.
+ */
+export function getApprovalReasons(
+  messages: BaseMessage[],
+  runProgress: RunProgress | undefined,
+  approval: ApprovalSettings,
+): string[] {
+  const message = messages[messages.length - 1] as AIMessage | undefined;
+  if (!approval.enabled || message?.getType() !== "ai") {
+    return [];
+  }
+  const calls = getPendingCalls(message);
+  if (!calls.length) {
+    return [];
+  }
+
+  const reasons: string[] = [];
+  const keyword = findKeyword(
+    messages.slice(runProgress?.messageCountAtStart ?? 0),
+    approval.keywords,
+  );
+  if (keyword) {
+    reasons.push(`The run mentioned "${keyword}".`);
+  }
+  if (calls[0].tool !== "computer") {
+    if (approval.shellTools) {
+      reasons.push("Shell commands and file edits need approval.");
+    }
+    return reasons;
+  }
+
+  const action = getComputerCall(message)?.action as ComputerAction;
+  return [...reasons, ...getActionApprovalReasons(action, message, approval)];
+}
+
+/**
+ * Lists why a computer action needs approval.
+ *
+ * @param {ComputerAction} action The action.
+ * @param {AIMessage} message The model response which asked for it.
+ * @param {ApprovalSettings} approval The approval settings.
+ * @returns {string[]} The reasons, or none if the action can run.
+ */
+function getActionApprovalReasons(
+  action: ComputerAction,
+  message: AIMessage,
+  approval: ApprovalSettings,
+): string[] {
+  const reasons: string[] = [];
+  if (approval.actions.includes(action.type)) {
+    reasons.push(`"${action.type}" actions need approval.`);
+  }
+  if (action.type === "keypress") {
+    const keys = approval.keys.map((key) => key.toLowerCase());
+    const pressed = action.keys.find((key) => keys.includes(key.toLowerCase()));
+    if (pressed) {
+      reasons.push(`Pressing ${pressed} may submit a form.`);
+    }
+  }
+  if (
+    action.type === "type" &&
+    approval.passwords &&
+    /\b(password|passcode|passphrase|pin)\b/i.test(message.text)
+  ) {
+    reasons.push("This may type a password.");
+  }
+  return reasons;
+}
+
+/**
+ * Lists why a skill the model called `run_skill` for needs approval before
+ * its replay starts. Its steps are checked as if the model had taken them.
+ * Neither the verifier nor the model provider's safety checks can check
+ * replayed steps, so steps the verifier would check need approval too, as
+ * does any replay in a run the provider raised safety checks in.
+ *
+ * @param {BaseMessage[]} messages The thread's messages, ending with the model response which called `run_skill`.
+ * @param {RunProgress | undefined} runProgress The progress of the current run, which keywords and safety checks are searched from the start of.
+ * @param {ComputerAction[]} actions The skill's steps, with its parameters filled in.
+ * @param {ApprovalSettings} approval The approval settings.
+ * @param {VerifierSettings} verifier The verifier settings.
+ * @returns {string[]} The reasons, or none if the replay can start.
+ */
+export function getSkillApprovalReasons(
+  messages: BaseMessage[],
+  runProgress: RunProgress | undefined,
+  actions: ComputerAction[],
+  approval: ApprovalSettings,
+  verifier: VerifierSettings,
+): string[] {
+  const message = messages[messages.length - 1] as AIMessage;
+  const runMessages = messages.slice(runProgress?.messageCountAtStart ?? 0);
+  const reasons = new Set<string>();
+  if (approval.enabled) {
+    const keyword = findKeyword(runMessages, approval.keywords);
+    if (keyword) {
+      reasons.add(`The run mentioned "${keyword}".`);
+    }
+    for (const action of actions) {
+      for (const reason of getActionApprovalReasons(
+        action,
+        message,
+        approval,
+      )) {
+        reasons.add(reason);
+      }
+    }
+  }
+  if (
+    verifier.enabled &&
+    actions.some((action) => verifier.actions.includes(action.type))
+  ) {
+    reasons.add("The verifier can not check a skill's steps.");
+  }
+  if (
+    runMessages.some(
+      (m) =>
+        m.getType() === "ai" &&
+        getComputerCall(m)?.pending_safety_checks?.length,
+    )
+  ) {
+    reasons.add(
+      "The model provider raised safety checks in this run, which can not check a skill's steps.",
+    );
+  }
+  return [...reasons];
+}
+
+/**
+ * The latest screenshot in the thread, as stored in its tool message.
+ */
+export function getLatestScreenshot(
+  messages: BaseMessage[],
+): string | undefined {
+  const screenshot = messages.findLast(isComputerCallToolMessage);
+  return typeof screenshot?.content === "string"
+    ? screenshot.content
+    : undefined;
+}
@@ -0,0 +1,148 @@
+import { Annotation } from "@langchain/langgraph";
+import { EMPTY_USAGE, UsageTotals } from "./usage";
+
+/**
+ * Limits on a single run of the agent. A run stops gracefully, with a
+ * summary of what was done, before the next model call once any limit is
+ * reached. Limits which are not set are not enforced.
+ */
+export interface Budget {
+  /**
+   * The maximum number of model calls.
+   */
+  maxSteps?: number;
+  /**
+   * The maximum number of input and output tokens, summed over model calls.
+   */
+  maxTokens?: number;
+  /**
+   * The maximum cost, in US dollars. Model calls which are not priced do not
+   * count towards it.
+   */
+  maxCostUsd?: number;
+  /**
+   * The maximum wall-clock time, in seconds.
+   */
+  maxDurationSeconds?: number;
+}
+
+export const DEFAULT_BUDGET: Budget = {
+  maxSteps: 40,
+};
+
+/**
+ * The key of a run's own budget in its metadata, merged over the graph's
+ * `configurable.budget`. Unlike configurable fields, run metadata is not
+ * kept on the thread, so the thread's later runs get the default budget.
+ */
+export const BUDGET_METADATA_KEY = "budget";
+
+export type BudgetLimit = keyof Budget;
+
+/**
+ * The budget which stopped a run, and how much of it was used.
+ */
+export interface ExceededBudget {
+  limit: BudgetLimit;
+  max: number;
+  used: number;
+}
+
+/**
+ * What the current run has used so far. Reset at the start of every run, so
+ * budgets apply per run rather than per thread.
+ */
+export interface RunProgress {
+  startedAt: string;
+  steps: number;
+  /**
+   * The number of messages in the thread when the run started, including the
+   * run's input.
+   */
+  messageCountAtStart: number;
+  usageAtStart: UsageTotals;
+}
+
+export const RunProgressAnnotation = Annotation<RunProgress | undefined>({
+  reducer: (_state, update) => update,
+  default: () => undefined,
+});
+
+export const BudgetExceededAnnotation = Annotation<ExceededBudget | null>({
+  reducer: (_state, update) => update,
+  default: () => null,
+});
+
+export type BudgetState = {
+  usage?: UsageTotals;
+  runProgress?: RunProgress;
+};
+
+/**
+ * Validates a budget passed in the configurable fields.
+ *
+ * @param {Budget} budget The budget to validate.
+ * @returns {Budget} The budget.
+ */
+export function validateBudget(budget: Budget): Budget {
+  for (const [limit, max] of Object.entries(budget)) {
+    if (max !== undefined && (typeof max !== "number" || !(max > 0))) {
+      throw new Error(`budget.${limit} must be a positive number`);
+    }
+  }
+  return budget;
+}
+
+/**
+ * Gets the steps, usage and duration of the current run.
+ */
+export function getRunUsage(
+  state: BudgetState,
+  now = Date.now(),
+): { steps: number; usage: UsageTotals; durationSeconds: number } {
+  const usage = state.usage ?? EMPTY_USAGE;
+  const atStart = state.runProgress?.usageAtStart ?? EMPTY_USAGE;
+  const startedAt = state.runProgress
+    ? new Date(state.runProgress.startedAt).getTime()
+    : now;
+  return {
+    steps: state.runProgress?.steps ?? 0,
+    usage: {
+      inputTokens: usage.inputTokens - atStart.inputTokens,
+      outputTokens: usage.outputTokens - atStart.outputTokens,
+      totalTokens: usage.totalTokens - atStart.totalTokens,
+      costUsd: usage.costUsd - atStart.costUsd,
+      modelCalls: usage.modelCalls - atStart.modelCalls,
+      unpricedModelCalls: usage.unpricedModelCalls - atStart.unpricedModelCalls,
+    },
+    durationSeconds: (now - startedAt) / 1000,
+  };
+}
+
+/**
+ * Checks the current run against a budget.
+ *
+ * @param {BudgetState} state The current state of the thread.
+ * @param {Budget} budget The budget of the run.
+ * @returns {ExceededBudget | undefined} The first limit which was reached, if any.
+ */
+export function getExceededBudget(
+  state: BudgetState,
+  budget: Budget,
+  now = Date.now(),
+): ExceededBudget | undefined {
+  const { steps, usage, durationSeconds } = getRunUsage(state, now);
+  const used: Record<BudgetLimit, number> = {
+    maxSteps: steps,
+    maxTokens: usage.totalTokens,
+    maxCostUsd: usage.costUsd,
+    maxDurationSeconds: durationSeconds,
+  };
+  for (const limit of Object.keys(used) as BudgetLimit[]) {
+    const max = budget[limit];
+    if (max !== undefined && used[limit] >= max) {
+      return { limit, max, used: used[limit] };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,486 @@
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { getToolOutputs } from "@langchain/langgraph-cua";
+import type { ResponseComputerToolCall } from "openai/resources/responses/responses";
+
+export type ComputerAction = ResponseComputerToolCall["action"];
+
+/**
+ * The name of the function tool chat completions models use to take computer actions.
+ */
+export const COMPUTER_USE_TOOL_NAME = "computer_use";
+
+/**
+ * Scrapybara scrolls one wheel notch for every 20 pixels of `scroll_x`/`scroll_y`.
+ * Grok's `scroll_amount` is expressed in notches, so it is multiplied by this.
+ */
+const SCROLL_PIXELS_PER_NOTCH = 20;
+
+const DEFAULT_SCROLL_AMOUNT = 3;
+
+// Scrapybara does not allow for configuring this. Must use a hardcoded value.
+// Used when the size of the screenshots the model saw is not known.
+const DEFAULT_DISPLAY = { width: 1024, height: 768 };
+
+/**
+ * The size of the screenshots the model saw, which its coordinates are
+ * relative to.
+ */
+export type Display = { width: number; height: number };
+
+/**
+ * The `action` argument of a `computer_use` tool call, as emitted by chat
+ * completions models. See `createComputerUseTool` for the schema.
+ */
+export interface GrokComputerAction {
+  type: string;
+  x?: number;
+  y?: number;
+  path?: { x: number; y: number }[];
+  button?: string;
+  text?: string;
+  key?: string;
+  keys?: string[];
+  scroll_direction?: "up" | "down" | "left" | "right";
+  scroll_amount?: number;
+  duration?: number;
+}
+
+/**
+ * Thrown when a model emits a computer action which can not be converted
+ * into an action the executor can run.
+ */
+export class ActionNormalizationError extends Error {
+  constructor(
+    message: string,
+    public readonly action: unknown,
+  ) {
+    super(message);
+    this.name = "ActionNormalizationError";
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function requireCoordinates(action: GrokComputerAction): {
+  x: number;
+  y: number;
+} {
+  if (!isFiniteNumber(action.x) || !isFiniteNumber(action.y)) {
+    throw new ActionNormalizationError(
+      `"${action.type}" actions require numeric "x" and "y" coordinates.`,
+      action,
+    );
+  }
+  return { x: Math.round(action.x), y: Math.round(action.y) };
+}
+
+function normalizeButton(
+  button: string | undefined,
+): ResponseComputerToolCall.Click["button"] {
+  switch (button) {
+    case undefined:
+    case "left":
+      return "left";
+    case "right":
+      return "right";
+    case "middle":
+    case "wheel":
+      return "wheel";
+    case "back":
+    case "forward":
+      return button;
+    default:
+      throw new ActionNormalizationError(
+        `Unknown mouse button "${button}". Must be one of "left", "right" or "middle".`,
+        { button },
+      );
+  }
+}
+
+function normalizeKeys(action: GrokComputerAction): string[] {
+  const keys = Array.isArray(action.keys)
+    ? action.keys
+    : typeof action.key === "string"
+      ? // Key combinations are written as "ctrl+c".
+        action.key.split("+")
+      : [];
+  const cleaned = keys
+    .filter((k): k is string => typeof k === "string")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  if (!cleaned.length) {
+    throw new ActionNormalizationError(
+      `"${action.type}" actions require a "key" such as "Enter" or "ctrl+c".`,
+      action,
+    );
+  }
+  return cleaned;
+}
+
+function normalizeScroll(
+  action: GrokComputerAction,
+  display: Display,
+): ResponseComputerToolCall.Scroll {
+  const amount = isFiniteNumber(action.scroll_amount)
+    ? action.scroll_amount
+    : DEFAULT_SCROLL_AMOUNT;
+  const distance = Math.round(Math.abs(amount) * SCROLL_PIXELS_PER_NOTCH);
+
+  let scroll_x = 0;
+  let scroll_y = 0;
+  switch (action.scroll_direction ?? "down") {
+    case "up":
+      scroll_y = -distance;
+      break;
+    case "down":
+      scroll_y = distance;
+      break;
+    case "left":
+      scroll_x = -distance;
+      break;
+    case "right":
+      scroll_x = distance;
+      break;
+    default:
+      throw new ActionNormalizationError(
+        `Unknown scroll direction "${action.scroll_direction}". Must be one of "up", "down", "left" or "right".`,
+        action,
+      );
+  }
+
+  // The position only decides which element receives the scroll, so default
+  // to the center of the screen when the model leaves it out.
+  const hasPosition = isFiniteNumber(action.x) && isFiniteNumber(action.y);
+  return {
+    type: "scroll",
+    x: hasPosition ? Math.round(action.x!) : Math.round(display.width / 2),
+    y: hasPosition ? Math.round(action.y!) : Math.round(display.height / 2),
+    scroll_x,
+    scroll_y,
+  };
+}
+
+function normalizeDrag(
+  action: GrokComputerAction,
+): ResponseComputerToolCall.Drag {
+  const path = Array.isArray(action.path) ? action.path : [];
+  if (
+    path.length < 2 ||
+    !path.every((p) => isFiniteNumber(p?.x) && isFiniteNumber(p?.y))
+  ) {
+    throw new ActionNormalizationError(
+      `"drag" actions require a "path" of at least two {x, y} points, starting where the drag begins.`,
+      action,
+    );
+  }
+  return {
+    type: "drag",
+    path: path.map(({ x, y }) => ({ x: Math.round(x), y: Math.round(y) })),
+  };
+}
+
+/**
+ * Converts the `action` argument of a `computer_use` tool call into the
+ * `ResponseComputerToolCall` action shape the executor runs.
+ *
+ * @param {unknown} action The action emitted by the model.
+ * @param {Display} display The size of the screenshots the model saw, if known. Scrolls without a position default to its center.
+ * @returns {ComputerAction} The normalized action.
+ * @throws {ActionNormalizationError} If the action can not be converted.
+ */
+export function normalizeGrokAction(
+  action: unknown,
+  display: Display = DEFAULT_DISPLAY,
+): ComputerAction {
+  if (
+    !action ||
+    typeof action !== "object" ||
+    typeof (action as GrokComputerAction).type !== "string"
+  ) {
+    throw new ActionNormalizationError(
+      `Computer actions must be an object with a "type" field.`,
+      action,
+    );
+  }
+  const grokAction = action as GrokComputerAction;
+
+  switch (grokAction.type) {
+    case "click":
+    case "left_click":
+      return {
+        type: "click",
+        button: normalizeButton(grokAction.button),
+        ...requireCoordinates(grokAction),
+      };
+    case "right_click":
+      return {
+        type: "click",
+        button: "right",
+        ...requireCoordinates(grokAction),
+      };
+    case "middle_click":
+      return {
+        type: "click",
+        button: "wheel",
+        ...requireCoordinates(grokAction),
+      };
+    case "double_click":
+      return { type: "double_click", ...requireCoordinates(grokAction) };
+    case "move":
+    case "mouse_move":
+      return { type: "move", ...requireCoordinates(grokAction) };
+    case "drag":
+      return normalizeDrag(grokAction);
+    case "key":
+    case "keypress":
+      return { type: "keypress", keys: normalizeKeys(grokAction) };
+    case "type":
+      if (typeof grokAction.text !== "string" || !grokAction.text.length) {
+        throw new ActionNormalizationError(
+          `"type" actions require a non-empty "text" field.`,
+          grokAction,
+        );
+      }
+      return { type: "type", text: grokAction.text };
+    case "scroll":
+      return normalizeScroll(grokAction, display);
+    case "screenshot":
+      return { type: "screenshot" };
+    case "wait":
+      return { type: "wait" };
+    default:
+      throw new ActionNormalizationError(
+        `Unknown action type "${grokAction.type}".`,
+        grokAction,
+      );
+  }
+}
+
+/**
+ * Converts a `computer_use` action which is still streaming into the action
+ * to display while it streams.
+ *
+ * @param {unknown} action The partial action emitted by the model so far.
+ * @param {Display} display The size of the screenshots the model saw, if known.
+ * @returns {ComputerAction | undefined} The action, or undefined if not enough of it has arrived.
+ */
+export function previewGrokAction(
+  action: unknown,
+  display?: Display,
+): ComputerAction | undefined {
+  try {
+    return normalizeGrokAction(action, display);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts a `ResponseComputerToolCall` action back into the `computer_use`
+ * tool call arguments chat completions models expect. Used when replaying
+ * history which was produced by a different provider.
+ *
+ * @param {ComputerAction} action The executor action.
+ * @returns {GrokComputerAction} The equivalent `computer_use` action.
+ */
+export function toGrokAction(action: ComputerAction): GrokComputerAction {
+  switch (action.type) {
+    case "click":
+      return {
+        type: "click",
+        x: action.x,
+        y: action.y,
+        button: action.button === "wheel" ? "middle" : action.button,
+      };
+    case "double_click":
+    case "move":
+      return { type: action.type, x: action.x, y: action.y };
+    case "drag":
+      return { type: "drag", path: action.path };
+    case "keypress":
+      return { type: "key", key: action.keys.join("+") };
+    case "type":
+      return { type: "type", text: action.text };
+    case "scroll": {
+      const vertical = action.scroll_y !== 0 || action.scroll_x === 0;
+      const distance = vertical ? action.scroll_y : action.scroll_x;
+      return {
+        type: "scroll",
+        x: action.x,
+        y: action.y,
+        scroll_direction: vertical
+          ? distance < 0
+            ? "up"
+            : "down"
+          : distance < 0
+            ? "left"
+            : "right",
+        scroll_amount: Math.abs(distance) / SCROLL_PIXELS_PER_NOTCH,
+      };
+    }
+    case "screenshot":
+    case "wait":
+      return { type: action.type };
+    default:
+      throw new ActionNormalizationError(
+        `Unknown computer action: ${JSON.stringify(action)}`,
+        action,
+      );
+  }
+}
+
+/**
+ * Describes an action in a short, human readable sentence, for summaries of
+ * what the agent did.
+ *
+ * @param {ComputerAction} action The executor action.
+ * @returns {string} The description.
+ */
+export function describeComputerAction(action: ComputerAction): string {
+  switch (action.type) {
+    case "click":
+      return `Clicked the ${action.button} button at (${action.x}, ${action.y})`;
+    case "double_click":
+      return `Double clicked at (${action.x}, ${action.y})`;
+    case "move":
+      return `Moved the mouse to (${action.x}, ${action.y})`;
+    case "drag": {
+      const start = action.path[0];
+      const end = action.path[action.path.length - 1];
+      return start && end
+        ? `Dragged from (${start.x}, ${start.y}) to (${end.x}, ${end.y})`
+        : "Dragged the mouse";
+    }
+    case "keypress":
+      return `Pressed ${action.keys.join("+")}`;
+    case "type":
+      return `Typed "${action.text}"`;
+    case "scroll":
+      return `Scrolled at (${action.x}, ${action.y})`;
+    case "screenshot":
+      return "Took a screenshot";
+    case "wait":
+      return "Waited";
+    default:
+      return `Ran ${(action as { type: string }).type}`;
+  }
+}
+
+/**
+ * Converts the `computer_use` tool calls on a model response into
+ * `computer_call` items in `additional_kwargs.tool_outputs`, which is where
+ * the graph looks for actions to execute. Responses which already contain
+ * computer calls (e.g. from the Responses API) are returned unchanged.
+ *
+ * If any tool call can not be converted, or the response has more than one,
+ * none of them are executed. Instead, an error tool message is returned for
+ * every tool call, so the model can correct itself on the next turn.
+ *
+ * @param {AIMessage} message The model response.
+ * @param {Display} display The size of the screenshots the model saw, if known.
+ * @returns The response to store, and any error tool messages to append after it.
+ */
+export function attachComputerCalls(
+  message: AIMessage,
+  display?: Display,
+): {
+  message: AIMessage;
+  errors: ToolMessage[];
+} {
+  const toolCalls = (message.tool_calls ?? []).filter(
+    (tc) => tc.name === COMPUTER_USE_TOOL_NAME,
+  );
+  // Streamed tool calls whose arguments were not valid JSON.
+  const invalidToolCalls = (message.invalid_tool_calls ?? []).filter(
+    (tc) => tc.name === COMPUTER_USE_TOOL_NAME && tc.id,
+  );
+  if (
+    (!toolCalls.length && !invalidToolCalls.length) ||
+    message.additional_kwargs?.tool_outputs
+  ) {
+    return { message, errors: [] };
+  }
+
+  const computerCalls: ResponseComputerToolCall[] = [];
+  const failures = new Map<string, string>();
+  for (const tc of invalidToolCalls) {
+    failures.set(tc.id as string, "The arguments were not valid JSON.");
+  }
+  for (const tc of toolCalls) {
+    // Chat completions tool calls always have IDs, they're only optional in the type.
+    const callId = tc.id as string;
+    try {
+      computerCalls.push({
+        type: "computer_call",
+        id: callId,
+        call_id: callId,
+        action: normalizeGrokAction(tc.args?.action, display),
+        pending_safety_checks: [],
+        status: "completed",
+      });
+    } catch (e) {
+      if (!(e instanceof ActionNormalizationError)) {
+        throw e;
+      }
+      failures.set(callId, e.message);
+    }
+  }
+
+  if (!failures.size && computerCalls.length > 1) {
+    // Each action needs the screenshot taken after the one before it.
+    for (const call of computerCalls) {
+      failures.set(
+        call.call_id,
+        `Only one computer action can be taken per response, and this response had ${computerCalls.length}. Call ${COMPUTER_USE_TOOL_NAME} once, and check the screenshot it returns before the next action.`,
+      );
+    }
+  }
+
+  if (failures.size) {
+    const errors = [...toolCalls, ...invalidToolCalls].map(
+      (tc) =>
+        new ToolMessage({
+          tool_call_id: tc.id as string,
+          status: "error",
+          content: failures.has(tc.id as string)
+            ? `Invalid computer action: ${failures.get(tc.id as string)} No action was taken.`
+            : "This action was not taken, because another action in the same response was invalid.",
+        }),
+    );
+    return { message, errors };
+  }
+
+  return {
+    message: new AIMessage({
+      id: message.id,
+      content: message.content,
+      tool_calls: message.tool_calls,
+      invalid_tool_calls: message.invalid_tool_calls,
+      usage_metadata: message.usage_metadata,
+      response_metadata: message.response_metadata,
+      additional_kwargs: {
+        ...message.additional_kwargs,
+        tool_outputs: computerCalls,
+      },
+    }),
+    errors: [],
+  };
+}
+
+/**
+ * The computer call a model response takes, if any. Responses take at most
+ * one: `attachComputerCalls` rejects chat completions responses with more,
+ * and the Responses API returns one per response.
+ *
+ * @param {BaseMessage | undefined} message The model response.
+ * @returns {ResponseComputerToolCall | undefined} The computer call.
+ */
+export function getComputerCall(
+  message: BaseMessage | undefined,
+): ResponseComputerToolCall | undefined {
+  return message?.getType() === "ai"
+    ? getToolOutputs(message as AIMessage)?.at(-1)
+    : undefined;
+}
@@ -0,0 +1,327 @@
+import { Annotation, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAConfigurable, CUAEnvironment } from "@langchain/langgraph-cua";
+import { SystemMessage } from "@langchain/core/messages";
+import { DEFAULT_MODEL_PRICES, ModelPrice } from "./usage";
+import {
+  Budget,
+  BUDGET_METADATA_KEY,
+  DEFAULT_BUDGET,
+  validateBudget,
+} from "./budget";
+import {
+  ContextPolicy,
+  DEFAULT_CONTEXT_POLICY,
+  validateContextPolicy,
+} from "./context-policy";
+import {
+  DEFAULT_SCREENSHOT_SCALING,
+  ScreenshotScaling,
+  validateScreenshotScaling,
+} from "./screenshot-scaling";
+import {
+  DEFAULT_VERIFIER,
+  validateVerifier,
+  VerifierSettings,
+} from "./verification";
+import {
+  ApprovalSettings,
+  DEFAULT_APPROVAL,
+  validateApproval,
+} from "./approval";
+import { ActionPolicy } from "./policy";
+import {
+  REPLAY_SKILL_METADATA_KEY,
+  ReplaySkillRequest,
+  SAVE_SKILL_METADATA_KEY,
+  SaveSkillRequest,
+  validateReplaySkillRequest,
+  validateSaveSkillRequest,
+} from "./skills";
+import {
+  FAN_OUT_METADATA_KEY,
+  FanOutRequest,
+  validateFanOutRequest,
+} from "./fan-out";
+import {
+  ModelSettings,
+  ReasoningEffort,
+  validateModelSettings,
+} from "./model-settings";
+
+// Copied from `@langchain/langgraph-cua`, which does not export it.
+export const BLOCKED_DOMAINS = [
+  "maliciousbook.com",
+  "evilvideos.com",
+  "darkwebforum.com",
+  "shadytok.com",
+  "suspiciouspins.com",
+  "ilanbigio.com",
+];
+
+/**
+ * The name of the model provider used when none is passed in the configurable
+ * fields, or via the MODEL_PROVIDER environment variable.
+ */
+export const DEFAULT_MODEL_PROVIDER = "xai";
+
+export const CustomCUAConfigurable = Annotation.Root({
+  ...CUAConfigurable.spec,
+  /**
+   * The name of the registered model provider to call for this run.
+   * @default process.env.MODEL_PROVIDER ?? "xai"
+   */
+  modelProvider: Annotation<string | null | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * The model to call. Defaults to the model the provider was registered with.
+   * @default undefined
+   */
+  model: Annotation<string | null | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * The sampling temperature, from 0 to 2.
+   * @default 0.1 for chat completions providers
+   */
+  temperature: Annotation<number | null | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * The maximum number of tokens the model may generate per call.
+   * @default 4096 for chat completions providers
+   */
+  maxTokens: Annotation<number | null | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Nucleus sampling probability mass, greater than 0 and at most 1.
+   * @default undefined
+   */
+  topP: Annotation<number | null | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * How much reasoning models should think before responding. Only set it
+   * for models which support it, since the provider rejects it otherwise.
+   * @default undefined
+   */
+  reasoningEffort: Annotation<ReasoningEffort | null | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Prices of models, in US dollars per million tokens, used to calculate the
+   * cost of each model call. Merged over `DEFAULT_MODEL_PRICES`.
+   * @default {}
+   */
+  modelPrices: Annotation<Record<string, ModelPrice> | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Limits on each run's steps, tokens, cost and duration. Merged over
+   * `DEFAULT_BUDGET`, and a run's own budget is merged over it from
+   * `metadata.budget`. See `BUDGET_METADATA_KEY`.
+   * @default {}
+   */
+  budget: Annotation<Budget | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * How much of the screenshot history to send to the model. Merged over
+   * `DEFAULT_CONTEXT_POLICY`.
+   * @default {}
+   */
+  contextPolicy: Annotation<Partial<ContextPolicy> | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * How screenshots are resized and re-encoded before they are sent to the
+   * model. Merged over `DEFAULT_SCREENSHOT_SCALING`.
+   * @default {}
+   */
+  screenshotScaling: Annotation<Partial<ScreenshotScaling> | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Whether, and which, computer actions are checked by a verifier model
+   * before they run. Merged over `DEFAULT_VERIFIER`.
+   * @default {}
+   */
+  verifier: Annotation<Partial<VerifierSettings> | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Which actions pause the run until the user approves them. Merged over
+   * `DEFAULT_APPROVAL`.
+   * @default {}
+   */
+  approval: Annotation<Partial<ApprovalSettings> | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Rules every action must follow, added to the policy file at
+   * `ACTION_POLICY_PATH`. See `ActionPolicy`.
+   * @default {}
+   */
+  policy: Annotation<Partial<ActionPolicy> | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Whether to ask the model for a plan before the first action of each run.
+   * @default true
+   */
+  planning: Annotation<boolean | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Whether to offer the model `bash` and `str_replace_editor` tools on
+   * Ubuntu instances.
+   * @default true
+   */
+  shellTools: Annotation<boolean | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * Whether to offer the model the `run_skill` tool, which replays the skills
+   * saved for the run's environment.
+   * @default true
+   */
+  skills: Annotation<boolean | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * The user's instructions, filled into the `{{instructions}}` variable of
+   * the prompt template.
+   * @default ""
+   */
+  instructions: Annotation<string | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+  /**
+   * The scenario the `demo` provider plays: a name in `DEMO_SCENARIOS_DIR`,
+   * or a path to a YAML or JSON scenario file.
+   * @default process.env.DEMO_SCENARIO ?? "web-search"
+   */
+  demoScenario: Annotation<string | undefined>({
+    reducer: (_state, update) => update,
+    default: () => undefined,
+  }),
+});
+
+export type CustomCUAConfiguration = {
+  scrapybaraApiKey: string | undefined;
+  timeoutHours: number;
+  zdrEnabled: boolean;
+  environment: CUAEnvironment;
+  authStateId: string | undefined;
+  prompt: string | SystemMessage | undefined;
+  blockedDomains: string[];
+  modelProvider: string;
+  modelSettings: ModelSettings;
+  modelPrices: Record<string, ModelPrice>;
+  budget: Budget;
+  contextPolicy: ContextPolicy;
+  screenshotScaling: ScreenshotScaling;
+  verifier: VerifierSettings;
+  approval: ApprovalSettings;
+  policy: Partial<ActionPolicy> | undefined;
+  planning: boolean;
+  shellTools: boolean;
+  skills: boolean;
+  instructions: string;
+  saveSkill: SaveSkillRequest | undefined;
+  replaySkill: ReplaySkillRequest | undefined;
+  fanOut: FanOutRequest | undefined;
+  demoScenario: string | undefined;
+};
+
+/**
+ * Gets the configuration with default values.
+ *
+ * @param {LangGraphRunnableConfig} config - The configuration to use.
+ * @returns {CustomCUAConfiguration} - The configuration with default values.
+ */
+export function getConfigurationWithDefaults(
+  config: LangGraphRunnableConfig,
+): CustomCUAConfiguration {
+  return {
+    scrapybaraApiKey:
+      config.configurable?.scrapybaraApiKey || process.env.SCRAPYBARA_API_KEY,
+    timeoutHours: config.configurable?.timeoutHours ?? 1,
+    zdrEnabled: config.configurable?.zdrEnabled ?? false,
+    environment: config.configurable?.environment ?? "web",
+    authStateId: config.configurable?.authStateId ?? undefined,
+    prompt: config.configurable?.prompt ?? undefined,
+    blockedDomains: config.configurable?.blockedDomains ?? BLOCKED_DOMAINS,
+    modelProvider:
+      config.configurable?.modelProvider ??
+      process.env.MODEL_PROVIDER ??
+      DEFAULT_MODEL_PROVIDER,
+    // `null` clears a setting an earlier run on the thread was sent.
+    modelSettings: validateModelSettings({
+      model: config.configurable?.model ?? undefined,
+      temperature: config.configurable?.temperature ?? undefined,
+      maxTokens: config.configurable?.maxTokens ?? undefined,
+      topP: config.configurable?.topP ?? undefined,
+      reasoningEffort: config.configurable?.reasoningEffort ?? undefined,
+    }),
+    modelPrices: {
+      ...DEFAULT_MODEL_PRICES,
+      ...config.configurable?.modelPrices,
+    },
+    budget: validateBudget({
+      ...DEFAULT_BUDGET,
+      ...config.configurable?.budget,
+      ...(config.metadata?.[BUDGET_METADATA_KEY] as Budget | undefined),
+    }),
+    contextPolicy: validateContextPolicy({
+      ...DEFAULT_CONTEXT_POLICY,
+      ...config.configurable?.contextPolicy,
+    }),
+    screenshotScaling: validateScreenshotScaling({
+      ...DEFAULT_SCREENSHOT_SCALING,
+      ...config.configurable?.screenshotScaling,
+    }),
+    verifier: validateVerifier({
+      ...DEFAULT_VERIFIER,
+      ...config.configurable?.verifier,
+    }),
+    approval: validateApproval({
+      ...DEFAULT_APPROVAL,
+      ...config.configurable?.approval,
+    }),
+    policy: config.configurable?.policy ?? undefined,
+    planning: config.configurable?.planning ?? true,
+    shellTools: config.configurable?.shellTools ?? true,
+    skills: config.configurable?.skills ?? true,
+    instructions: config.configurable?.instructions ?? "",
+    // Run metadata, rather than configurable fields, so later runs on the
+    // thread do not save or replay the skill, or fan out, again.
+    saveSkill: validateSaveSkillRequest(
+      config.metadata?.[SAVE_SKILL_METADATA_KEY],
+    ),
+    replaySkill: validateReplaySkillRequest(
+      config.metadata?.[REPLAY_SKILL_METADATA_KEY],
+    ),
+    fanOut: validateFanOutRequest(config.metadata?.[FAN_OUT_METADATA_KEY]),
+    demoScenario:
+      config.configurable?.demoScenario ?? process.env.DEMO_SCENARIO,
+  };
+}
@@ -0,0 +1,158 @@
+import {
+  BaseMessage,
+  isAIMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import {
+  getToolOutputs,
+  isComputerCallToolMessage,
+} from "@langchain/langgraph-cua";
+import { ComputerAction, describeComputerAction } from "./computer-actions";
+
+/**
+ * How much of the history is sent to providers which do not store the
+ * conversation. Screenshots are the bulk of every request, so only the most
+ * recent ones are sent as images. The full history stays in state; the
+ * policy only changes what the model sees.
+ */
+export interface ContextPolicy {
+  /**
+   * The number of most recent screenshots to send as images.
+   */
+  keepScreenshots: number;
+  /**
+   * What to send instead of older screenshots. `"caption"` describes the
+   * action which was taken before the screenshot, `"placeholder"` only says
+   * that it was omitted.
+   */
+  prunedScreenshots: "caption" | "placeholder";
+  /**
+   * The number of most recent messages to send. The latest request is always
+   * sent, even if it is older.
+   */
+  maxMessages: number;
+}
+
+export const DEFAULT_CONTEXT_POLICY: ContextPolicy = {
+  keepScreenshots: 3,
+  prunedScreenshots: "caption",
+  maxMessages: 100,
+};
+
+/**
+ * Set on the `additional_kwargs` of tool messages whose screenshot was
+ * replaced, for providers which can not accept text as a computer call
+ * output.
+ */
+export const PRUNED_SCREENSHOT_KEY = "pruned_screenshot";
+
+/**
+ * Validates a context policy passed in the configurable fields.
+ *
+ * @param {ContextPolicy} policy The policy to validate.
+ * @returns {ContextPolicy} The policy.
+ */
+export function validateContextPolicy(policy: ContextPolicy): ContextPolicy {
+  if (!Number.isInteger(policy.keepScreenshots) || policy.keepScreenshots < 1) {
+    throw new Error("contextPolicy.keepScreenshots must be a positive integer");
+  }
+  if (!["caption", "placeholder"].includes(policy.prunedScreenshots)) {
+    throw new Error(
+      'contextPolicy.prunedScreenshots must be "caption" or "placeholder"',
+    );
+  }
+  if (!Number.isInteger(policy.maxMessages) || policy.maxMessages < 2) {
+    throw new Error(
+      "contextPolicy.maxMessages must be an integer of at least 2",
+    );
+  }
+  return policy;
+}
+
+/**
+ * Replaces all but the most recent screenshots in the messages with text.
+ * Replaced screenshots are never downloaded, so this should run before
+ * screenshot URLs are converted to base64.
+ *
+ * @param {BaseMessage[]} messages The messages to send to the model.
+ * @param {ContextPolicy} policy The context policy of the run.
+ * @returns {BaseMessage[]} The messages, with older screenshots replaced.
+ */
+export function applyContextPolicy(
+  messages: BaseMessage[],
+  policy: ContextPolicy,
+): BaseMessage[] {
+  const screenshotIndexes = messages.flatMap((message, index) =>
+    isComputerCallToolMessage(message) ? [index] : [],
+  );
+  const pruned = new Set(
+    screenshotIndexes.slice(
+      0,
+      Math.max(0, screenshotIndexes.length - policy.keepScreenshots),
+    ),
+  );
+  if (!pruned.size) {
+    return messages;
+  }
+
+  const actions = new Map<string, ComputerAction>();
+  for (const message of messages) {
+    if (isAIMessage(message)) {
+      getToolOutputs(message)?.forEach((call) => {
+        actions.set(call.call_id, call.action);
+      });
+    }
+  }
+
+  return messages.map((message, index) => {
+    if (!pruned.has(index)) {
+      return message;
+    }
+    const toolMessage = message as ToolMessage;
+    const action = actions.get(toolMessage.tool_call_id);
+    const content =
+      policy.prunedScreenshots === "caption" && action
+        ? `Screenshot taken after this action: ${describeComputerAction(action)}. The image was omitted to save context.`
+        : "Screenshot omitted to save context.";
+    return new ToolMessage({
+      id: toolMessage.id,
+      tool_call_id: toolMessage.tool_call_id,
+      content,
+      additional_kwargs: {
+        ...toolMessage.additional_kwargs,
+        [PRUNED_SCREENSHOT_KEY]: true,
+      },
+    });
+  });
+}
+
+/**
+ * Drops all but the most recent messages, keeping the latest request. The
+ * kept messages never start with a tool message, since the tool call it
+ * answers was dropped.
+ *
+ * @param {BaseMessage[]} messages The messages to send to the model.
+ * @param {number} maxMessages The number of messages to keep.
+ * @returns {BaseMessage[]} The most recent messages.
+ */
+export function limitMessages(
+  messages: BaseMessage[],
+  maxMessages: number,
+): BaseMessage[] {
+  if (messages.length <= maxMessages) {
+    return messages;
+  }
+  const requestIndex = messages.findLastIndex((m) => m.getType() === "human");
+  let start = messages.length - maxMessages;
+  if (requestIndex >= 0 && requestIndex < start) {
+    // Make room for the request.
+    start += 1;
+  }
+  while (start < messages.length && messages[start].getType() === "tool") {
+    start += 1;
+  }
+  const kept = messages.slice(start);
+  return requestIndex >= 0 && requestIndex < start
+    ? [messages[requestIndex], ...kept]
+    : kept;
+}
@@ -1,115 +1,36 @@
-import { AIMessage, ToolMessage } from "@langchain/core/messages";
-import { RunnableLambda } from "@langchain/core/runnables";
+import { ToolMessage } from "@langchain/core/messages";
+import { RunnableConfig, RunnableLambda } from "@langchain/core/runnables";
 import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate, getToolOutputs } from "@langchain/langgraph-cua";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
 import {
-  CUAState,
-  CUAUpdate,
-  isComputerCallToolMessage,
-} from "@langchain/langgraph-cua";
-
-// Simple configuration function
-function getConfigurationWithDefaults(config: LangGraphRunnableConfig) {
-  return {
-    scrapybaraApiKey: config.configurable?.scrapybaraApiKey || process.env.SCRAPYBARA_API_KEY,
-    timeoutHours: config.configurable?.timeoutHours ?? 1,
-    zdrEnabled: config.configurable?.zdrEnabled ?? false,
-    environment: config.configurable?.environment ?? "web",
-    authStateId: config.configurable?.authStateId ?? undefined,
-    prompt: config.configurable?.prompt ?? undefined,
-  };
-}
-
-/**
- * xAI Grok-2 Vision API client implementation
- */
-class GrokClient {
-  private apiKey: string;
-  private baseURL: string;
-
-  constructor(apiKey: string, baseURL: string = "https://api.x.ai/v1") {
-    this.apiKey = apiKey;
-    this.baseURL = baseURL;
-  }
-
-  private async makeRequest(endpoint: string, data: any) {
-    const response = await fetch(`${this.baseURL}/${endpoint}`, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${this.apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Grok API error: ${response.status} - ${response.statusText}\n${errorText}`);
-    }
-
-    return response.json();
-  }
-
-  async createChatCompletion(messages: any[], tools: any[] = []) {
-    const data = {
-      model: "grok-2-vision-1212",
-      messages,
-      tools: tools.length > 0 ? tools : undefined,
-      tool_choice: tools.length > 0 ? "auto" : undefined,
-      stream: false,
-      temperature: 0.1,
-      max_tokens: 4096,
-    };
-
-    try {
-      const response = await this.makeRequest("chat/completions", data);
-      
-      // Convert response to LangChain format
-      const choice = response.choices[0];
-      const message = choice.message;
-
-      return new AIMessage({
-        content: message.content || "",
-        tool_calls: message.tool_calls?.map((tc: any) => ({
-          id: tc.id,
-          name: tc.function.name,
-          args: JSON.parse(tc.function.arguments || "{}"),
-        })) || [],
-        response_metadata: {
-          id: response.id,
-          model: response.model,
-          usage: response.usage,
-        },
-      });
-    } catch (error) {
-      console.error("Grok API Error:", error);
-      
-      // Fallback to a basic response if API fails
-      return new AIMessage({
-        content: "I'm having trouble connecting to the Grok API. Let me try a different approach. I'll take a screenshot first to see the current state.",
-        tool_calls: [{
-          id: "fallback_screenshot",
-          name: "computer_use",
-          args: {
-            action: {
-              type: "screenshot"
-            }
-          }
-        }],
-        response_metadata: {
-          id: "fallback_response",
-          model: "grok-2-vision-1212",
-          usage: { prompt_tokens: 0, completion_tokens: 50, total_tokens: 50 },
-        },
-      });
-    }
-  }
-}
+  attachComputerCalls,
+  COMPUTER_USE_TOOL_NAME,
+  previewGrokAction,
+} from "./computer-actions";
+import { getConfigurationWithDefaults } from "./configuration";
+import { selectHistory } from "./history";
+import { pushPlan } from "./nodes/plan-task";
+import { advancePlan, Plan, PlanState, withPlanPrompt } from "./plan";
+import { resolvePrompt } from "./prompt-templates";
+import { getModelProvider } from "./providers";
+import { ProviderChatModel } from "./providers/chat-model";
+import { rescaleComputerCalls, scaleScreenshots } from "./screenshot-scaling";
+import { listSkills } from "./skills";
+import { getShellToolCalls } from "./shell-tools";
+import type ComponentMap from "./ui/index";
+import { getFinishTaskCall, TaskResult } from "./task-result";
+import { getMessageUsage, UsageTotals, withUsage } from "./usage";
 
 /**
  * Converts an image URL to a base64 string for xAI API
  */
-async function imageUrlToBase64(imageUrl: string): Promise<string> {
-  const response = await fetch(imageUrl);
+export async function imageUrlToBase64(
+  imageUrl: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await fetch(imageUrl, { signal });
   const buffer = await response.arrayBuffer();
   const base64 = Buffer.from(buffer).toString("base64");
   return `data:image/png;base64,${base64}`;
@@ -126,7 +47,10 @@ function isUrl(value: string): boolean {
 /**
  * Updates tool message content for xAI compatibility
  */
-async function conditionallyUpdateToolMessageContent(message: any) {
+async function conditionallyUpdateToolMessageContent(
+  message: any,
+  config?: RunnableConfig,
+) {
   if (
     message.getType() === "tool" &&
     message.additional_kwargs?.type === "computer_call_output" &&
@@ -135,204 +59,161 @@ async function conditionallyUpdateToolMessageContent(message: any) {
   ) {
     return new ToolMessage({
       ...message,
-      content: await imageUrlToBase64(message.content),
+      content: await imageUrlToBase64(message.content, config?.signal),
     });
   }
   return message;
 }
 
 const conditionallyUpdateToolMessageContentRunnable = RunnableLambda.from(
-  conditionallyUpdateToolMessageContent
+  conditionallyUpdateToolMessageContent,
 ).withConfig({ runName: "conditionally-update-tool-message-content" });
 
 /**
- * Converts LangChain messages to xAI format
+ * The ID of the `computer-use-tool-call` UI message for a tool call. Previews
+ * pushed while the tool call streams use the same ID, so the component pushed
+ * once the action runs replaces the preview.
  */
-function convertMessageToGrokFormat(message: any) {
-  if (message.getType() === "system") {
-    return {
-      role: "system",
-      content: message.content,
-    };
-  }
-
-  if (message.getType() === "human") {
-    return {
-      role: "user",
-      content: message.content,
-    };
-  }
-
-  if (message.getType() === "ai") {
-    const result: any = {
-      role: "assistant",
-      content: message.content || "",
-    };
-
-    if (message.tool_calls && message.tool_calls.length > 0) {
-      result.tool_calls = message.tool_calls.map((tc: any) => ({
-        id: tc.id,
-        type: "function",
-        function: {
-          name: tc.name,
-          arguments: JSON.stringify(tc.args),
-        },
-      }));
-    }
-
-    return result;
-  }
-
-  if (message.getType() === "tool") {
-    // Handle screenshot content
-    const content = message.content;
-    if (typeof content === "string" && content.startsWith("data:image/")) {
-      return {
-        role: "user",
-        content: [
-          {
-            type: "image_url",
-            image_url: {
-              url: content,
-            },
-          },
-        ],
-      };
-    }
-
-    return {
-      role: "tool",
-      tool_call_id: message.tool_call_id,
-      content: content,
-    };
-  }
-
-  return {
-    role: "user",
-    content: message.content || "",
-  };
-}
-
-/**
- * Converts computer action to xAI tool format
- */
-function createComputerUseTool(environment: string = "ubuntu") {
-  return {
-    type: "function",
-    function: {
-      name: "computer_use",
-      description: "Use a computer to take actions like clicking, typing, and taking screenshots",
-      parameters: {
-        type: "object",
-        properties: {
-          action: {
-            type: "object",
-            description: "The computer action to perform",
-            properties: {
-              type: {
-                type: "string",
-                enum: ["click", "double_click", "drag", "type", "key", "screenshot", "scroll", "wait"],
-                description: "The type of action to perform",
-              },
-              x: {
-                type: "number",
-                description: "X coordinate for click/drag actions",
-              },
-              y: {
-                type: "number",
-                description: "Y coordinate for click/drag actions",
-              },
-              button: {
-                type: "string",
-                enum: ["left", "right", "middle"],
-                description: "Mouse button for click actions",
-              },
-              text: {
-                type: "string",
-                description: "Text to type",
-              },
-              key: {
-                type: "string",
-                description: "Key to press (e.g., 'Enter', 'Escape', 'Tab')",
-              },
-              scroll_direction: {
-                type: "string",
-                enum: ["up", "down", "left", "right"],
-                description: "Direction to scroll",
-              },
-              scroll_amount: {
-                type: "number",
-                description: "Amount to scroll",
-              },
-              duration: {
-                type: "number",
-                description: "Duration to wait in milliseconds",
-              },
-            },
-            required: ["type"],
-          },
-        },
-        required: ["action"],
-      },
-    },
-  };
+export function getComputerUseToolCallUiId(toolCallId: string): string {
+  return `computer-use-tool-call-${toolCallId}`;
 }
 
 /**
- * Custom model call implementation using xAI Grok-2-Vision-1212
+ * Custom model call implementation, which calls the model provider
+ * selected by `configurable.modelProvider`. Responses are streamed to the UI
+ * through the `messages` stream mode, and computer actions are previewed
+ * while they are generated. If the run has a plan, the model is shown it, and
+ * the progress it reports is pushed to the plan's checklist. If the model
+ * calls `finish_task`, its result is stored and shown, and no action is taken.
  */
 export async function callModelCustom(
-  state: CUAState,
-  config: LangGraphRunnableConfig
-): Promise<CUAUpdate> {
+  state: CUAState & PlanState,
+  config: LangGraphRunnableConfig,
+): Promise<
+  CUAUpdate & { usage: UsageTotals; plan?: Plan; taskResult?: TaskResult }
+> {
   const configuration = getConfigurationWithDefaults(config);
-  const lastMessage = state.messages[state.messages.length - 1];
+  const provider = getModelProvider(config);
+  const model = new ProviderChatModel({ provider });
+
+  const ui = typedUi<typeof ComponentMap>(config);
+  // The last preview pushed for each tool call, to skip pushing unchanged previews.
+  const previews = new Map<string, string>();
+  const onPartialToolCalls = (toolCalls: ToolCall[]) => {
+    for (const tc of toolCalls) {
+      const action =
+        tc.id && tc.name === COMPUTER_USE_TOOL_NAME
+          ? previewGrokAction(tc.args?.action, display)
+          : undefined;
+      if (!tc.id || !action || previews.get(tc.id) === JSON.stringify(action)) {
+        continue;
+      }
+      previews.set(tc.id, JSON.stringify(action));
+      ui.push({
+        id: getComputerUseToolCallUiId(tc.id),
+        name: "computer-use-tool-call",
+        props: { toolCallId: tc.id, action, streaming: true },
+        metadata: { streaming: true },
+      });
+    }
+  };
 
-  // Get xAI API key from environment
-  const xaiApiKey = process.env.XAI_API_KEY;
-  if (!xaiApiKey) {
-    throw new Error("XAI_API_KEY environment variable is required");
+  // Older screenshots are left out first, so they are not downloaded.
+  const history = selectHistory(state.messages, {
+    provider,
+    zdrEnabled: configuration.zdrEnabled,
+    contextPolicy: configuration.contextPolicy,
+  });
+  const formattedMessages = await Promise.all(
+    history.messages.map((m) =>
+      conditionallyUpdateToolMessageContentRunnable.invoke(m, {
+        signal: config.signal,
+      }),
+    ),
+  );
+
+  // The model's coordinates are relative to the scaled screenshots, so keep
+  // their scale to map the coordinates back to the screen.
+  const { messages, scale } = await scaleScreenshots(
+    formattedMessages,
+    configuration.screenshotScaling,
+  );
+  const display = scale && {
+    width: scale.modelWidth,
+    height: scale.modelHeight,
+  };
+  // Only Scrapybara's Ubuntu instances have a shell.
+  const shellTools =
+    configuration.shellTools && configuration.environment === "ubuntu";
+  // Skills only replay in the environment they were recorded in.
+  const skills = configuration.skills
+    ? (await listSkills(config.store)).filter(
+        (skill) => skill.environment === configuration.environment,
+      )
+    : [];
+  const prompt = await resolvePrompt({
+    prompt: configuration.prompt,
+    environment: configuration.environment,
+    instructions: configuration.instructions,
+    display,
+    shellTools,
+    skills,
+  });
+  const response = await model.invoke(messages, {
+    environment: configuration.environment,
+    prompt: withPlanPrompt(prompt, state.plan),
+    settings: configuration.modelSettings,
+    display,
+    previousResponseId: history.previousResponseId,
+    shellTools,
+    skills,
+    signal: config.signal,
+    onPartialToolCalls,
+  });
+
+  const usage = getMessageUsage(response, configuration.modelPrices);
+
+  const finishCall = getFinishTaskCall(response);
+  // Convert `computer_use` tool calls into actions the executor can run,
+  // unless the model finished the task.
+  const { message, errors: toolMessages } = finishCall
+    ? { message: withUsage(response, usage), errors: finishCall.toolMessages }
+    : attachComputerCalls(withUsage(response, usage), display);
+  if (toolMessages.length) {
+    // None of the actions will run, so remove their previews.
+    previews.forEach((_, toolCallId) => {
+      ui.delete(getComputerUseToolCallUiId(toolCallId));
+    });
   }
 
-  const grokClient = new GrokClient(xaiApiKey, process.env.XAI_BASE_URL);
-  
-  const isLastMessageComputerCallOutput = isComputerCallToolMessage(lastMessage);
-
-  // Create computer use tool for xAI
-  const tools = [createComputerUseTool(configuration.environment)];
-
-  let response: AIMessage;
-
-  if (isLastMessageComputerCallOutput && !configuration.zdrEnabled) {
-    // Only pass the formatted last message
-    const formattedMessage = await conditionallyUpdateToolMessageContentRunnable.invoke(lastMessage);
-    const grokMessages = [convertMessageToGrokFormat(formattedMessage)];
-    
-    response = await grokClient.createChatCompletion(grokMessages, tools);
-  } else {
-    // Format all messages
-    const formattedMessagesPromise = state.messages.map((m) =>
-      conditionallyUpdateToolMessageContentRunnable.invoke(m)
+  const taskResult = finishCall?.taskResult;
+  if (taskResult) {
+    ui.push(
+      {
+        name: "task-result",
+        props: taskResult,
+      },
+      { message },
     );
-    const formattedMessages = await Promise.all(formattedMessagesPromise);
+  }
 
-    // Add system prompt if provided
-    const messages: any[] = [];
-    if (configuration.prompt) {
-      if (typeof configuration.prompt === "string") {
-        messages.push({ role: "system", content: configuration.prompt });
-      } else {
-        messages.push(convertMessageToGrokFormat(configuration.prompt));
-      }
+  let plan: Plan | undefined;
+  if (state.plan) {
+    const finished =
+      !!taskResult ||
+      (!toolMessages.length &&
+        !getToolOutputs(message)?.length &&
+        !getShellToolCalls(message).length);
+    plan = advancePlan(state.plan, message, finished);
+    if (plan !== state.plan) {
+      pushPlan(plan, config);
     }
-
-    // Add formatted messages
-    messages.push(...formattedMessages.map(convertMessageToGrokFormat));
-
-    response = await grokClient.createChatCompletion(messages, tools);
   }
 
   return {
-    messages: response,
+    messages: [rescaleComputerCalls(message, scale), ...toolMessages],
+    usage,
+    ...(plan ? { plan } : {}),
+    ...(taskResult ? { taskResult } : {}),
   };
-}
\ No newline at end of file
+}
@@ -1,121 +1,563 @@
-import { Annotation, END, START, StateGraph, LangGraphRunnableConfig } from "@langchain/langgraph";
+import {
+  Annotation,
+  AnnotationRoot,
+  END,
+  LangGraphRunnableConfig,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
 import {
   CUAAnnotation,
-  CUAConfigurable,
   CUAState,
   CUAUpdate,
   getToolOutputs,
   isComputerCallToolMessage,
 } from "@langchain/langgraph-cua";
+import { AIMessage, SystemMessage } from "@langchain/core/messages";
 import { callModelCustom } from "./custom-call-model";
-import { SystemMessage } from "@langchain/core/messages";
-import { AnnotationRoot } from "@langchain/langgraph";
-
-// We'll directly use the original createCua but replace just the callModel function
-import { createCua } from "@langchain/langgraph-cua";
+import {
+  CustomCUAConfigurable,
+  getConfigurationWithDefaults,
+} from "./configuration";
+import { createVMInstance } from "./nodes/create-vm-instance";
+import { takeComputerAction } from "./nodes/take-computer-action";
+import { startRun } from "./nodes/start-run";
+import { summarizeRun } from "./nodes/summarize-run";
+import { planTask } from "./nodes/plan-task";
+import { verifyAction } from "./nodes/verify-action";
+import { runShellTools } from "./nodes/run-shell-tools";
+import { cancelRun, isCancelRun } from "./nodes/cancel-run";
+import { approveAction } from "./nodes/approve-action";
+import { enforcePolicy } from "./nodes/enforce-policy";
+import { acknowledgeSafetyChecks } from "./nodes/acknowledge-safety-checks";
+import { saveSkill } from "./nodes/save-skill";
+import { replaySkill } from "./nodes/replay-skill";
+import {
+  finishFanOut,
+  startFanOut,
+  startSubRuns,
+  waitForSubRuns,
+} from "./nodes/fan-out";
+import { ModelPrice, UsageAnnotation } from "./usage";
+import {
+  Budget,
+  BudgetExceededAnnotation,
+  BudgetState,
+  getExceededBudget,
+  RunProgressAnnotation,
+} from "./budget";
+import { ContextPolicy } from "./context-policy";
+import { ScreenshotScaling } from "./screenshot-scaling";
+import { ModelSettings } from "./model-settings";
+import { PlanAnnotation } from "./plan";
+import { VerifierSettings } from "./verification";
+import { ApprovalSettings, getApprovalReasons } from "./approval";
+import { ActionPolicy, PolicyAuditAnnotation } from "./policy";
+import { getUnacknowledgedSafetyChecks } from "./safety-checks";
+import { isFinishTaskToolMessage, TaskResultAnnotation } from "./task-result";
+import { getShellToolCalls } from "./shell-tools";
+import { getRunSkillCalls } from "./skills";
+import { FanOutAnnotation, FanOutState } from "./fan-out";
 
 /**
  * Configuration for the Custom Grok Computer Use Agent.
  */
-interface CreateCustomCuaParams<StateModifier extends AnnotationRoot<any> = typeof CUAAnnotation> {
+interface CreateCustomCuaParams<
+  StateModifier extends AnnotationRoot<any> = typeof CUAAnnotation,
+> {
   /**
    * The xAI API key to use for Grok-2-Vision-1212.
    * This can be provided in the configuration, or set as an environment variable (XAI_API_KEY).
    * @default process.env.XAI_API_KEY
    */
   xaiApiKey?: string;
-  
+
   /**
    * The API key to use for Scrapybara.
    * This can be provided in the configuration, or set as an environment variable (SCRAPYBARA_API_KEY).
    * @default process.env.SCRAPYBARA_API_KEY
    */
   scrapybaraApiKey?: string;
-  
+
+  /**
+   * The name of the registered model provider to use when a run does not
+   * pass `modelProvider` in its configurable fields.
+   * @default process.env.MODEL_PROVIDER ?? "xai"
+   */
+  modelProvider?: string;
+
+  /**
+   * The model and sampling parameters to use when a run does not pass them
+   * in its configurable fields.
+   * @default {}
+   */
+  modelSettings?: ModelSettings;
+
+  /**
+   * Prices of models, in US dollars per million tokens, used to calculate
+   * the cost of each model call. Merged over `DEFAULT_MODEL_PRICES`.
+   * @default undefined
+   */
+  modelPrices?: Record<string, ModelPrice>;
+
   /**
    * The number of hours to keep the virtual machine running before it times out.
    * Must be between 0.01 and 24.
    * @default 1
    */
   timeoutHours?: number;
-  
+
   /**
-   * Whether or not Zero Data Retention is enabled. If true,
-   * the agent will not pass the 'previous_response_id' to the model, and will always pass it the full
-   * message history for each request. If false, the agent will pass the 'previous_response_id' to the
-   * model, and only the latest message in the history will be passed.
+   * Whether or not Zero Data Retention is enabled. If true, the agent never
+   * continues from a stored response, and always passes the model the
+   * history. If false, providers which store the conversation, like OpenAI's
+   * Responses API, are passed the 'previous_response_id' and only the
+   * messages added since. Providers which do not store it always get the
+   * history. See `selectHistory`.
    * @default false
    */
   zdrEnabled?: boolean;
-  
+
+  /**
+   * Limits on the steps, tokens, cost and duration of each run. A run which
+   * reaches its budget ends with a summary of what was done. Runs can
+   * override it with `budget` in their metadata.
+   * @default DEFAULT_BUDGET
+   */
+  budget?: Budget;
+
+  /**
+   * How much of the screenshot history to send to the model. Runs can
+   * override it with `contextPolicy` in their configurable fields.
+   * @default DEFAULT_CONTEXT_POLICY
+   */
+  contextPolicy?: Partial<ContextPolicy>;
+
   /**
-   * The maximum number of recursive calls the agent can make.
-   * @default 100
+   * How screenshots are resized and re-encoded before they are sent to the
+   * model. Runs can override it with `screenshotScaling` in their
+   * configurable fields.
+   * @default DEFAULT_SCREENSHOT_SCALING
+   */
+  screenshotScaling?: Partial<ScreenshotScaling>;
+
+  /**
+   * Whether, and which, computer actions are checked by a verifier model
+   * before they run. Rejected actions are returned to the model with the
+   * verifier's critique. Runs can override it with `verifier` in their
+   * configurable fields.
+   * @default DEFAULT_VERIFIER
+   */
+  verifier?: Partial<VerifierSettings>;
+
+  /**
+   * Which actions pause the run until the user approves, edits or rejects
+   * them. Runs can override it with `approval` in their configurable fields.
+   * @default DEFAULT_APPROVAL
+   */
+  approval?: Partial<ApprovalSettings>;
+
+  /**
+   * Rules every action must follow, such as blocked key combinations and
+   * allowed domains. The policy file always comes from the
+   * `ACTION_POLICY_PATH` environment variable, and these rules are added to
+   * it, so they can refuse more actions but not fewer. Refused actions are
+   * returned to the model as errors, and recorded in the `policyAudit` state
+   * key. Runs can override it with `policy` in their configurable fields.
+   * @default {}
+   */
+  policy?: Partial<ActionPolicy>;
+
+  /**
+   * Whether to ask the model for a plan before the first action of each run.
+   * The plan is shown as a checklist, and updated as the model reports its
+   * progress. Runs can override it with `planning` in their configurable
+   * fields.
+   * @default true
+   */
+  planning?: boolean;
+
+  /**
+   * Whether to offer the model `bash` and `str_replace_editor` tools, which
+   * run against the instance, in the Ubuntu environment. Runs can override
+   * it with `shellTools` in their configurable fields.
+   * @default true
+   */
+  shellTools?: boolean;
+
+  /**
+   * Whether to offer the model a `run_skill` tool, which replays the skills
+   * saved in the graph's store for the run's environment. Runs can override
+   * it with `skills` in their configurable fields.
+   * @default true
+   */
+  skills?: boolean;
+
+  /**
+   * The maximum number of graph steps per run. Runs are limited by `budget`,
+   * so this is only a backstop against a graph which never ends.
+   * @default 10000
    */
   recursionLimit?: number;
-  
+
   /**
    * The ID of the authentication state. If defined, it will be used to authenticate
    * with Scrapybara. Only applies if 'environment' is set to 'web'.
    * @default undefined
    */
   authStateId?: string;
-  
+
   /**
    * The environment to use.
    * @default "web"
    */
   environment?: "web" | "ubuntu" | "windows";
-  
+
   /**
-   * The prompt to use for the model. This will be used as the system prompt for the model.
-   * @default undefined
+   * The system prompt for the model: a prompt in `PROMPT_LIBRARY_DIR`,
+   * selected as `library:<name>`, a template using the variables in
+   * `PROMPT_VARIABLES`, or a `SystemMessage`, which is sent as is. Runs can
+   * override it with `prompt` in their configurable fields.
+   * @default DEFAULT_PROMPT_TEMPLATES[environment]
    */
   prompt?: string | SystemMessage;
-  
+
   /**
    * A custom node to run before the computer action.
    * @default undefined
    */
   nodeBeforeAction?: (
     state: CUAState & StateModifier["State"],
-    config: LangGraphRunnableConfig<typeof CUAConfigurable.State>
+    config: LangGraphRunnableConfig<typeof CustomCUAConfigurable.State>,
   ) => Promise<CUAUpdate & StateModifier["Update"]>;
-  
+
   /**
    * A custom node to run after the computer action.
    * @default undefined
    */
   nodeAfterAction?: (
     state: CUAState & StateModifier["State"],
-    config: LangGraphRunnableConfig<typeof CUAConfigurable.State>
+    config: LangGraphRunnableConfig<typeof CustomCUAConfigurable.State>,
   ) => Promise<CUAUpdate & StateModifier["Update"]>;
-  
+
   /**
    * Optional state modifier for customizing the agent's state.
    * @default undefined
    */
   stateModifier?: StateModifier;
-  
+
   /**
    * A custom function to handle uploading screenshots to an external
    * store, instead of saving them as base64 in state.
-   * Must accept a base64 string and return a URL.
+   * Must accept a base64 string and return a URL. The upload should stop
+   * when `signal` is aborted, which happens when the run is cancelled.
    * @default undefined
    */
-  uploadScreenshot?: (screenshot: string) => Promise<string>;
+  uploadScreenshot?: (
+    screenshot: string,
+    options?: { signal?: AbortSignal },
+  ) => Promise<string>;
+}
+
+/**
+ * Routes to the cancelRun node if the run was started to record where a
+ * cancelled run stopped, to the saveSkill node if it was started to save the
+ * thread's actions as a skill, otherwise to the startRun node.
+ *
+ * @param {CUAState} _state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns {"startRun" | "cancelRun" | "saveSkill"} The first node to execute.
+ */
+function startOrCancelRun(
+  _state: CUAState,
+  config: LangGraphRunnableConfig,
+): "startRun" | "cancelRun" | "saveSkill" {
+  if (isCancelRun(config)) {
+    return "cancelRun";
+  }
+  const configuration = getConfigurationWithDefaults(config);
+  return configuration.saveSkill ? "saveSkill" : "startRun";
+}
+
+/**
+ * Routes to the replaySkill node if the run was started to replay a skill,
+ * to the startFanOut node if it was started to run a task once per input,
+ * otherwise to the planTask node.
+ *
+ * @param {CUAState} _state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns {"planTask" | "replaySkill" | "startFanOut"} The next node to execute.
+ */
+function planReplayOrFanOut(
+  _state: CUAState,
+  config: LangGraphRunnableConfig,
+): "planTask" | "replaySkill" | "startFanOut" {
+  const configuration = getConfigurationWithDefaults(config);
+  if (configuration.replaySkill) {
+    return "replaySkill";
+  }
+  return configuration.fanOut ? "startFanOut" : "planTask";
 }
 
 /**
- * Creates and configures a Custom Grok Computer Use Agent.
- * This is a wrapper around the original createCua but uses a different model.
+ * Routes to the startSubRuns node while sub-runs are pending and fewer than
+ * `maxConcurrency` are running, to the waitForSubRuns node while any are
+ * running, otherwise to the finishFanOut node.
+ *
+ * @param {FanOutState} state The current state of the thread.
+ * @returns {"startSubRuns" | "waitForSubRuns" | "finishFanOut"} The next node to execute.
  */
-export function createCustomCua<StateModifier extends AnnotationRoot<any> = typeof CUAAnnotation>({
+function startOrWaitForSubRuns(
+  state: FanOutState,
+): "startSubRuns" | "waitForSubRuns" | "finishFanOut" {
+  const { subRuns = [], maxConcurrency = 1 } = state.fanOut ?? {};
+  const running = subRuns.filter((s) => s.status === "running").length;
+  if (running < maxConcurrency && subRuns.some((s) => s.status === "pending")) {
+    return "startSubRuns";
+  }
+  return running ? "waitForSubRuns" : "finishFanOut";
+}
+
+/**
+ * Routes to the callModel node, or to the summarizeRun node if the run has
+ * reached its budget.
+ */
+function callModelOrSummarize(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): "callModel" | "summarizeRun" {
+  const { budget } = getConfigurationWithDefaults(config);
+  return getExceededBudget(state, budget) ? "summarizeRun" : "callModel";
+}
+
+/**
+ * Routes to the approveAction node if the actions of the last model response
+ * need the user's approval, otherwise to the enforcePolicy node, which
+ * checks them against the action policy before they run.
+ */
+function approveActionOrEnforcePolicy(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): "approveAction" | "enforcePolicy" {
+  const { approval } = getConfigurationWithDefaults(config);
+  return getApprovalReasons(state.messages, state.runProgress, approval).length
+    ? "approveAction"
+    : "enforcePolicy";
+}
+
+/**
+ * Routes to the enforcePolicy node if a computer call or shell tool call is
+ * present in the last message, or to the verifyAction node first if actions
+ * are verified, or to the approveAction node first if they need approval,
+ * to the replaySkill node if the model called `run_skill`, back to the
+ * callModel node if the model's actions were rejected and the budget allows
+ * it, otherwise routes to END. Runs always end once the model calls
+ * `finish_task`.
+ *
+ * @param {CUAState} state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns The next node to execute.
+ */
+function takeActionOrEnd(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+):
+  | "enforcePolicy"
+  | "verifyAction"
+  | "approveAction"
+  | typeof END
+  | "createVMInstance"
+  | "callModel"
+  | "replaySkill"
+  | "summarizeRun" {
+  const lastMessage = state.messages[state.messages.length - 1];
+  if (isFinishTaskToolMessage(lastMessage)) {
+    return END;
+  }
+  if (lastMessage?.getType() === "tool") {
+    // The model node appends error tool messages for actions it could not normalize.
+    return callModelOrSummarize(state, config);
+  }
+  if (lastMessage && getRunSkillCalls(lastMessage as AIMessage).length) {
+    return "replaySkill";
+  }
+  const toolOutputs = getToolOutputs(lastMessage);
+  const hasShellToolCalls =
+    !!lastMessage && getShellToolCalls(lastMessage as AIMessage).length > 0;
+  if (!lastMessage || (!toolOutputs?.length && !hasShellToolCalls)) {
+    return END;
+  }
+  if (!state.instanceId) {
+    return "createVMInstance";
+  }
+  // There is nothing to verify actions against until the instance exists.
+  if (
+    !hasShellToolCalls &&
+    getConfigurationWithDefaults(config).verifier.enabled
+  ) {
+    return "verifyAction";
+  }
+  return approveActionOrEnforcePolicy(state, config);
+}
+
+/**
+ * Routes to the runShellTools node if the model called a shell tool,
+ * otherwise to the nodeBeforeAction node, or to the acknowledgeSafetyChecks
+ * node first if the model provider raised safety checks on the action, once
+ * the actions have passed the action policy. Routes back to the callModel
+ * node if the policy refused them, or to the summarizeRun node if the run
+ * has reached its budget.
+ *
+ * @param {CUAState} state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns The next node to execute.
+ */
+function takeActionOrRunShellTools(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+):
+  | "nodeBeforeAction"
+  | "acknowledgeSafetyChecks"
+  | "runShellTools"
+  | "callModel"
+  | "summarizeRun" {
+  const lastMessage = state.messages[state.messages.length - 1];
+  if (lastMessage?.getType() === "tool") {
+    return callModelOrSummarize(state, config);
+  }
+  if (getShellToolCalls(lastMessage as AIMessage).length) {
+    return "runShellTools";
+  }
+  return getUnacknowledgedSafetyChecks(lastMessage).length
+    ? "acknowledgeSafetyChecks"
+    : "nodeBeforeAction";
+}
+
+/**
+ * Routes to the nodeBeforeAction node if the user acknowledged the safety
+ * checks, otherwise back to the callModel node, or to the summarizeRun node
+ * if the run has reached its budget.
+ *
+ * @param {CUAState} state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns The next node to execute.
+ */
+function takeAcknowledgedActionOrReconsider(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): "nodeBeforeAction" | "callModel" | "summarizeRun" {
+  const lastMessage = state.messages[state.messages.length - 1];
+  if (lastMessage?.getType() === "tool") {
+    return callModelOrSummarize(state, config);
+  }
+  return "nodeBeforeAction";
+}
+
+/**
+ * Routes on towards the action if the verifier let it run, otherwise back to
+ * the callModel node with the verifier's critique, or to the summarizeRun
+ * node if the run has reached its budget.
+ *
+ * @param {CUAState} state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns The next node to execute.
+ */
+function takeActionOrReconsider(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): "enforcePolicy" | "approveAction" | "callModel" | "summarizeRun" {
+  const lastMessage = state.messages[state.messages.length - 1];
+  if (lastMessage?.getType() === "tool") {
+    return callModelOrSummarize(state, config);
+  }
+  return approveActionOrEnforcePolicy(state, config);
+}
+
+/**
+ * Routes to the enforcePolicy node if the user approved the actions, or back
+ * to the callModel node with the user's reason if they rejected them, or to
+ * the summarizeRun node if the run has reached its budget.
+ *
+ * @param {CUAState} state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns The next node to execute.
+ */
+function enforcePolicyOrReconsider(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): "enforcePolicy" | "callModel" | "summarizeRun" {
+  const lastMessage = state.messages[state.messages.length - 1];
+  if (lastMessage?.getType() === "tool") {
+    return callModelOrSummarize(state, config);
+  }
+  return "enforcePolicy";
+}
+
+/**
+ * Routes to the callModel node if a computer call output is present and the
+ * budget allows it, to the summarizeRun node if the run has reached its
+ * budget, otherwise routes to END.
+ *
+ * @param {CUAState} state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns {"callModel" | "summarizeRun" | typeof END} The next node to execute.
+ */
+function reinvokeModelOrEnd(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): "callModel" | "summarizeRun" | typeof END {
+  const lastMsg = state.messages[state.messages.length - 1];
+  if (isComputerCallToolMessage(lastMsg)) {
+    return callModelOrSummarize(state, config);
+  }
+  return END;
+}
+
+/**
+ * Routes back to the callModel node once a skill the model called has been
+ * replayed, or to the summarizeRun node if the run has reached its budget.
+ * Replays the user started end.
+ *
+ * @param {CUAState} state The current state of the thread.
+ * @param {LangGraphRunnableConfig} config The configuration of the run.
+ * @returns {"callModel" | "summarizeRun" | typeof END} The next node to execute.
+ */
+function reinvokeModelAfterReplay(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): "callModel" | "summarizeRun" | typeof END {
+  const lastMessage = state.messages[state.messages.length - 1];
+  if (lastMessage?.getType() === "tool") {
+    return callModelOrSummarize(state, config);
+  }
+  return END;
+}
+
+/**
+ * Creates and configures a Custom Computer Use Agent. It has the same
+ * topology as `createCua` from `@langchain/langgraph-cua`, but calls the
+ * model through the provider registry, so the model can be picked per run.
+ */
+export function createCustomCua<
+  StateModifier extends AnnotationRoot<any> = typeof CUAAnnotation,
+>({
   xaiApiKey,
   scrapybaraApiKey,
+  modelProvider,
+  modelSettings,
+  modelPrices,
   timeoutHours = 1.0,
   zdrEnabled = false,
-  recursionLimit = 100,
+  budget,
+  contextPolicy,
+  screenshotScaling,
+  verifier,
+  approval,
+  policy,
+  planning,
+  shellTools,
+  skills,
+  recursionLimit = 10_000,
   authStateId,
   environment = "web",
   prompt,
@@ -124,33 +566,167 @@ export function createCustomCua<StateModifier extends AnnotationRoot<any> = type
   uploadScreenshot,
   stateModifier,
 }: CreateCustomCuaParams<StateModifier> = {}) {
-  
+  // Validate timeout_hours is within acceptable range
+  if (timeoutHours < 0.01 || timeoutHours > 24) {
+    throw new Error("timeoutHours must be between 0.01 and 24");
+  }
+
   // Set environment variables if provided
   if (xaiApiKey) {
     process.env.XAI_API_KEY = xaiApiKey;
   }
 
-  // Create the original CUA graph and then modify it
-  // For now, let's use the original but we'll intercept the model calls
-  return createCua({
-    scrapybaraApiKey,
-    timeoutHours,
-    zdrEnabled,
-    recursionLimit,
-    authStateId,
-    environment,
-    prompt,
-    nodeBeforeAction: async (state: any, config: any) => {
-      // Run custom logic before action
-      const result = nodeBeforeAction ? await nodeBeforeAction(state, config) : {};
-      return result;
-    },
-    nodeAfterAction: async (state: any, config: any) => {
-      // Run custom logic after action
-      const result = nodeAfterAction ? await nodeAfterAction(state, config) : {};
-      return result;
+  const nodeBefore = nodeBeforeAction ?? (async () => ({}));
+  const nodeAfter = nodeAfterAction ?? (async () => ({}));
+
+  const StateAnnotation = Annotation.Root({
+    ...CUAAnnotation.spec,
+    usage: UsageAnnotation,
+    runProgress: RunProgressAnnotation,
+    budgetExceeded: BudgetExceededAnnotation,
+    plan: PlanAnnotation,
+    taskResult: TaskResultAnnotation,
+    policyAudit: PolicyAuditAnnotation,
+    fanOut: FanOutAnnotation,
+    ...stateModifier?.spec,
+  });
+
+  const workflow = new StateGraph(StateAnnotation, CustomCUAConfigurable)
+    .addNode("startRun", startRun)
+    .addNode("planTask", planTask)
+    .addNode("callModel", async (state, config) => ({
+      ...(await callModelCustom(state, config)),
+      runProgress: state.runProgress && {
+        ...state.runProgress,
+        steps: state.runProgress.steps + 1,
+      },
+    }))
+    .addNode("createVMInstance", createVMInstance)
+    .addNode("nodeBeforeAction", nodeBefore)
+    .addNode("nodeAfterAction", nodeAfter)
+    .addNode("takeComputerAction", (state, config) =>
+      takeComputerAction(state, config, { uploadScreenshot }),
+    )
+    .addNode("verifyAction", verifyAction)
+    .addNode("approveAction", approveAction)
+    .addNode("enforcePolicy", enforcePolicy)
+    .addNode("acknowledgeSafetyChecks", acknowledgeSafetyChecks)
+    .addNode("runShellTools", runShellTools)
+    .addNode("summarizeRun", summarizeRun)
+    .addNode("cancelRun", cancelRun)
+    .addNode("saveSkill", saveSkill)
+    .addNode("replaySkill", (state, config) =>
+      replaySkill(state, config, { uploadScreenshot }),
+    )
+    .addNode("startFanOut", startFanOut)
+    .addNode("startSubRuns", startSubRuns)
+    .addNode("waitForSubRuns", waitForSubRuns)
+    .addNode("finishFanOut", finishFanOut)
+    .addConditionalEdges(START, startOrCancelRun, [
+      "startRun",
+      "cancelRun",
+      "saveSkill",
+    ])
+    .addConditionalEdges("startRun", planReplayOrFanOut, [
+      "planTask",
+      "replaySkill",
+      "startFanOut",
+    ])
+    .addEdge("startFanOut", "startSubRuns")
+    .addConditionalEdges("startSubRuns", startOrWaitForSubRuns, [
+      "startSubRuns",
+      "waitForSubRuns",
+      "finishFanOut",
+    ])
+    .addConditionalEdges("waitForSubRuns", startOrWaitForSubRuns, [
+      "startSubRuns",
+      "waitForSubRuns",
+      "finishFanOut",
+    ])
+    .addEdge("planTask", "callModel")
+    .addConditionalEdges("callModel", takeActionOrEnd, [
+      "createVMInstance",
+      "enforcePolicy",
+      "verifyAction",
+      "approveAction",
+      "callModel",
+      "replaySkill",
+      "summarizeRun",
+      END,
+    ])
+    .addConditionalEdges("replaySkill", reinvokeModelAfterReplay, [
+      "callModel",
+      "summarizeRun",
+      END,
+    ])
+    .addConditionalEdges("verifyAction", takeActionOrReconsider, [
+      "enforcePolicy",
+      "approveAction",
+      "callModel",
+      "summarizeRun",
+    ])
+    .addConditionalEdges("approveAction", enforcePolicyOrReconsider, [
+      "enforcePolicy",
+      "callModel",
+      "summarizeRun",
+    ])
+    .addConditionalEdges("enforcePolicy", takeActionOrRunShellTools, [
+      "nodeBeforeAction",
+      "acknowledgeSafetyChecks",
+      "runShellTools",
+      "callModel",
+      "summarizeRun",
+    ])
+    .addConditionalEdges(
+      "acknowledgeSafetyChecks",
+      takeAcknowledgedActionOrReconsider,
+      ["nodeBeforeAction", "callModel", "summarizeRun"],
+    )
+    .addEdge("nodeBeforeAction", "takeComputerAction")
+    .addEdge("takeComputerAction", "nodeAfterAction")
+    .addConditionalEdges("createVMInstance", approveActionOrEnforcePolicy, [
+      "approveAction",
+      "enforcePolicy",
+    ])
+    .addConditionalEdges("runShellTools", callModelOrSummarize, [
+      "callModel",
+      "summarizeRun",
+    ])
+    .addConditionalEdges("nodeAfterAction", reinvokeModelOrEnd, [
+      "callModel",
+      "summarizeRun",
+      END,
+    ])
+    .addEdge("summarizeRun", END)
+    .addEdge("cancelRun", END)
+    .addEdge("saveSkill", END)
+    .addEdge("finishFanOut", END);
+
+  const cuaGraph = workflow.compile();
+  cuaGraph.name = "Computer Use Agent";
+
+  // Configure the graph with the provided parameters
+  return cuaGraph.withConfig({
+    configurable: {
+      scrapybaraApiKey,
+      modelProvider,
+      ...modelSettings,
+      modelPrices,
+      budget,
+      contextPolicy,
+      screenshotScaling,
+      verifier,
+      approval,
+      policy,
+      planning,
+      shellTools,
+      skills,
+      timeoutHours,
+      zdrEnabled,
+      authStateId,
+      environment,
+      prompt,
     },
-    uploadScreenshot,
-    stateModifier,
+    recursionLimit,
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,205 @@
+import { Annotation } from "@langchain/langgraph";
+import { TaskResult, TaskStatus } from "./task-result";
+
+/**
+ * The number of sub-runs which run at once when a fan-out does not set
+ * `maxConcurrency`.
+ */
+export const DEFAULT_FAN_OUT_CONCURRENCY = 3;
+
+/**
+ * The most sub-runs which may run at once. Each sub-run holds one of the
+ * server's workers, and one instance, while it runs.
+ */
+export const MAX_FAN_OUT_CONCURRENCY = 10;
+
+const MAX_FAN_OUT_INPUTS = 100;
+
+/**
+ * Replaced by each sub-run's input in the fan-out's task.
+ */
+const INPUT_VARIABLE = /\{\{\s*input\s*\}\}/g;
+
+/**
+ * The key of a `FanOutRequest` in a run's metadata. Run metadata is not kept
+ * on the thread, so the thread's later runs do not fan out again.
+ */
+export const FAN_OUT_METADATA_KEY = "fan_out";
+
+/**
+ * Set in the run's metadata, under `FAN_OUT_METADATA_KEY`, to run the same
+ * task once per input, each in a thread of its own, instead of calling the
+ * model.
+ */
+export interface FanOutRequest {
+  /**
+   * The task each sub-run is given. `{{input}}` is replaced by the sub-run's
+   * input. If the task has no `{{input}}`, the input is added after it.
+   */
+  task: string;
+  inputs: string[];
+  /**
+   * The most sub-runs which run at once.
+   * @default DEFAULT_FAN_OUT_CONCURRENCY
+   */
+  maxConcurrency?: number;
+}
+
+/**
+ * - `finished`: the sub-run ended. It has a task result if the model called
+ *   `finish_task`, and none if it stopped without one, e.g. at its budget.
+ * - `interrupted`: the sub-run paused for the user, e.g. to approve an
+ *   action, and is answered in its own thread.
+ */
+export type SubRunStatus =
+  | "pending"
+  | "running"
+  | "finished"
+  | "interrupted"
+  | "cancelled"
+  | "error";
+
+/**
+ * One run of the fan-out's task, in a thread of its own.
+ */
+export interface SubRun {
+  input: string;
+  status: SubRunStatus;
+  threadId?: string;
+  runId?: string;
+  /**
+   * The sub-run's instance, once it has started one.
+   */
+  instanceId?: string;
+  streamUrl?: string;
+  taskResult?: TaskResult | null;
+  /**
+   * Why the sub-run could not be started or failed.
+   */
+  error?: string;
+}
+
+/**
+ * The sub-runs of the thread's latest fan-out.
+ */
+export interface FanOut {
+  id: string;
+  task: string;
+  maxConcurrency: number;
+  subRuns: SubRun[];
+}
+
+/**
+ * What the `fan-out` component shows.
+ */
+export interface FanOutProgress extends FanOut {
+  status: "running" | "completed" | "cancelled";
+}
+
+export const FanOutAnnotation = Annotation<FanOut | null>({
+  reducer: (_state, update) => update,
+  default: () => null,
+});
+
+export type FanOutState = {
+  fanOut?: FanOut | null;
+};
+
+/**
+ * Validates `metadata.fan_out`.
+ *
+ * @param {unknown} request The request from the run's metadata.
+ * @returns {FanOutRequest | undefined} The request, if one was set.
+ */
+export function validateFanOutRequest(
+  request: unknown,
+): FanOutRequest | undefined {
+  if (request === undefined || request === null) {
+    return undefined;
+  }
+  const { task, inputs, maxConcurrency } = request as Partial<
+    Record<string, unknown>
+  >;
+  if (typeof task !== "string" || !task.trim()) {
+    throw new Error(`${FAN_OUT_METADATA_KEY}.task must be a non-empty string`);
+  }
+  if (
+    !Array.isArray(inputs) ||
+    !inputs.length ||
+    !inputs.every((input) => typeof input === "string")
+  ) {
+    throw new Error(
+      `${FAN_OUT_METADATA_KEY}.inputs must be a non-empty array of strings`,
+    );
+  }
+  if (inputs.length > MAX_FAN_OUT_INPUTS) {
+    throw new Error(
+      `${FAN_OUT_METADATA_KEY}.inputs must have at most ${MAX_FAN_OUT_INPUTS} inputs`,
+    );
+  }
+  if (
+    maxConcurrency !== undefined &&
+    (!Number.isInteger(maxConcurrency) ||
+      (maxConcurrency as number) < 1 ||
+      (maxConcurrency as number) > MAX_FAN_OUT_CONCURRENCY)
+  ) {
+    throw new Error(
+      `${FAN_OUT_METADATA_KEY}.maxConcurrency must be an integer between 1 and ${MAX_FAN_OUT_CONCURRENCY}`,
+    );
+  }
+  return {
+    task: task.trim(),
+    inputs: inputs as string[],
+    maxConcurrency: maxConcurrency as number | undefined,
+  };
+}
+
+/**
+ * Fills a sub-run's input into the fan-out's task.
+ */
+export function fillTask(task: string, input: string): string {
+  return task.search(INPUT_VARIABLE) === -1
+    ? `${task}\n\nInput: ${input}`
+    : task.replace(INPUT_VARIABLE, () => input);
+}
+
+/**
+ * Whether the fan-out still waits on a sub-run.
+ */
+export function isActiveSubRun(subRun: SubRun): boolean {
+  return subRun.status === "pending" || subRun.status === "running";
+}
+
+const SUB_RUN_LABELS: Record<SubRunStatus, string> = {
+  pending: "pending",
+  running: "running",
+  finished: "ended without a result",
+  interrupted: "waiting for you",
+  cancelled: "cancelled",
+  error: "errored",
+};
+
+const TASK_RESULT_LABELS: Record<TaskStatus, string> = {
+  success: "succeeded",
+  failure: "failed",
+  blocked: "blocked",
+};
+
+/**
+ * Counts the fan-out's sub-runs by status, and by task result for finished
+ * sub-runs, e.g. `3 succeeded, 1 failed and 2 cancelled`.
+ */
+export function describeSubRunCounts(subRuns: SubRun[]): string {
+  const counts = new Map<string, number>();
+  for (const subRun of subRuns) {
+    const label =
+      subRun.status === "finished" && subRun.taskResult
+        ? TASK_RESULT_LABELS[subRun.taskResult.status]
+        : SUB_RUN_LABELS[subRun.status];
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  const parts = [...counts].map(([label, count]) => `${count} ${label}`);
+  return parts.length > 1
+    ? `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`
+    : parts.join("");
+}
@@ -0,0 +1,360 @@
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import type { InvalidToolCall, ToolCall } from "@langchain/core/messages/tool";
+import { COMPUTER_USE_TOOL_NAME } from "./computer-actions";
+import {
+  toChatCompletionsMessages,
+  TranslateOptions,
+} from "./message-translator";
+import { ModelSettings, toChatCompletionsParams } from "./model-settings";
+import { FINISH_TASK_TOOL_NAME, TASK_STATUSES } from "./task-result";
+import {
+  BASH_TOOL_NAME,
+  EDITOR_COMMANDS,
+  EDITOR_TOOL_NAME,
+} from "./shell-tools";
+import { fetchWithRetry } from "./retry";
+import { RUN_SKILL_TOOL_NAME, SkillSummary } from "./skills";
+
+/**
+ * xAI Grok-2 Vision API client implementation. Works against any
+ * OpenAI-compatible chat completions endpoint by passing a different
+ * base URL and model.
+ */
+export class GrokClient {
+  private apiKey: string;
+  private baseURL: string;
+  private model: string;
+
+  constructor(
+    apiKey: string,
+    baseURL: string = "https://api.x.ai/v1",
+    model: string = "grok-2-vision-1212",
+  ) {
+    this.apiKey = apiKey;
+    this.baseURL = baseURL;
+    this.model = model;
+  }
+
+  private async makeRequest(endpoint: string, data: any, signal?: AbortSignal) {
+    const response = await fetchWithRetry(`${this.baseURL}/${endpoint}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(data),
+      signal,
+    });
+
+    return response.json();
+  }
+
+  async createChatCompletion(
+    messages: BaseMessage[],
+    tools: any[] = [],
+    translateOptions: TranslateOptions = {},
+    settings: ModelSettings = {},
+    signal?: AbortSignal,
+  ) {
+    const data = {
+      ...toChatCompletionsParams(settings, this.model),
+      messages: toChatCompletionsMessages(messages, translateOptions),
+      tools: tools.length > 0 ? tools : undefined,
+      tool_choice: tools.length > 0 ? "auto" : undefined,
+      stream: false,
+    };
+
+    // Failures are thrown, so the run ends with an error instead of the
+    // model acting on a response it never produced.
+    const response = await this.makeRequest("chat/completions", data, signal);
+
+    // Convert response to LangChain format
+    const choice = response.choices[0];
+    const message = choice.message;
+
+    // Tool calls whose arguments are not valid JSON are returned as invalid
+    // tool calls, as they are when the response is streamed.
+    const tool_calls: ToolCall[] = [];
+    const invalid_tool_calls: InvalidToolCall[] = [];
+    for (const tc of message.tool_calls ?? []) {
+      try {
+        tool_calls.push({
+          id: tc.id,
+          name: tc.function.name,
+          args: JSON.parse(tc.function.arguments || "{}"),
+          type: "tool_call",
+        });
+      } catch (e) {
+        invalid_tool_calls.push({
+          id: tc.id,
+          name: tc.function.name,
+          args: tc.function.arguments,
+          error: e instanceof Error ? e.message : "Invalid JSON",
+          type: "invalid_tool_call",
+        });
+      }
+    }
+
+    return new AIMessage({
+      content: message.content || "",
+      tool_calls,
+      invalid_tool_calls,
+      response_metadata: {
+        id: response.id,
+        model: response.model,
+        usage: response.usage,
+      },
+    });
+  }
+}
+
+/**
+ * Converts computer action to xAI tool format. When the screenshot size is
+ * known, it is included so the model uses coordinates relative to it.
+ */
+export function createComputerUseTool(
+  environment: string = "ubuntu",
+  display?: { width: number; height: number },
+) {
+  return {
+    type: "function",
+    function: {
+      name: COMPUTER_USE_TOOL_NAME,
+      description:
+        "Use a computer to take actions like clicking, typing, and taking screenshots. Takes one action per call, so call it once per response" +
+        (display
+          ? `. Screenshots are ${display.width}x${display.height} pixels, and coordinates are relative to them.`
+          : ""),
+      parameters: {
+        type: "object",
+        properties: {
+          action: {
+            type: "object",
+            description: "The computer action to perform",
+            properties: {
+              type: {
+                type: "string",
+                enum: [
+                  "click",
+                  "double_click",
+                  "move",
+                  "drag",
+                  "type",
+                  "key",
+                  "screenshot",
+                  "scroll",
+                  "wait",
+                ],
+                description: "The type of action to perform",
+              },
+              x: {
+                type: "number",
+                description:
+                  "X coordinate for click, double_click, move and scroll actions",
+              },
+              y: {
+                type: "number",
+                description:
+                  "Y coordinate for click, double_click, move and scroll actions",
+              },
+              path: {
+                type: "array",
+                description:
+                  "Points to drag through for drag actions, starting where the drag begins. At least two points are required.",
+                items: {
+                  type: "object",
+                  properties: {
+                    x: { type: "number" },
+                    y: { type: "number" },
+                  },
+                  required: ["x", "y"],
+                },
+              },
+              button: {
+                type: "string",
+                enum: ["left", "right", "middle"],
+                description: "Mouse button for click actions",
+              },
+              text: {
+                type: "string",
+                description: "Text to type",
+              },
+              key: {
+                type: "string",
+                description:
+                  "Key or key combination to press, joined with '+' (e.g., 'Enter', 'Escape', 'ctrl+c')",
+              },
+              scroll_direction: {
+                type: "string",
+                enum: ["up", "down", "left", "right"],
+                description: "Direction to scroll",
+              },
+              scroll_amount: {
+                type: "number",
+                description: "Number of mouse wheel notches to scroll",
+              },
+              duration: {
+                type: "number",
+                description: "Duration to wait in milliseconds",
+              },
+            },
+            required: ["type"],
+          },
+        },
+        required: ["action"],
+      },
+    },
+  };
+}
+
+/**
+ * The tool models call to end the task with its outcome, offered next to
+ * `computer_use`. See `getFinishTaskCall` for how calls are handled.
+ */
+export function createFinishTaskTool() {
+  return {
+    type: "function",
+    function: {
+      name: FINISH_TASK_TOOL_NAME,
+      description:
+        "End the task and report its outcome. Call this once the task is done, has failed, or is blocked on something only the user can provide. Do not take any other action in the same response.",
+      parameters: {
+        type: "object",
+        properties: {
+          status: {
+            type: "string",
+            enum: [...TASK_STATUSES],
+            description: "Whether the task succeeded, failed, or is blocked",
+          },
+          summary: {
+            type: "string",
+            description:
+              "What was done and the answer to the user's request, in a few sentences",
+          },
+          result: {
+            description:
+              "Optional structured data the task produced, such as values read from the screen",
+          },
+        },
+        required: ["status", "summary"],
+      },
+    },
+  };
+}
+
+/**
+ * The tools models call to run shell commands and edit files on the
+ * instance, offered next to `computer_use` on instances with a shell. See
+ * `runShellToolCall` for how calls are run.
+ */
+export function createShellTools() {
+  return [
+    {
+      type: "function",
+      function: {
+        name: BASH_TOOL_NAME,
+        description:
+          "Run a command in a persistent bash shell on the computer, and return its stdout and stderr. Prefer this to typing into a terminal window. Do not run commands which wait for input or never exit, such as editors or servers in the foreground.",
+        parameters: {
+          type: "object",
+          properties: {
+            command: {
+              type: "string",
+              description: "The bash command to run",
+            },
+            restart: {
+              type: "boolean",
+              description:
+                "Restart the shell instead of running a command, e.g. if a command hangs",
+            },
+          },
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: EDITOR_TOOL_NAME,
+        description:
+          "View, create and edit files on the computer. `view` shows a file with line numbers, or lists a directory. `create` writes a new file. `str_replace` replaces `old_str`, which must appear exactly once in the file, with `new_str`. `insert` inserts `new_str` after line `insert_line`. `undo_edit` reverts the last edit to the file.",
+        parameters: {
+          type: "object",
+          properties: {
+            command: {
+              type: "string",
+              enum: [...EDITOR_COMMANDS],
+              description: "The edit to make",
+            },
+            path: {
+              type: "string",
+              description: "Absolute path to the file or directory",
+            },
+            file_text: {
+              type: "string",
+              description: "The content of the file to create",
+            },
+            view_range: {
+              type: "array",
+              items: { type: "integer" },
+              description:
+                "The first and last line to view, e.g. [10, 20]. Use -1 as the last line to view to the end of the file",
+            },
+            old_str: {
+              type: "string",
+              description: "The text to replace",
+            },
+            new_str: {
+              type: "string",
+              description: "The text to replace `old_str` with, or to insert",
+            },
+            insert_line: {
+              type: "integer",
+              description: "The line after which to insert `new_str`",
+            },
+          },
+          required: ["command", "path"],
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * The tool models call to replay a skill the user saved, offered next to
+ * `computer_use` when there are skills. The skills and their parameters are
+ * listed in the description. See `replaySkill` for how calls are run.
+ */
+export function createRunSkillTool(skills: SkillSummary[]) {
+  const skillList = skills
+    .map(({ name, description, parameters }) => {
+      const parameterList = parameters
+        .map((p) => `${p.name} (${p.description}, recorded as "${p.default}")`)
+        .join(", ");
+      return `- ${name}${description ? `: ${description}` : ""}${parameterList ? `. Parameters: ${parameterList}` : ""}`;
+    })
+    .join("\n");
+  return {
+    type: "function",
+    function: {
+      name: RUN_SKILL_TOOL_NAME,
+      description: `Replay a skill the user saved, which repeats a recorded sequence of actions without you choosing each one. Prefer it to doing the same task step by step. The replay stops if the screen does not look as it did when the skill was recorded. Do not take any other action in the same response. The skills are:\n${skillList}`,
+      parameters: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            enum: skills.map((skill) => skill.name),
+            description: "The skill to replay",
+          },
+          params: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            description:
+              "Text to type in place of the skill's parameters, by parameter name. Parameters left out are typed as recorded",
+          },
+        },
+        required: ["name"],
+      },
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { BaseMessage } from "@langchain/core/messages";
+import { isComputerCallToolMessage } from "@langchain/langgraph-cua";
+import {
+  applyContextPolicy,
+  ContextPolicy,
+  limitMessages,
+} from "./context-policy";
+import type { ModelProvider } from "./providers";
+
+/**
+ * The messages to send to the model, and the response they continue from.
+ */
+export interface ModelHistory {
+  messages: BaseMessage[];
+  previousResponseId?: string;
+}
+
+/**
+ * Picks the history to send to a provider, from its capabilities.
+ *
+ * Providers which store the conversation continue from the ID of the last
+ * response, and only get the messages added since, unless Zero Data
+ * Retention is enabled or the last response came from another provider. The
+ * messages added since must include a screenshot, since the coordinates in
+ * the next response are mapped back to the screen from its scale. Every other
+ * call gets the whole history, with older screenshots and messages left out
+ * as set by the context policy.
+ *
+ * @param {BaseMessage[]} messages The messages in the thread.
+ * @param options The provider, whether Zero Data Retention is enabled, and the run's context policy.
+ * @returns {ModelHistory} The history to send.
+ */
+export function selectHistory(
+  messages: BaseMessage[],
+  {
+    provider,
+    zdrEnabled,
+    contextPolicy,
+  }: {
+    provider: ModelProvider;
+    zdrEnabled: boolean;
+    contextPolicy: ContextPolicy;
+  },
+): ModelHistory {
+  if (provider.capabilities.storesConversation && !zdrEnabled) {
+    const lastResponseIndex = messages.findLastIndex(
+      (m) => m.getType() === "ai",
+    );
+    const lastResponse = messages[lastResponseIndex];
+    const previousResponseId = lastResponse?.response_metadata?.id;
+    const added = messages.slice(lastResponseIndex + 1);
+    if (
+      typeof previousResponseId === "string" &&
+      lastResponse.response_metadata.model_provider === provider.name &&
+      added.some(isComputerCallToolMessage)
+    ) {
+      return { messages: added, previousResponseId };
+    }
+  }
+  return {
+    messages: limitMessages(
+      applyContextPolicy(messages, contextPolicy),
+      contextPolicy.maxMessages,
+    ),
+  };
+}
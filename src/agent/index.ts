@@ -1,5 +1,4 @@
 import {
-  createCua,
   CUAAnnotation,
   CUAState,
   CUAUpdate,
@@ -18,12 +17,12 @@ import {
 } from "@langchain/langgraph-sdk/react-ui";
 import { createClient } from "@supabase/supabase-js";
 import { v4 as uuidv4 } from "uuid";
-
-// Patch ChatOpenAI to use Grok-2-Vision-1212 instead
-import { patchOpenAIWithGrok } from "./grok-patch";
-
-// Apply the patch before any other imports that might use ChatOpenAI
-patchOpenAIWithGrok();
+import { createCustomCua } from "./custom-cua";
+import { getComputerUseToolCallUiId } from "./custom-call-model";
+import {
+  ACKNOWLEDGED_SAFETY_CHECKS_KEY,
+  type AcknowledgedComputerCall,
+} from "./safety-checks";
 
 const GraphAnnotation = Annotation.Root({
   ...CUAAnnotation.spec,
@@ -60,7 +59,10 @@ function convertBase64ToBlob(screenshot: string): Blob | null {
   }
 }
 
-async function uploadScreenshot(screenshot: string): Promise<string> {
+async function uploadScreenshot(
+  screenshot: string,
+  { signal }: { signal?: AbortSignal } = {},
+): Promise<string> {
   const supabaseUrl = process.env.SUPABASE_URL;
   const supabaseApiKey = process.env.SUPABASE_API_KEY;
   if (!supabaseUrl || !supabaseApiKey) {
@@ -69,7 +71,13 @@ async function uploadScreenshot(screenshot: string): Promise<string> {
 
   const bucketName = "cua-screenshots";
 
-  const client = createClient(supabaseUrl, supabaseApiKey);
+  // Send every storage request with the run's signal, so a cancelled run
+  // stops uploading.
+  const client = createClient(supabaseUrl, supabaseApiKey, {
+    global: {
+      fetch: (input, init) => fetch(input, { ...init, signal }),
+    },
+  });
 
   const fileName = `${uuidv4()}.png`;
 
@@ -194,10 +202,19 @@ async function beforeNode(
     toolCalls.map((tc) => {
       ui.push(
         {
+          // Replaces the preview pushed while the tool call streamed, if any.
+          id: getComputerUseToolCallUiId(tc.call_id),
           name: "computer-use-tool-call",
           props: {
             toolCallId: tc.id,
             action: tc.action,
+            modelAction: (tc as AcknowledgedComputerCall).model_action,
+            verification: (tc as AcknowledgedComputerCall).verification,
+            approval: (tc as AcknowledgedComputerCall).approval,
+            safetyChecks: tc.pending_safety_checks,
+            safetyChecksAcknowledged: !!(tc as AcknowledgedComputerCall)[
+              ACKNOWLEDGED_SAFETY_CHECKS_KEY
+            ]?.length,
           },
         },
         {
@@ -234,21 +251,11 @@ async function afterNode(
   return {};
 }
 
-export const graph = createCua({
+export const graph = createCustomCua({
   nodeBeforeAction: beforeNode,
   nodeAfterAction: afterNode,
   stateModifier: GraphAnnotation,
-  recursionLimit: 150,
   timeoutHours: 0.1,
   uploadScreenshot,
   environment: "ubuntu", // Explicitly set environment for better computer control
-  prompt: `You are a computer use assistant powered by grok-2-vision-1212. You can:
-- Control the computer through clicking, typing, and other actions
-- Take screenshots to see the current state
-- Use bash commands to execute shell operations
-- Navigate and interact with the graphical interface
-
-Always take a screenshot first to see the current state before taking any action.
-Be precise with coordinates and take time to analyze the screen before acting.
-If a task requires multiple steps, break it down and execute them sequentially.`,
 });
@@ -0,0 +1,245 @@
+import { BaseMessage, SystemMessage } from "@langchain/core/messages";
+import { getToolOutputs } from "@langchain/langgraph-cua";
+import { COMPUTER_USE_TOOL_NAME, toGrokAction } from "./computer-actions";
+import type { ScaledComputerCall } from "./screenshot-scaling";
+
+export type ChatCompletionsContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatCompletionsToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface ChatCompletionsAssistantMessage {
+  role: "assistant";
+  content: string;
+  tool_calls?: ChatCompletionsToolCall[];
+}
+
+export type ChatCompletionsMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | ChatCompletionsContentPart[] }
+  | ChatCompletionsAssistantMessage
+  | {
+      role: "tool";
+      tool_call_id: string;
+      content: string | ChatCompletionsContentPart[];
+    };
+
+/**
+ * Where screenshots returned by tool calls are placed in the request.
+ *
+ * - `"tool"`: the screenshot is an `image_url` part of the tool message which
+ *   answers the tool call. This keeps each screenshot next to the action that
+ *   produced it, and is what xAI expects.
+ * - `"user"`: fallback for providers which reject images in tool messages
+ *   (e.g. OpenAI chat completions, and most local servers). The tool message
+ *   only contains a text note, and the screenshots of a turn are sent in a
+ *   single user message directly after its tool messages, labelled with the
+ *   tool call ID they belong to.
+ */
+export type ToolImagePlacement = "tool" | "user";
+
+export interface TranslateOptions {
+  /**
+   * The system prompt to send before the messages.
+   */
+  prompt?: string | SystemMessage;
+  /**
+   * @default "tool"
+   */
+  toolImagePlacement?: ToolImagePlacement;
+}
+
+function isImageContent(content: unknown): content is string {
+  return (
+    typeof content === "string" &&
+    (content.startsWith("data:image/") || /^https?:\/\//.test(content))
+  );
+}
+
+function contentToText(content: BaseMessage["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content
+    .map((part) =>
+      "text" in part && typeof part.text === "string" ? part.text : "",
+    )
+    .join("");
+}
+
+function contentToParts(
+  content: BaseMessage["content"],
+): string | ChatCompletionsContentPart[] {
+  if (typeof content === "string") {
+    return content;
+  }
+  return content.flatMap((part): ChatCompletionsContentPart[] => {
+    if (part.type === "text" && typeof part.text === "string") {
+      return [{ type: "text", text: part.text }];
+    }
+    if (part.type === "image_url") {
+      const url =
+        typeof part.image_url === "string"
+          ? part.image_url
+          : part.image_url.url;
+      return [{ type: "image_url", image_url: { url } }];
+    }
+    return [];
+  });
+}
+
+function toAssistantMessage(
+  message: BaseMessage,
+): ChatCompletionsAssistantMessage {
+  const result: ChatCompletionsAssistantMessage = {
+    role: "assistant",
+    content: contentToText(message.content),
+  };
+
+  const toolCalls = "tool_calls" in message ? (message as any).tool_calls : [];
+  const computerCalls = getToolOutputs(message as any);
+  if (toolCalls?.length) {
+    result.tool_calls = toolCalls.map((tc: any) => ({
+      id: tc.id,
+      type: "function",
+      function: {
+        name: tc.name,
+        arguments: JSON.stringify(tc.args),
+      },
+    }));
+  } else if (computerCalls?.length) {
+    // Computer calls from the Responses API have no tool calls, so convert them back.
+    result.tool_calls = computerCalls.map((call) => ({
+      id: call.call_id,
+      type: "function",
+      function: {
+        name: COMPUTER_USE_TOOL_NAME,
+        arguments: JSON.stringify({
+          // Replay the coordinates the model saw, if they were rescaled.
+          action: toGrokAction(
+            (call as ScaledComputerCall).model_action ?? call.action,
+          ),
+        }),
+      },
+    }));
+  }
+
+  return result;
+}
+
+/**
+ * Translates LangChain messages into chat completions messages. This is the
+ * only place the agent converts history for chat completions endpoints, so
+ * every code path sends the model the same request.
+ *
+ * Tool messages keep their `tool_call_id`, so every assistant tool call is
+ * followed by its result. Providers reject unpaired tool calls and results, so
+ * tool calls which never got a result (e.g. because the run was cancelled) are
+ * answered with a placeholder, and tool messages which do not answer a tool
+ * call in the history (e.g. because earlier messages were dropped) are sent as
+ * user messages instead.
+ *
+ * @param {BaseMessage[]} messages The messages to translate.
+ * @param {TranslateOptions} options Translation options.
+ * @returns {ChatCompletionsMessage[]} The request messages.
+ */
+export function toChatCompletionsMessages(
+  messages: BaseMessage[],
+  options: TranslateOptions = {},
+): ChatCompletionsMessage[] {
+  const { prompt, toolImagePlacement = "tool" } = options;
+  const result: ChatCompletionsMessage[] = [];
+  if (prompt) {
+    result.push({
+      role: "system",
+      content:
+        typeof prompt === "string" ? prompt : contentToText(prompt.content),
+    });
+  }
+
+  // Tool calls of the latest assistant message which have not been answered yet.
+  let openToolCallIds: string[] = [];
+  // Content to send in a user message once the current run of tool messages ends.
+  let pendingUserContent: ChatCompletionsContentPart[] = [];
+  const closeTurn = () => {
+    for (const toolCallId of openToolCallIds) {
+      result.push({
+        role: "tool",
+        tool_call_id: toolCallId,
+        content: "No result. This action was not taken.",
+      });
+    }
+    openToolCallIds = [];
+    if (pendingUserContent.length) {
+      result.push({ role: "user", content: pendingUserContent });
+      pendingUserContent = [];
+    }
+  };
+
+  for (const message of messages) {
+    const type = message.getType();
+    if (type !== "tool") {
+      closeTurn();
+    }
+
+    if (type === "system") {
+      result.push({ role: "system", content: contentToText(message.content) });
+    } else if (type === "ai") {
+      const assistantMessage = toAssistantMessage(message);
+      assistantMessage.tool_calls?.forEach((tc) => {
+        openToolCallIds.push(tc.id);
+      });
+      result.push(assistantMessage);
+    } else if (type === "tool") {
+      const toolCallId = (message as any).tool_call_id as string;
+      const { content } = message;
+      if (!openToolCallIds.includes(toolCallId)) {
+        pendingUserContent.push(
+          isImageContent(content)
+            ? { type: "image_url", image_url: { url: content } }
+            : { type: "text", text: contentToText(content) },
+        );
+        continue;
+      }
+      openToolCallIds = openToolCallIds.filter((id) => id !== toolCallId);
+
+      if (!isImageContent(content)) {
+        result.push({
+          role: "tool",
+          tool_call_id: toolCallId,
+          content: contentToText(content),
+        });
+      } else if (toolImagePlacement === "tool") {
+        result.push({
+          role: "tool",
+          tool_call_id: toolCallId,
+          content: [
+            { type: "text", text: "Screenshot after the action:" },
+            { type: "image_url", image_url: { url: content } },
+          ],
+        });
+      } else {
+        result.push({
+          role: "tool",
+          tool_call_id: toolCallId,
+          content:
+            "The action was taken. The screenshot follows in the next user message.",
+        });
+        pendingUserContent.push(
+          { type: "text", text: `Screenshot for tool call ${toolCallId}:` },
+          { type: "image_url", image_url: { url: content } },
+        );
+      }
+    } else {
+      result.push({ role: "user", content: contentToParts(message.content) });
+    }
+  }
+  closeTurn();
+
+  return result;
+}
@@ -0,0 +1,112 @@
+export const REASONING_EFFORTS = ["low", "medium", "high"] as const;
+
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number];
+
+/**
+ * Model parameters for a run, read from `config.configurable`. Settings which
+ * are not set use the provider's defaults.
+ */
+export interface ModelSettings {
+  /**
+   * The model to call. Defaults to the model the provider was registered with.
+   */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  /**
+   * How much reasoning models should think before responding. Sent to every
+   * model when set, so models which do not support it fail the run with the
+   * provider's error.
+   */
+  reasoningEffort?: ReasoningEffort;
+}
+
+/**
+ * The sampling defaults sent to chat completions endpoints.
+ */
+export const DEFAULT_CHAT_COMPLETIONS_SETTINGS = {
+  temperature: 0.1,
+  maxTokens: 4096,
+};
+
+/**
+ * Validates model settings passed in the configurable fields. Throws on the
+ * first invalid setting, so a typo fails the run before calling the model.
+ *
+ * @param {ModelSettings} settings The settings to validate.
+ * @returns {ModelSettings} The settings, without unset values.
+ */
+export function validateModelSettings(settings: ModelSettings): ModelSettings {
+  const { model, temperature, maxTokens, topP, reasoningEffort } = settings;
+  if (model !== undefined && (typeof model !== "string" || !model.trim())) {
+    throw new Error("model must be a non-empty string");
+  }
+  if (
+    temperature !== undefined &&
+    (typeof temperature !== "number" || !(temperature >= 0 && temperature <= 2))
+  ) {
+    throw new Error("temperature must be a number from 0 to 2");
+  }
+  if (
+    maxTokens !== undefined &&
+    (!Number.isInteger(maxTokens) || maxTokens < 1)
+  ) {
+    throw new Error("maxTokens must be a positive integer");
+  }
+  if (
+    topP !== undefined &&
+    (typeof topP !== "number" || !(topP > 0 && topP <= 1))
+  ) {
+    throw new Error("topP must be a number greater than 0 and at most 1");
+  }
+  if (
+    reasoningEffort !== undefined &&
+    !REASONING_EFFORTS.includes(reasoningEffort)
+  ) {
+    throw new Error(
+      `reasoningEffort must be one of: ${REASONING_EFFORTS.join(", ")}`,
+    );
+  }
+  return Object.fromEntries(
+    Object.entries({
+      model: model?.trim(),
+      temperature,
+      maxTokens,
+      topP,
+      reasoningEffort,
+    }).filter(([, value]) => value !== undefined),
+  );
+}
+
+/**
+ * Converts model settings into the parameters of a chat completions request.
+ * This is the only place the agent sets sampling parameters for chat
+ * completions endpoints, so streamed and non-streamed requests match.
+ *
+ * @param {ModelSettings} settings The run's model settings.
+ * @param {string} defaultModel The model to call if the settings do not set one.
+ * @returns The request parameters.
+ */
+export function toChatCompletionsParams(
+  settings: ModelSettings,
+  defaultModel: string,
+): {
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  top_p?: number;
+  reasoning_effort?: ReasoningEffort;
+} {
+  return {
+    model: settings.model ?? defaultModel,
+    temperature:
+      settings.temperature ?? DEFAULT_CHAT_COMPLETIONS_SETTINGS.temperature,
+    max_tokens:
+      settings.maxTokens ?? DEFAULT_CHAT_COMPLETIONS_SETTINGS.maxTokens,
+    ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+    ...(settings.reasoningEffort
+      ? { reasoning_effort: settings.reasoningEffort }
+      : {}),
+  };
+}
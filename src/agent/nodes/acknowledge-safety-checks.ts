@@ -0,0 +1,120 @@
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { interrupt, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate, getToolOutputs } from "@langchain/langgraph-cua";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import { getLatestScreenshot, getPendingCalls } from "../approval";
+import { getComputerUseToolCallUiId } from "../custom-call-model";
+import {
+  ACKNOWLEDGED_SAFETY_CHECKS_KEY,
+  AcknowledgedComputerCall,
+  getUnacknowledgedSafetyChecks,
+  SafetyCheck,
+  SafetyCheckRequest,
+  validateSafetyCheckDecision,
+} from "../safety-checks";
+import type ComponentMap from "../ui/index";
+import { REJECTED_ACTION_KEY } from "../verification";
+
+/**
+ * Returns the model response with the checks stored as acknowledged on the
+ * computer call they were raised on.
+ */
+function withAcknowledgedChecks(
+  message: AIMessage,
+  toolCallId: string,
+  checks: SafetyCheck[],
+): AIMessage {
+  return new AIMessage({
+    id: message.id,
+    content: message.content,
+    tool_calls: message.tool_calls,
+    invalid_tool_calls: message.invalid_tool_calls,
+    usage_metadata: message.usage_metadata,
+    response_metadata: message.response_metadata,
+    additional_kwargs: {
+      ...message.additional_kwargs,
+      tool_outputs: (
+        getToolOutputs(message) as AcknowledgedComputerCall[] | undefined
+      )?.map(
+        (call): AcknowledgedComputerCall =>
+          call.call_id !== toolCallId
+            ? call
+            : {
+                ...call,
+                [ACKNOWLEDGED_SAFETY_CHECKS_KEY]: [
+                  ...(call[ACKNOWLEDGED_SAFETY_CHECKS_KEY] ?? []),
+                  ...checks,
+                ],
+              },
+      ),
+    },
+  });
+}
+
+/**
+ * Pauses the run with an interrupt before a computer action on which the
+ * model provider raised safety checks, and continues once the user answers.
+ * Acknowledged checks are stored on the computer call, and sent back with
+ * the action's output as `acknowledged_safety_checks`. If the user declines,
+ * the action is not taken, and the model is told why.
+ *
+ * The run is resumed with a command whose `resume` value is a
+ * `SafetyCheckDecision`. Only routed to when there are checks to acknowledge.
+ */
+export async function acknowledgeSafetyChecks(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate> {
+  const message = state.messages[state.messages.length - 1] as AIMessage;
+  const [call] = getPendingCalls(message);
+  const checks = getUnacknowledgedSafetyChecks(message);
+  const request: SafetyCheckRequest = {
+    type: "safety_check",
+    toolCallId: call.toolCallId,
+    checks,
+    input: call.input,
+    reasoning: message.text || undefined,
+    screenshot: getLatestScreenshot(state.messages),
+  };
+  const decision = validateSafetyCheckDecision(interrupt(request));
+  if (decision.decision === "acknowledge") {
+    return {
+      messages: [withAcknowledgedChecks(message, call.toolCallId, checks)],
+    };
+  }
+
+  const checkMessages = checks.map((check) => check.message).join(" ");
+  const content = `The user did not acknowledge the safety checks on this action, so it was not taken. ${checkMessages}${decision.reason ? ` Their reason: ${decision.reason}` : ""}`;
+  const computerCalls = getToolOutputs(message) as AcknowledgedComputerCall[];
+  // The actions never reach the node which shows them, so show them here.
+  const ui = typedUi<typeof ComponentMap>(config);
+  for (const computerCall of computerCalls) {
+    ui.push(
+      {
+        id: getComputerUseToolCallUiId(computerCall.call_id),
+        name: "computer-use-tool-call",
+        props: {
+          toolCallId: computerCall.id,
+          action: computerCall.action,
+          modelAction: computerCall.model_action,
+          verification: computerCall.verification,
+          approval: computerCall.approval,
+          safetyChecks: computerCall.pending_safety_checks,
+          safetyChecksAcknowledged: false,
+        },
+      },
+      { message },
+    );
+  }
+  return {
+    messages: computerCalls.map(
+      (computerCall) =>
+        new ToolMessage({
+          tool_call_id: computerCall.call_id,
+          status: "error",
+          content,
+          additional_kwargs: { [REJECTED_ACTION_KEY]: true },
+        }),
+    ),
+  };
+}
@@ -0,0 +1,195 @@
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { interrupt, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate, getToolOutputs } from "@langchain/langgraph-cua";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import {
+  ApprovalCall,
+  ApprovalDecision,
+  ApprovalOutcome,
+  ApprovalRequest,
+  ApprovedComputerCall,
+  getApprovalReasons,
+  getLatestScreenshot,
+  getPendingCalls,
+  validateApprovalDecision,
+} from "../approval";
+import { BudgetState } from "../budget";
+import {
+  ActionNormalizationError,
+  ComputerAction,
+  COMPUTER_USE_TOOL_NAME,
+  normalizeGrokAction,
+} from "../computer-actions";
+import { getConfigurationWithDefaults } from "../configuration";
+import { getComputerUseToolCallUiId } from "../custom-call-model";
+import { getShellToolCalls } from "../shell-tools";
+import type ComponentMap from "../ui/index";
+import { REJECTED_ACTION_KEY } from "../verification";
+
+const OUTCOMES: Record<ApprovalDecision["decision"], ApprovalOutcome> = {
+  approve: "approved",
+  edit: "edited",
+  reject: "rejected",
+};
+
+/**
+ * Returns the computer action the user edited, or why the edit can not run.
+ */
+function getEditedAction(
+  calls: ApprovalCall[],
+  decision: ApprovalDecision,
+): ComputerAction | string | undefined {
+  const computerCall = calls.find((call) => call.tool === "computer");
+  const edit =
+    computerCall && decision.decision === "edit"
+      ? decision.args[computerCall.toolCallId]
+      : undefined;
+  if (!edit) {
+    return undefined;
+  }
+  try {
+    return normalizeGrokAction(edit);
+  } catch (e) {
+    if (!(e instanceof ActionNormalizationError)) {
+      throw e;
+    }
+    return e.message;
+  }
+}
+
+/**
+ * Returns the model response with the outcome stored on the computer call
+ * which needed approval, and the user's edits applied. Edited computer
+ * actions are in screen coordinates, and replace the action as the model
+ * emitted it too, so the history shows the model the action which ran.
+ */
+function withApproval(
+  message: AIMessage,
+  calls: ApprovalCall[],
+  decision: ApprovalDecision,
+  editedAction: ComputerAction | undefined,
+): AIMessage {
+  const edits = decision.decision === "edit" ? decision.args : {};
+  const computerCall = calls.find((call) => call.tool === "computer");
+  return new AIMessage({
+    id: message.id,
+    content: message.content,
+    tool_calls: message.tool_calls?.map((tc) => {
+      if (!tc.id || !edits[tc.id]) {
+        return tc;
+      }
+      return tc.name === COMPUTER_USE_TOOL_NAME
+        ? { ...tc, args: { action: edits[tc.id] } }
+        : { ...tc, args: edits[tc.id] };
+    }),
+    invalid_tool_calls: message.invalid_tool_calls,
+    usage_metadata: message.usage_metadata,
+    response_metadata: message.response_metadata,
+    additional_kwargs: {
+      ...message.additional_kwargs,
+      tool_outputs: (
+        getToolOutputs(message) as ApprovedComputerCall[] | undefined
+      )?.map(
+        (call): ApprovedComputerCall =>
+          call.call_id !== computerCall?.toolCallId
+            ? call
+            : {
+                ...call,
+                ...(editedAction && {
+                  action: editedAction,
+                  model_action: undefined,
+                }),
+                approval: OUTCOMES[decision.decision],
+              },
+      ),
+    },
+  });
+}
+
+/**
+ * Pauses the run with an interrupt before actions which match the run's
+ * `approval` criteria, and continues once the user answers. Approved and
+ * edited actions run. Rejected actions do not, and the model is told the
+ * user rejected them, along with the user's reason. Edited computer actions
+ * which can not run are not taken either, and the model is told why.
+ *
+ * The run is resumed with a command whose `resume` value is an
+ * `ApprovalDecision`. Only routed to when the actions need approval.
+ */
+export async function approveAction(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate> {
+  const { approval } = getConfigurationWithDefaults(config);
+  const message = state.messages[state.messages.length - 1] as AIMessage;
+  const calls = getPendingCalls(message);
+  const request: ApprovalRequest = {
+    type: "approval",
+    calls,
+    reasons: getApprovalReasons(state.messages, state.runProgress, approval),
+    reasoning: message.text || undefined,
+    screenshot: getLatestScreenshot(state.messages),
+  };
+  const answer = validateApprovalDecision(interrupt(request));
+  const editedAction = getEditedAction(calls, answer);
+  const editError = typeof editedAction === "string" ? editedAction : undefined;
+  // Edits which can not run are not applied, and the actions are not taken.
+  const decision: ApprovalDecision = editError
+    ? { decision: "reject" }
+    : answer;
+  const approved = withApproval(
+    message,
+    calls,
+    decision,
+    editError ? undefined : (editedAction as ComputerAction | undefined),
+  );
+  if (decision.decision !== "reject") {
+    return { messages: [approved] };
+  }
+
+  const content = editError
+    ? `The user edited this action, but the edit can not run, so it was not taken. ${editError}`
+    : `The user rejected this action, so it was not taken.${decision.reason ? ` Their reason: ${decision.reason}` : ""}`;
+  const computerCalls = getToolOutputs(approved) as ApprovedComputerCall[];
+  // The actions never reach the node which shows them, so show them here.
+  const ui = typedUi<typeof ComponentMap>(config);
+  for (const call of computerCalls ?? []) {
+    ui.push(
+      {
+        id: getComputerUseToolCallUiId(call.call_id),
+        name: "computer-use-tool-call",
+        props: {
+          toolCallId: call.id,
+          action: call.action,
+          modelAction: call.model_action,
+          verification: call.verification,
+          approval: call.approval,
+        },
+      },
+      { message: approved },
+    );
+  }
+  return {
+    messages: [
+      approved,
+      ...(computerCalls ?? []).map(
+        (call) =>
+          new ToolMessage({
+            tool_call_id: call.call_id,
+            status: "error",
+            content,
+            additional_kwargs: { [REJECTED_ACTION_KEY]: true },
+          }),
+      ),
+      ...getShellToolCalls(approved).map(
+        (toolCall) =>
+          new ToolMessage({
+            tool_call_id: toolCall.id as string,
+            name: toolCall.name,
+            status: "error",
+            content,
+          }),
+      ),
+    ],
+  };
+}
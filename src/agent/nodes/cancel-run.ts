@@ -0,0 +1,101 @@
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate, getToolOutputs } from "@langchain/langgraph-cua";
+import { v4 as uuidv4 } from "uuid";
+import { BudgetState } from "../budget";
+import { FanOutState, isActiveSubRun } from "../fan-out";
+import { getShellToolCalls } from "../shell-tools";
+import { getRunSkillCalls } from "../skills";
+import { isFinishTaskToolMessage } from "../task-result";
+import { REJECTED_ACTION_KEY } from "../verification";
+import { cancelFanOut } from "./fan-out";
+
+/**
+ * The prefix of the ID of the message which marks where a cancelled run
+ * stopped.
+ */
+const RUN_CANCELLED_ID_PREFIX = "run_cancelled_";
+
+const NOT_TAKEN =
+  "This action was not taken, because the user cancelled the run.";
+
+/**
+ * Set in the run's metadata by the UI's Cancel button, on the run it starts
+ * after cancelling a run. Unlike configurable fields, run metadata is not
+ * kept on the thread, so the thread's later runs are not cancel runs.
+ */
+export const CANCEL_RUN_METADATA_KEY = "cancel_run";
+
+/**
+ * Whether the run was started to record where a cancelled run stopped.
+ */
+export function isCancelRun(config: LangGraphRunnableConfig): boolean {
+  return config.metadata?.[CANCEL_RUN_METADATA_KEY] === true;
+}
+
+/**
+ * Records where a cancelled run stopped. Runs are cancelled mid-step, so
+ * nothing the cancelled step did is saved, and the last response may have
+ * actions which were never taken. They are answered with error tool
+ * messages, so the history stays valid for the next model call, followed by
+ * a message with the step the run was cancelled at. A cancelled fan-out
+ * cancels its sub-runs instead.
+ *
+ * Runs with `metadata.cancel_run` go straight here, and end after it.
+ */
+export async function cancelRun(
+  state: CUAState & BudgetState & FanOutState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate & FanOutState> {
+  if (state.fanOut?.subRuns.some(isActiveSubRun)) {
+    return cancelFanOut(state, config);
+  }
+  const lastMessage = state.messages[state.messages.length - 1];
+  const isResponse = lastMessage?.getType() === "ai";
+  const computerCalls = isResponse ? (getToolOutputs(lastMessage) ?? []) : [];
+  const toolCalls = isResponse
+    ? [
+        ...getShellToolCalls(lastMessage as AIMessage),
+        ...getRunSkillCalls(lastMessage as AIMessage),
+      ]
+    : [];
+  if (
+    !lastMessage ||
+    isFinishTaskToolMessage(lastMessage) ||
+    (isResponse && !computerCalls.length && !toolCalls.length)
+  ) {
+    // The run ended before it was cancelled.
+    return {};
+  }
+
+  // Steps are counted once the model responds, so a run cancelled while
+  // waiting for the model was on the step after the last one counted.
+  const steps = state.runProgress?.steps ?? 0;
+  const step = isResponse ? steps : steps + 1;
+  return {
+    messages: [
+      ...computerCalls.map(
+        (call) =>
+          new ToolMessage({
+            tool_call_id: call.call_id,
+            status: "error",
+            content: NOT_TAKEN,
+            additional_kwargs: { [REJECTED_ACTION_KEY]: true },
+          }),
+      ),
+      ...toolCalls.map(
+        (toolCall) =>
+          new ToolMessage({
+            tool_call_id: toolCall.id as string,
+            name: toolCall.name,
+            status: "error",
+            content: NOT_TAKEN,
+          }),
+      ),
+      new AIMessage({
+        id: `${RUN_CANCELLED_ID_PREFIX}${uuidv4()}`,
+        content: `Run cancelled at step ${Math.max(step, 1)}.`,
+      }),
+    ],
+  };
+}
@@ -0,0 +1,62 @@
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate } from "@langchain/langgraph-cua";
+import { getScrapybaraClient } from "@langchain/langgraph-cua/utils";
+import { getConfigurationWithDefaults } from "../configuration";
+
+/**
+ * Starts a new Scrapybara instance for the thread if one does not exist yet.
+ * Mirrors the node of the same name in `@langchain/langgraph-cua`, which is
+ * not exported from the package.
+ */
+export async function createVMInstance(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate> {
+  const { instanceId } = state;
+  if (instanceId) {
+    // Instance already exists, no need to initialize
+    return {};
+  }
+
+  const { scrapybaraApiKey, timeoutHours, environment, blockedDomains } =
+    getConfigurationWithDefaults(config);
+  if (!scrapybaraApiKey) {
+    throw new Error(
+      "Scrapybara API key not provided. Please provide one in the configurable fields, or set it as an environment variable (SCRAPYBARA_API_KEY)",
+    );
+  }
+
+  const client = getScrapybaraClient(scrapybaraApiKey);
+  const requestOptions = { abortSignal: config.signal };
+  let instance;
+  if (environment === "ubuntu") {
+    instance = await client.startUbuntu({ timeoutHours }, requestOptions);
+  } else if (environment === "windows") {
+    instance = await client.startWindows({ timeoutHours }, requestOptions);
+  } else if (environment === "web") {
+    const cleanedBlockedDomains = blockedDomains.map((d) =>
+      d.replace("https://", "").replace("www.", ""),
+    );
+    instance = await client.startBrowser(
+      { timeoutHours, blockedDomains: cleanedBlockedDomains },
+      requestOptions,
+    );
+  } else {
+    throw new Error(
+      `Invalid environment. Must be one of 'web', 'ubuntu', or 'windows'. Received: ${environment}`,
+    );
+  }
+
+  if (!state.streamUrl) {
+    // Fetch the stream URL up front so the client can render the VM before any actions are taken.
+    const { streamUrl } = await instance.getStreamUrl(requestOptions);
+    return {
+      instanceId: instance.id,
+      streamUrl,
+    };
+  }
+
+  return {
+    instanceId: instance.id,
+  };
+}
@@ -0,0 +1,167 @@
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate } from "@langchain/langgraph-cua";
+import { getInstance } from "@langchain/langgraph-cua/utils";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import { ApprovedComputerCall, getPendingCalls } from "../approval";
+import { getConfigurationWithDefaults } from "../configuration";
+import { getComputerCall } from "../computer-actions";
+import { getComputerUseToolCallUiId } from "../custom-call-model";
+import {
+  checkComputerAction,
+  checkDomain,
+  checkShellToolCall,
+  loadActionPolicy,
+  PolicyAuditEntry,
+  PolicyState,
+  PolicyViolation,
+} from "../policy";
+import {
+  formatShellToolInput,
+  getShellToolCalls,
+  ShellToolName,
+} from "../shell-tools";
+import type ComponentMap from "../ui/index";
+import { REJECTED_ACTION_KEY } from "../verification";
+import { getTerminalOutputUiId } from "./run-shell-tools";
+import { isBrowserInstance } from "./take-computer-action";
+
+function refusal(violation: PolicyViolation): string {
+  return `This action was refused by the action policy, so it was not taken. ${violation.message}`;
+}
+
+const NOT_TAKEN =
+  "This action was not taken, because another action in the same response was refused by the action policy.";
+
+/**
+ * Checks the actions of the last model response against the run's action
+ * policy, right before they run. If any breaks a rule, none of them are
+ * taken: each is answered with an error tool message telling the model why,
+ * and the refused actions are added to the `policyAudit` state key.
+ *
+ * Runs after verification and approval, so corrected and edited actions are
+ * checked too.
+ */
+export async function enforcePolicy(
+  state: CUAState & PolicyState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate & Partial<PolicyState>> {
+  const { policy: policySource, environment } =
+    getConfigurationWithDefaults(config);
+  const policy = await loadActionPolicy(policySource);
+  const message = state.messages[state.messages.length - 1] as AIMessage;
+  const shellToolCalls = getShellToolCalls(message);
+  const computerCall = getComputerCall(message) as
+    | ApprovedComputerCall
+    | undefined;
+
+  const violations = new Map<string, PolicyViolation>();
+  let url: string | undefined;
+  if (shellToolCalls.length) {
+    for (const toolCall of shellToolCalls) {
+      const violation = checkShellToolCall(toolCall, policy);
+      if (violation) {
+        violations.set(toolCall.id as string, violation);
+      }
+    }
+  } else if (computerCall) {
+    let violation = checkComputerAction(computerCall.action, policy);
+    if (
+      !violation &&
+      environment === "web" &&
+      policy.allowedDomains.length &&
+      state.instanceId
+    ) {
+      const instance = await getInstance(state.instanceId, config);
+      if (isBrowserInstance(instance)) {
+        ({ currentUrl: url } = await instance.getCurrentUrl({
+          abortSignal: config.signal,
+        }));
+        violation = checkDomain(computerCall.action, url, policy);
+      }
+    }
+    if (violation) {
+      violations.set(computerCall.call_id, violation);
+    }
+  }
+  if (!violations.size) {
+    return {};
+  }
+
+  const timestamp = new Date().toISOString();
+  const runId = config.metadata?.run_id as string | undefined;
+  const policyAudit: PolicyAuditEntry[] = getPendingCalls(message)
+    .filter((call) => violations.has(call.toolCallId))
+    .map((call) => ({
+      timestamp,
+      runId,
+      toolCallId: call.toolCallId,
+      // Pending calls are never `run_skill` calls.
+      tool: call.tool as PolicyAuditEntry["tool"],
+      input: call.input,
+      ...(violations.get(call.toolCallId) as PolicyViolation),
+      ...(call.tool === "computer" && url && { url }),
+    }));
+
+  // The actions never reach the nodes which show them, so show them here.
+  const ui = typedUi<typeof ComponentMap>(config);
+  if (computerCall) {
+    ui.push(
+      {
+        id: getComputerUseToolCallUiId(computerCall.call_id),
+        name: "computer-use-tool-call",
+        props: {
+          toolCallId: computerCall.id,
+          action: computerCall.action,
+          modelAction: computerCall.model_action,
+          verification: computerCall.verification,
+          approval: computerCall.approval,
+          policyViolation: violations.get(computerCall.call_id)?.message,
+        },
+      },
+      { message },
+    );
+  }
+  const shellToolMessages = shellToolCalls.map((toolCall) => {
+    const violation = violations.get(toolCall.id as string);
+    const content = violation ? refusal(violation) : NOT_TAKEN;
+    ui.push(
+      {
+        id: getTerminalOutputUiId(toolCall.id as string),
+        name: "terminal-output",
+        props: {
+          toolCallId: toolCall.id as string,
+          tool: toolCall.name as ShellToolName,
+          input: formatShellToolInput(toolCall),
+          error: content,
+        },
+      },
+      { message },
+    );
+    return new ToolMessage({
+      tool_call_id: toolCall.id as string,
+      name: toolCall.name,
+      status: "error",
+      content,
+    });
+  });
+
+  return {
+    messages: [
+      ...shellToolMessages,
+      ...(computerCall
+        ? [
+            new ToolMessage({
+              tool_call_id: computerCall.call_id,
+              status: "error",
+              content: violations.has(computerCall.call_id)
+                ? refusal(violations.get(computerCall.call_id)!)
+                : NOT_TAKEN,
+              additional_kwargs: { [REJECTED_ACTION_KEY]: true },
+            }),
+          ]
+        : []),
+    ],
+    policyAudit,
+  };
+}
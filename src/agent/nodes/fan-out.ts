@@ -0,0 +1,389 @@
+import { AIMessage, SystemMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAUpdate } from "@langchain/langgraph-cua";
+import { Client } from "@langchain/langgraph-sdk";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import { v4 as uuidv4 } from "uuid";
+import {
+  CustomCUAConfigurable,
+  getConfigurationWithDefaults,
+} from "../configuration";
+import {
+  DEFAULT_FAN_OUT_CONCURRENCY,
+  describeSubRunCounts,
+  FanOut,
+  FanOutProgress,
+  FanOutState,
+  fillTask,
+  SubRun,
+} from "../fan-out";
+import { BUDGET_METADATA_KEY } from "../budget";
+import { sleep } from "../retry";
+import { CANCEL_RUN_METADATA_KEY } from "./cancel-run";
+import type { TaskResult } from "../task-result";
+import type ComponentMap from "../ui/index";
+
+const DEFAULT_LANGGRAPH_API_URL = "http://localhost:2024";
+
+/**
+ * How often running sub-runs are checked on.
+ */
+const POLL_INTERVAL_MS = 3_000;
+
+/**
+ * Configurable fields of the fan-out run which are not passed on to its
+ * sub-runs. The sub-runs' server reads its own Scrapybara API key.
+ */
+const PARENT_ONLY_FIELDS = ["scrapybaraApiKey"];
+
+/**
+ * The state of a sub-run's thread which the fan-out reads.
+ */
+type SubRunValues = {
+  instanceId?: string;
+  streamUrl?: string;
+  taskResult?: TaskResult | null;
+};
+
+type FanOutUpdate = CUAUpdate & FanOutState;
+
+/**
+ * A client for the LangGraph server the agent runs on, which sub-runs are
+ * started on.
+ */
+function createClient(): Client {
+  return new Client({
+    apiUrl: process.env.LANGGRAPH_API_URL ?? DEFAULT_LANGGRAPH_API_URL,
+  });
+}
+
+function getAssistantId(config: LangGraphRunnableConfig): string {
+  return (config.configurable?.assistant_id as string | undefined) ?? "agent";
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * The fan-out run's model, budget, policy and other settings, which each
+ * sub-run is started with.
+ */
+function getSubRunConfigurable(
+  config: LangGraphRunnableConfig,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(config.configurable ?? {}).filter(
+      ([key, value]) =>
+        key in CustomCUAConfigurable.spec &&
+        !PARENT_ONLY_FIELDS.includes(key) &&
+        value !== undefined &&
+        !(value instanceof SystemMessage),
+    ),
+  );
+}
+
+/**
+ * The fan-out run's own budget, which each sub-run is started with.
+ */
+function getSubRunMetadata(
+  config: LangGraphRunnableConfig,
+): Record<string, unknown> {
+  const budget = config.metadata?.[BUDGET_METADATA_KEY];
+  return budget === undefined ? {} : { [BUDGET_METADATA_KEY]: budget };
+}
+
+/**
+ * Cancels a sub-run the way the UI cancels a run, so its thread records
+ * where it stopped.
+ */
+async function cancelSubRun(
+  client: Client,
+  assistantId: string,
+  threadId: string,
+) {
+  await client.runs.create(threadId, assistantId, {
+    input: { messages: [] },
+    metadata: { [CANCEL_RUN_METADATA_KEY]: true },
+    multitaskStrategy: "interrupt",
+  });
+}
+
+/**
+ * Shows the fan-out's sub-runs in a `fan-out` component. Until the fan-out
+ * ends there is no message to show it under.
+ */
+function pushFanOut(
+  fanOut: FanOut,
+  status: FanOutProgress["status"],
+  config: LangGraphRunnableConfig,
+  message?: AIMessage,
+) {
+  const ui = typedUi<typeof ComponentMap>(config);
+  const id = `fan-out-${fanOut.id}`;
+  const props = { ...fanOut, status };
+  if (message) {
+    ui.push({ id, name: "fan-out", props }, { message });
+  } else {
+    ui.push({ id, name: "fan-out", props, metadata: { streaming: true } });
+  }
+}
+
+/**
+ * Starts a fan-out from `metadata.fan_out`, with every sub-run pending.
+ */
+export async function startFanOut(
+  _state: FanOutState,
+  config: LangGraphRunnableConfig,
+): Promise<FanOutUpdate> {
+  const { fanOut: request } = getConfigurationWithDefaults(config);
+  if (!request) {
+    throw new Error("Can not fan out without a task and inputs.");
+  }
+  const fanOut: FanOut = {
+    id: uuidv4(),
+    task: request.task,
+    maxConcurrency: request.maxConcurrency ?? DEFAULT_FAN_OUT_CONCURRENCY,
+    subRuns: request.inputs.map((input) => ({ input, status: "pending" })),
+  };
+  pushFanOut(fanOut, "running", config);
+  return { fanOut };
+}
+
+/**
+ * Starts pending sub-runs until `maxConcurrency` of them are running. Each
+ * sub-run is a run of this graph in a new thread, so it starts its own
+ * instance, and shows it in its own thread. The threads are tagged with the
+ * user's ID, so they are listed in the user's history.
+ *
+ * If the fan-out is cancelled while sub-runs are starting, the sub-runs
+ * started are cancelled too, since they are not saved in the fan-out's state
+ * for `cancelFanOut` to find.
+ */
+export async function startSubRuns(
+  state: FanOutState,
+  config: LangGraphRunnableConfig,
+): Promise<FanOutUpdate> {
+  const fanOut = state.fanOut as FanOut;
+  const client = createClient();
+  const assistantId = getAssistantId(config);
+  const configurable = getSubRunConfigurable(config);
+  const runMetadata = getSubRunMetadata(config);
+  const running = fanOut.subRuns.filter((s) => s.status === "running").length;
+  const toStart = fanOut.subRuns
+    .flatMap((subRun, index) => (subRun.status === "pending" ? [index] : []))
+    .slice(0, Math.max(fanOut.maxConcurrency - running, 0));
+
+  const subRuns = [...fanOut.subRuns];
+  await Promise.all(
+    toStart.map(async (index) => {
+      const subRun = subRuns[index];
+      let threadId: string | undefined;
+      try {
+        ({ thread_id: threadId } = await client.threads.create({
+          metadata: {
+            user_id: config.metadata?.user_id,
+            fan_out_thread_id: config.configurable?.thread_id,
+          },
+        }));
+        const { run_id: runId } = await client.runs.create(
+          threadId,
+          assistantId,
+          {
+            input: {
+              messages: [
+                {
+                  id: uuidv4(),
+                  type: "human",
+                  content: fillTask(fanOut.task, subRun.input),
+                },
+              ],
+            },
+            config: { configurable },
+            metadata: runMetadata,
+          },
+        );
+        subRuns[index] = { ...subRun, status: "running", threadId, runId };
+      } catch (e) {
+        if (config.signal?.aborted) {
+          return;
+        }
+        console.error(
+          { error: e, input: subRun.input },
+          "Failed to start sub-run.",
+        );
+        subRuns[index] = {
+          ...subRun,
+          status: "error",
+          threadId,
+          error: describeError(e),
+        };
+      }
+    }),
+  );
+
+  if (config.signal?.aborted) {
+    await Promise.all(
+      toStart.map(async (index) => {
+        const subRun = subRuns[index];
+        if (subRun.status !== "running" || !subRun.threadId) {
+          return;
+        }
+        try {
+          await cancelSubRun(client, assistantId, subRun.threadId);
+        } catch (e) {
+          console.error({ error: e, subRun }, "Failed to cancel sub-run.");
+        }
+      }),
+    );
+    config.signal.throwIfAborted();
+  }
+
+  const next = { ...fanOut, subRuns };
+  pushFanOut(next, "running", config);
+  return { fanOut: next };
+}
+
+/**
+ * Reads a running sub-run's status, instance and task result from its
+ * thread.
+ */
+async function checkSubRun(client: Client, subRun: SubRun): Promise<SubRun> {
+  const threadId = subRun.threadId as string;
+  const run = await client.runs.get(threadId, subRun.runId as string);
+  if (run.status === "pending" || run.status === "running") {
+    if (subRun.instanceId) {
+      return subRun;
+    }
+    const { values } = await client.threads.getState<SubRunValues>(threadId);
+    return values?.instanceId
+      ? {
+          ...subRun,
+          instanceId: values.instanceId,
+          streamUrl: values.streamUrl,
+        }
+      : subRun;
+  }
+
+  const thread = await client.threads.get<SubRunValues>(threadId);
+  const values = thread.values ?? {};
+  const ended: SubRun = {
+    ...subRun,
+    instanceId: values.instanceId ?? subRun.instanceId,
+    streamUrl: values.streamUrl ?? subRun.streamUrl,
+  };
+  switch (run.status) {
+    case "success":
+      return {
+        ...ended,
+        status: thread.status === "interrupted" ? "interrupted" : "finished",
+        taskResult: values.taskResult ?? null,
+      };
+    case "interrupted":
+      return { ...ended, status: "cancelled" };
+    default:
+      return {
+        ...ended,
+        status: "error",
+        error: `The run ended with status "${run.status}".`,
+      };
+  }
+}
+
+/**
+ * Waits until a running sub-run ends, or starts its instance, so the
+ * fan-out's state is saved each time a sub-run changes.
+ */
+export async function waitForSubRuns(
+  state: FanOutState,
+  config: LangGraphRunnableConfig,
+): Promise<FanOutUpdate> {
+  const fanOut = state.fanOut as FanOut;
+  const client = createClient();
+  for (;;) {
+    await sleep(POLL_INTERVAL_MS, config.signal);
+    const subRuns = await Promise.all(
+      fanOut.subRuns.map(async (subRun) => {
+        if (subRun.status !== "running") {
+          return subRun;
+        }
+        try {
+          return await checkSubRun(client, subRun);
+        } catch (e) {
+          // Checked again on the next poll.
+          console.error({ error: e, subRun }, "Failed to check sub-run.");
+          return subRun;
+        }
+      }),
+    );
+    if (subRuns.some((subRun, index) => subRun !== fanOut.subRuns[index])) {
+      const next = { ...fanOut, subRuns };
+      pushFanOut(next, "running", config);
+      return { fanOut: next };
+    }
+  }
+}
+
+/**
+ * Ends the fan-out with a message counting its sub-runs' results, which the
+ * table of results is shown under.
+ */
+export async function finishFanOut(
+  state: FanOutState,
+  config: LangGraphRunnableConfig,
+): Promise<FanOutUpdate> {
+  const fanOut = state.fanOut as FanOut;
+  const count = fanOut.subRuns.length;
+  const message = new AIMessage({
+    id: uuidv4(),
+    content: `Ran the task for ${count} input${count === 1 ? "" : "s"}: ${describeSubRunCounts(fanOut.subRuns)}.`,
+  });
+  pushFanOut(fanOut, "completed", config, message);
+  return { messages: [message] };
+}
+
+/**
+ * Cancels every sub-run of a cancelled fan-out which had not ended. Running
+ * and interrupted sub-runs are cancelled with `cancelSubRun`. Pending
+ * sub-runs are never started.
+ */
+export async function cancelFanOut(
+  state: FanOutState,
+  config: LangGraphRunnableConfig,
+): Promise<FanOutUpdate> {
+  const fanOut = state.fanOut as FanOut;
+  const client = createClient();
+  const assistantId = getAssistantId(config);
+  const subRuns = await Promise.all(
+    fanOut.subRuns.map(async (subRun): Promise<SubRun> => {
+      if (subRun.status === "pending") {
+        return { ...subRun, status: "cancelled" };
+      }
+      if (
+        (subRun.status !== "running" && subRun.status !== "interrupted") ||
+        !subRun.threadId
+      ) {
+        return subRun;
+      }
+      try {
+        await cancelSubRun(client, assistantId, subRun.threadId);
+        return { ...subRun, status: "cancelled" };
+      } catch (e) {
+        console.error({ error: e, subRun }, "Failed to cancel sub-run.");
+        return {
+          ...subRun,
+          status: "error",
+          error: `It could not be cancelled: ${describeError(e)}`,
+        };
+      }
+    }),
+  );
+
+  const next = { ...fanOut, subRuns };
+  const message = new AIMessage({
+    id: uuidv4(),
+    content: `Run cancelled. Of ${subRuns.length} sub-runs, ${describeSubRunCounts(subRuns)}.`,
+  });
+  pushFanOut(next, "cancelled", config, message);
+  return { fanOut: next, messages: [message] };
+}
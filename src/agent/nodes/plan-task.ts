@@ -0,0 +1,85 @@
+import { HumanMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState } from "@langchain/langgraph-cua";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import { getConfigurationWithDefaults } from "../configuration";
+import {
+  createPlan,
+  parsePlanSteps,
+  Plan,
+  PLANNER_PROMPT,
+  PlanState,
+} from "../plan";
+import { getModelProvider } from "../providers";
+import { ProviderChatModel } from "../providers/chat-model";
+import type ComponentMap from "../ui/index";
+import { getMessageUsage, UsageTotals } from "../usage";
+
+/**
+ * The ID of the `plan` UI message for the plan made for a human message.
+ * Pushing a plan with the same ID replaces the checklist.
+ */
+export function getPlanUiId(messageId: string): string {
+  return `plan-${messageId}`;
+}
+
+/**
+ * Pushes the plan's checklist to the UI, under the request it was made for.
+ */
+export function pushPlan(plan: Plan, config: LangGraphRunnableConfig) {
+  const ui = typedUi<typeof ComponentMap>(config);
+  ui.push(
+    {
+      id: getPlanUiId(plan.messageId),
+      name: "plan",
+      props: { steps: plan.steps, revision: plan.revision },
+    },
+    { message: { id: plan.messageId } },
+  );
+}
+
+/**
+ * Asks the model for a plan for the latest request, before any action is
+ * taken. The plan is added to the system prompt of later model calls, which
+ * report their progress on it. Runs continue without a plan if planning is
+ * disabled, or the model does not respond with a numbered list.
+ */
+export async function planTask(
+  state: CUAState & PlanState,
+  config: LangGraphRunnableConfig,
+): Promise<{ plan?: Plan | null; usage?: UsageTotals }> {
+  const configuration = getConfigurationWithDefaults(config);
+  const request = state.messages.findLast((m) => m.getType() === "human");
+  if (!configuration.planning || !request?.id) {
+    return { plan: null };
+  }
+  if (state.plan?.messageId === request.id) {
+    // Already planned, e.g. when a response is regenerated.
+    return {};
+  }
+
+  const model = new ProviderChatModel({
+    provider: getModelProvider(config),
+  });
+  const response = await model.invoke(
+    [new HumanMessage({ content: `Task: ${request.text}` })],
+    {
+      environment: configuration.environment,
+      prompt: PLANNER_PROMPT,
+      settings: configuration.modelSettings,
+      textOnly: true,
+      signal: config.signal,
+      // The plan is shown as a checklist, not as a message.
+      tags: ["nostream"],
+    },
+  );
+  const usage = getMessageUsage(response, configuration.modelPrices);
+
+  const steps = parsePlanSteps(response.text);
+  if (!steps.length) {
+    return { plan: null, usage };
+  }
+  const plan = createPlan(request.id, steps);
+  pushPlan(plan, config);
+  return { plan, usage };
+}
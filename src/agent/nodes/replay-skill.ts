@@ -0,0 +1,388 @@
+import {
+  AIMessage,
+  BaseMessage,
+  isAIMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { interrupt, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate, getToolOutputs } from "@langchain/langgraph-cua";
+import { getInstance } from "@langchain/langgraph-cua/utils";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import { v4 as uuidv4 } from "uuid";
+import {
+  ApprovalRequest,
+  getLatestScreenshot,
+  getSkillApprovalReasons,
+  validateApprovalDecision,
+} from "../approval";
+import { BudgetState } from "../budget";
+import {
+  ComputerAction,
+  COMPUTER_USE_TOOL_NAME,
+  describeComputerAction,
+  toGrokAction,
+} from "../computer-actions";
+import { getConfigurationWithDefaults } from "../configuration";
+import { getComputerUseToolCallUiId } from "../custom-call-model";
+import {
+  checkComputerAction,
+  checkDomain,
+  loadActionPolicy,
+  PolicyAuditEntry,
+  PolicyState,
+} from "../policy";
+import {
+  fillParameters,
+  getRunSkillCalls,
+  getScreenDifference,
+  getScreenHash,
+  loadSkill,
+  MAX_SCREEN_DIFFERENCE,
+  parseReplaySkillRequest,
+  ReplaySkillRequest,
+  RUN_SKILL_TOOL_NAME,
+  Skill,
+  SkillError,
+  SkillReplayProgress,
+} from "../skills";
+import type ComponentMap from "../ui/index";
+import { REJECTED_ACTION_KEY } from "../verification";
+import { createVMInstance } from "./create-vm-instance";
+import {
+  executeComputerAction,
+  isBrowserInstance,
+} from "./take-computer-action";
+
+/**
+ * The ID of the `skill-replay` UI message for a replay.
+ */
+export function getSkillReplayUiId(id: string): string {
+  return `skill-replay-${id}`;
+}
+
+const NOT_TAKEN = "This action was not taken, because run_skill was called.";
+
+/**
+ * Answers the other tool calls in a response which called `run_skill`, since
+ * the skill's steps change what is on the screen. Only the first skill runs.
+ */
+function answerOtherToolCalls(
+  message: AIMessage,
+  runSkillCall: ToolCall,
+  config: LangGraphRunnableConfig,
+): ToolMessage[] {
+  const ui = typedUi<typeof ComponentMap>(config);
+  const computerCalls = getToolOutputs(message) ?? [];
+  for (const call of computerCalls) {
+    ui.delete(getComputerUseToolCallUiId(call.call_id));
+  }
+  return [
+    ...computerCalls.map(
+      (call) =>
+        new ToolMessage({
+          tool_call_id: call.call_id,
+          status: "error",
+          content: NOT_TAKEN,
+          additional_kwargs: { [REJECTED_ACTION_KEY]: true },
+        }),
+    ),
+    ...(message.tool_calls ?? [])
+      .filter(
+        (tc) => tc.id !== runSkillCall.id && tc.name !== COMPUTER_USE_TOOL_NAME,
+      )
+      .map(
+        (tc) =>
+          new ToolMessage({
+            tool_call_id: tc.id as string,
+            name: tc.name,
+            status: "error",
+            content:
+              tc.name === RUN_SKILL_TOOL_NAME
+                ? "This skill was not run, because only one skill runs per response."
+                : NOT_TAKEN,
+          }),
+      ),
+  ];
+}
+
+/**
+ * Loads the skill a replay request names, and fills in its parameters.
+ *
+ * @returns The skill and its steps, or why it can not be replayed.
+ */
+async function prepareReplay(
+  request: ReplaySkillRequest | string,
+  config: LangGraphRunnableConfig,
+): Promise<{ skill: Skill; actions: ComputerAction[] } | string> {
+  if (typeof request === "string") {
+    return `Invalid run_skill call: ${request} No action was taken.`;
+  }
+  const { environment } = getConfigurationWithDefaults(config);
+  const skill = await loadSkill(config.store, request.name);
+  if (!skill) {
+    return `There is no saved skill named "${request.name}".`;
+  }
+  if (skill.environment !== environment) {
+    return `Skill "${skill.name}" was recorded in the ${skill.environment} environment, so it can not be replayed in the ${environment} environment.`;
+  }
+  try {
+    return { skill, actions: fillParameters(skill, request.params) };
+  } catch (e) {
+    if (!(e instanceof SkillError)) {
+      throw e;
+    }
+    return e.message;
+  }
+}
+
+/**
+ * Replays a saved skill against the instance, starting one if the thread has
+ * none. Runs for the model's `run_skill` calls, and for runs started with
+ * `metadata.replay_skill`.
+ *
+ * The steps are taken exactly as recorded, with the run's parameters typed in
+ * place of the recorded text, and without calling the model. Before each
+ * step, the screen is compared with the one recorded before it, and the
+ * replay stops if it differs by more than `MAX_SCREEN_DIFFERENCE`. Steps are
+ * checked against the action policy, and the replay stops at the first one it
+ * refuses. The progress is shown in a `skill-replay` component.
+ *
+ * Skills the model calls are replayed without the checks its own actions
+ * get, so if approval is on, or the verifier or safety checks would have
+ * checked a step, the run pauses for approval before the replay starts. See
+ * `getSkillApprovalReasons`. The user can edit the `run_skill` arguments, or
+ * reject the replay. Replays the user started are not paused.
+ *
+ * The model is answered with how far the replay got, and continues from
+ * there. Replays the user started end with a message saying the same.
+ */
+export async function replaySkill(
+  state: CUAState & BudgetState & PolicyState,
+  config: LangGraphRunnableConfig,
+  {
+    uploadScreenshot,
+  }: {
+    uploadScreenshot?: (
+      screenshot: string,
+      options?: { signal?: AbortSignal },
+    ) => Promise<string>;
+  },
+): Promise<CUAUpdate & Partial<PolicyState>> {
+  const configuration = getConfigurationWithDefaults(config);
+  const lastMessage = state.messages[state.messages.length - 1];
+  const runSkillCall =
+    lastMessage && isAIMessage(lastMessage)
+      ? getRunSkillCalls(lastMessage)[0]
+      : undefined;
+  const otherToolMessages = runSkillCall
+    ? answerOtherToolCalls(lastMessage as AIMessage, runSkillCall, config)
+    : [];
+  // Replays the user started end with a message, which the progress is shown
+  // under.
+  const resultMessageId = uuidv4();
+  const respond = (
+    content: string,
+    status: "success" | "error",
+  ): BaseMessage[] =>
+    runSkillCall
+      ? [
+          ...otherToolMessages,
+          new ToolMessage({
+            tool_call_id: runSkillCall.id as string,
+            name: RUN_SKILL_TOOL_NAME,
+            status,
+            content,
+          }),
+        ]
+      : [new AIMessage({ id: resultMessageId, content })];
+
+  const request = runSkillCall
+    ? parseReplaySkillRequest(runSkillCall.args)
+    : configuration.replaySkill;
+  if (!request) {
+    throw new Error("Can not replay a skill without the name of the skill.");
+  }
+  let prepared = await prepareReplay(request, config);
+  if (typeof prepared === "string") {
+    return { messages: respond(prepared, "error") };
+  }
+
+  const reasons = runSkillCall
+    ? getSkillApprovalReasons(
+        state.messages,
+        state.runProgress,
+        prepared.actions,
+        configuration.approval,
+        configuration.verifier,
+      )
+    : [];
+  if (runSkillCall && reasons.length) {
+    const approvalRequest: ApprovalRequest = {
+      type: "approval",
+      calls: [
+        {
+          toolCallId: runSkillCall.id as string,
+          tool: RUN_SKILL_TOOL_NAME,
+          args: runSkillCall.args,
+          input: `${prepared.skill.name}: ${prepared.actions.map(describeComputerAction).join(", ")}`,
+        },
+      ],
+      reasons,
+      reasoning: (lastMessage as AIMessage).text || undefined,
+      screenshot: getLatestScreenshot(state.messages),
+    };
+    const decision = validateApprovalDecision(interrupt(approvalRequest));
+    if (decision.decision === "reject") {
+      return {
+        messages: respond(
+          `The user rejected this skill, so it was not run.${decision.reason ? ` Their reason: ${decision.reason}` : ""}`,
+          "error",
+        ),
+      };
+    }
+    const editedArgs =
+      decision.decision === "edit"
+        ? decision.args[runSkillCall.id as string]
+        : undefined;
+    if (editedArgs) {
+      prepared = await prepareReplay(
+        parseReplaySkillRequest(editedArgs),
+        config,
+      );
+      if (typeof prepared === "string") {
+        return { messages: respond(prepared, "error") };
+      }
+    }
+  }
+  const { skill, actions } = prepared;
+
+  const created = await createVMInstance(state, config);
+  const instance = await getInstance(
+    created.instanceId ?? (state.instanceId as string),
+    config,
+  );
+  const requestOptions = { abortSignal: config.signal };
+  const policy = await loadActionPolicy(configuration.policy);
+
+  const ui = typedUi<typeof ComponentMap>(config);
+  const uiId = getSkillReplayUiId(runSkillCall?.id ?? resultMessageId);
+  const steps = actions.map(describeComputerAction);
+  const pushProgress = (
+    progress: Omit<SkillReplayProgress, "name" | "steps">,
+    message?: AIMessage,
+  ) => {
+    const props = { name: skill.name, steps, ...progress };
+    if (runSkillCall || message) {
+      ui.push(
+        { id: uiId, name: "skill-replay", props },
+        { message: (message ?? lastMessage) as AIMessage },
+      );
+    } else {
+      // There is no message to show it under until the replay ends.
+      ui.push({
+        id: uiId,
+        name: "skill-replay",
+        props,
+        metadata: { streaming: true },
+      });
+    }
+  };
+
+  const policyAudit: PolicyAuditEntry[] = [];
+  // The screen after the last step, as base64.
+  let screenshot: string | undefined;
+  let completed = 0;
+  let reason: string | undefined;
+  for (const [index, action] of actions.entries()) {
+    config.signal?.throwIfAborted();
+    pushProgress({ completed, status: "running" });
+
+    const { screenHash } = skill.steps[index];
+    if (screenHash) {
+      screenshot ??= (
+        await instance.computer({ action: "take_screenshot" }, requestOptions)
+      ).base64Image;
+      const difference = screenshot
+        ? getScreenDifference(screenHash, await getScreenHash(screenshot))
+        : 1;
+      if (difference > MAX_SCREEN_DIFFERENCE) {
+        reason = `the screen did not look as it did when the skill was recorded (${Math.round(difference * 100)}% different)`;
+        break;
+      }
+    }
+
+    let violation = checkComputerAction(action, policy);
+    let url: string | undefined;
+    if (
+      !violation &&
+      configuration.environment === "web" &&
+      policy.allowedDomains.length &&
+      isBrowserInstance(instance)
+    ) {
+      ({ currentUrl: url } = await instance.getCurrentUrl(requestOptions));
+      violation = checkDomain(action, url, policy);
+    }
+    if (violation) {
+      policyAudit.push({
+        timestamp: new Date().toISOString(),
+        runId: config.metadata?.run_id as string | undefined,
+        toolCallId: runSkillCall?.id ?? resultMessageId,
+        tool: "computer",
+        input: JSON.stringify(toGrokAction(action)),
+        ...violation,
+        ...(url && { url }),
+      });
+      reason = `it was refused by the action policy. ${violation.message}`;
+      break;
+    }
+
+    try {
+      screenshot = (
+        await executeComputerAction(instance, action, config.signal)
+      ).base64Image;
+    } catch (e) {
+      if (config.signal?.aborted) {
+        throw e;
+      }
+      console.error({ error: e, action }, "Failed to replay skill step.");
+      reason = "the action failed";
+      break;
+    }
+    completed += 1;
+  }
+
+  let shownScreenshot = screenshot && `data:image/png;base64,${screenshot}`;
+  if (shownScreenshot && uploadScreenshot) {
+    shownScreenshot = await uploadScreenshot(shownScreenshot, {
+      signal: config.signal,
+    });
+  }
+  const content = reason
+    ? `Replayed ${completed} of ${steps.length} steps of skill "${skill.name}". Step ${completed + 1} (${steps[completed]}) was not taken, because ${reason}.`
+    : `Replayed all ${steps.length} steps of skill "${skill.name}".`;
+  const messages = respond(
+    runSkillCall
+      ? `${content} The screen has changed, so take a screenshot before the next action.`
+      : content,
+    reason ? "error" : "success",
+  );
+  pushProgress(
+    {
+      completed,
+      status: reason ? "stopped" : "completed",
+      reason,
+      screenshot: shownScreenshot,
+    },
+    runSkillCall ? undefined : (messages[0] as AIMessage),
+  );
+
+  return {
+    messages,
+    ...(created.instanceId && {
+      instanceId: created.instanceId,
+      streamUrl: created.streamUrl,
+    }),
+    ...(policyAudit.length && { policyAudit }),
+  };
+}
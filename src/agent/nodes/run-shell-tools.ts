@@ -0,0 +1,114 @@
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate, getToolOutputs } from "@langchain/langgraph-cua";
+import { getInstance } from "@langchain/langgraph-cua/utils";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import {
+  formatShellToolInput,
+  getShellToolCalls,
+  isShellInstance,
+  runShellToolCall,
+  ShellToolError,
+  ShellToolName,
+  ShellToolResult,
+} from "../shell-tools";
+import type ComponentMap from "../ui/index";
+import { REJECTED_ACTION_KEY } from "../verification";
+
+/**
+ * The ID of the `terminal-output` UI message for a shell tool call.
+ */
+export function getTerminalOutputUiId(toolCallId: string): string {
+  return `terminal-output-${toolCallId}`;
+}
+
+function toToolMessage(result: ShellToolResult): ToolMessage {
+  let content = result.output || result.error || "(no output)";
+  if (result.output && result.error) {
+    content = `${result.output}\n\nstderr:\n${result.error}`;
+  }
+  return new ToolMessage({
+    tool_call_id: result.toolCallId,
+    name: result.tool,
+    status: result.error && !result.output ? "error" : "success",
+    content,
+  });
+}
+
+/**
+ * Runs the `bash` and `str_replace_editor` calls in the last model response
+ * against the instance, in order, and returns their output to the model. Each
+ * call's output is shown in a `terminal-output` component.
+ *
+ * Computer actions in the same response are not taken, since the commands
+ * may have changed what is on the screen.
+ */
+export async function runShellTools(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate> {
+  if (!state.instanceId) {
+    throw new Error("Can not run shell tools without an instance ID.");
+  }
+  const message = state.messages[state.messages.length - 1] as AIMessage;
+  const instance = await getInstance(state.instanceId, config);
+  const ui = typedUi<typeof ComponentMap>(config);
+
+  const toolMessages: ToolMessage[] = [];
+  for (const toolCall of getShellToolCalls(message)) {
+    config.signal?.throwIfAborted();
+    const toolCallId = toolCall.id as string;
+    let result: ShellToolResult;
+    try {
+      if (!isShellInstance(instance)) {
+        throw new ShellToolError(
+          "Shell tools are only available on Ubuntu instances.",
+        );
+      }
+      result = await runShellToolCall(instance, toolCall, config.signal);
+    } catch (e) {
+      // A cancelled run ends here, rather than running the next command.
+      if (config.signal?.aborted) {
+        throw e;
+      }
+      if (!(e instanceof ShellToolError)) {
+        console.error(
+          { error: e, toolCall },
+          "Failed to execute shell tool call.",
+        );
+      }
+      result = {
+        toolCallId,
+        tool: toolCall.name as ShellToolName,
+        input: formatShellToolInput(toolCall),
+        error:
+          e instanceof ShellToolError
+            ? `Invalid ${toolCall.name} call: ${e.message}`
+            : `The ${toolCall.name} call failed: ${e instanceof Error ? e.message : String(e)}`,
+      };
+    }
+
+    ui.push(
+      {
+        id: getTerminalOutputUiId(toolCallId),
+        name: "terminal-output",
+        props: result,
+      },
+      { message },
+    );
+    toolMessages.push(toToolMessage(result));
+  }
+
+  const skipped = (getToolOutputs(message) ?? []).map(
+    (call) =>
+      new ToolMessage({
+        tool_call_id: call.call_id,
+        status: "error",
+        content:
+          "This action was not taken, because shell commands in the same response ran first. Take a screenshot to see the screen before acting.",
+        additional_kwargs: { [REJECTED_ACTION_KEY]: true },
+      }),
+  );
+
+  return { messages: [...toolMessages, ...skipped] };
+}
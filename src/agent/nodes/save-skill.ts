@@ -0,0 +1,87 @@
+import { AIMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate } from "@langchain/langgraph-cua";
+import { getConfigurationWithDefaults } from "../configuration";
+import { imageUrlToBase64 } from "../custom-call-model";
+import {
+  extractParameters,
+  getScreenHash,
+  getTakenActions,
+  Skill,
+  SkillStep,
+  storeSkill,
+} from "../skills";
+
+/**
+ * Saves the computer actions taken in the thread, up to the message in
+ * `metadata.save_skill`, as a skill in the store, so they can be replayed
+ * later. Typed text becomes the skill's parameters, and a hash of the screen
+ * before each action is kept, to check replays against.
+ *
+ * Runs with `metadata.save_skill` go straight here, and end after it.
+ */
+export async function saveSkill(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate> {
+  const { saveSkill: request, environment } =
+    getConfigurationWithDefaults(config);
+  if (!request) {
+    throw new Error("Can not save a skill without a name for it.");
+  }
+  let { messages } = state;
+  if (request.messageId) {
+    const index = messages.findIndex((m) => m.id === request.messageId);
+    if (index === -1) {
+      throw new Error(`Message ${request.messageId} is not in the thread.`);
+    }
+    messages = messages.slice(0, index + 1);
+  }
+
+  const taken = getTakenActions(messages);
+  if (!taken.length) {
+    return {
+      messages: [
+        new AIMessage({
+          content: `Skill "${request.name}" was not saved, because no actions were taken in this thread.`,
+        }),
+      ],
+    };
+  }
+
+  const { actions, parameters } = extractParameters(
+    taken.map(({ action }) => action),
+  );
+  const steps: SkillStep[] = [];
+  for (const [index, action] of actions.entries()) {
+    const { screenshot } = taken[index];
+    const screenHash =
+      screenshot &&
+      (await getScreenHash(
+        screenshot.startsWith("data:")
+          ? screenshot
+          : await imageUrlToBase64(screenshot, config.signal),
+      ));
+    steps.push({ action, ...(screenHash && { screenHash }) });
+  }
+  const skill: Skill = {
+    name: request.name,
+    description: request.description,
+    environment,
+    parameters,
+    steps,
+    createdAt: new Date().toISOString(),
+  };
+  await storeSkill(config.store, skill);
+
+  const parameterList = parameters
+    .map((p) => `${p.name} ("${p.default}")`)
+    .join(", ");
+  return {
+    messages: [
+      new AIMessage({
+        content: `Saved skill "${skill.name}" with ${steps.length} step${steps.length === 1 ? "" : "s"}${parameters.length ? `, and parameters ${parameterList}` : ""}.`,
+      }),
+    ],
+  };
+}
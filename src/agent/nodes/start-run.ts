@@ -0,0 +1,26 @@
+import { CUAState } from "@langchain/langgraph-cua";
+import { BudgetState, ExceededBudget, RunProgress } from "../budget";
+import { TaskResult } from "../task-result";
+import { EMPTY_USAGE } from "../usage";
+
+/**
+ * Resets the run's progress, so budgets are counted from the start of each
+ * run rather than the start of the thread, and clears the previous run's
+ * result.
+ */
+export async function startRun(state: CUAState & BudgetState): Promise<{
+  runProgress: RunProgress;
+  budgetExceeded: ExceededBudget | null;
+  taskResult: TaskResult | null;
+}> {
+  return {
+    runProgress: {
+      startedAt: new Date().toISOString(),
+      steps: 0,
+      messageCountAtStart: state.messages.length,
+      usageAtStart: state.usage ?? EMPTY_USAGE,
+    },
+    budgetExceeded: null,
+    taskResult: null,
+  };
+}
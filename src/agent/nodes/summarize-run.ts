@@ -0,0 +1,80 @@
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, getToolOutputs } from "@langchain/langgraph-cua";
+import { AIMessage, isAIMessage } from "@langchain/core/messages";
+import {
+  BudgetState,
+  ExceededBudget,
+  getExceededBudget,
+  getRunUsage,
+} from "../budget";
+import { getConfigurationWithDefaults } from "../configuration";
+import { describeComputerAction } from "../computer-actions";
+
+const LIMIT_DESCRIPTIONS: Record<
+  ExceededBudget["limit"],
+  (value: number) => string
+> = {
+  maxSteps: (value) => `${value} ${value === 1 ? "step" : "steps"}`,
+  maxTokens: (value) => `${Math.round(value).toLocaleString()} tokens`,
+  maxCostUsd: (value) => `$${value.toFixed(value < 0.01 ? 4 : 2)}`,
+  maxDurationSeconds: (value) => `${Math.round(value)} seconds`,
+};
+
+/**
+ * Ends a run which reached its budget with a message explaining what was
+ * done and what remains, instead of letting the run fail. The summary is
+ * built from the run's history, so it does not spend more of the budget on
+ * another model call.
+ */
+export async function summarizeRun(
+  state: CUAState & BudgetState,
+  config: LangGraphRunnableConfig,
+): Promise<{ messages: AIMessage[]; budgetExceeded: ExceededBudget | null }> {
+  const { budget } = getConfigurationWithDefaults(config);
+  const exceeded = getExceededBudget(state, budget);
+  if (!exceeded) {
+    return { messages: [], budgetExceeded: null };
+  }
+
+  const { steps, usage, durationSeconds } = getRunUsage(state);
+  const runMessages = state.messages.slice(
+    state.runProgress?.messageCountAtStart ?? 0,
+  );
+  const actions = runMessages
+    .filter(isAIMessage)
+    .flatMap((message) => getToolOutputs(message) ?? [])
+    .map((call) => describeComputerAction(call.action));
+  const lastUpdate = runMessages
+    .filter(isAIMessage)
+    .map((message) => message.text.trim())
+    .filter(Boolean)
+    .pop();
+
+  const describe = LIMIT_DESCRIPTIONS[exceeded.limit];
+  const lines = [
+    `I stopped before finishing because this run reached its budget of ${describe(exceeded.max)}.`,
+    "",
+    `In this run I used ${LIMIT_DESCRIPTIONS.maxSteps(steps)}, ${LIMIT_DESCRIPTIONS.maxTokens(usage.totalTokens)} (${LIMIT_DESCRIPTIONS.maxCostUsd(usage.costUsd)}) and ${LIMIT_DESCRIPTIONS.maxDurationSeconds(durationSeconds)}.`,
+  ];
+  if (actions.length) {
+    lines.push(
+      "",
+      "What I did:",
+      ...actions.map((action, index) => `${index + 1}. ${action}`),
+    );
+  } else {
+    lines.push("", "I did not take any actions.");
+  }
+  if (lastUpdate) {
+    lines.push("", `Where I left off: ${lastUpdate}`);
+  }
+  lines.push(
+    "",
+    "The task may not be complete yet. Grant more budget to let me continue from here.",
+  );
+
+  return {
+    messages: [new AIMessage({ content: lines.join("\n") })],
+    budgetExceeded: exceeded,
+  };
+}
@@ -0,0 +1,271 @@
+import { ToolMessage } from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAState, CUAUpdate } from "@langchain/langgraph-cua";
+import { getInstance } from "@langchain/langgraph-cua/utils";
+import type { BrowserInstance, Scrapybara } from "scrapybara";
+import { ComputerAction, getComputerCall } from "../computer-actions";
+import { getConfigurationWithDefaults } from "../configuration";
+import {
+  ACKNOWLEDGED_SAFETY_CHECKS_KEY,
+  AcknowledgedComputerCall,
+} from "../safety-checks";
+
+async function sleep(ms: number) {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+// Copied from the OpenAI example repository
+// https://github.com/openai/openai-cua-sample-app/blob/eb2d58ba77ffd3206d3346d6357093647d29d99c/computers/scrapybara.py#L10
+const CUA_KEY_TO_SCRAPYBARA_KEY: Record<string, string> = {
+  "/": "slash",
+  "\\": "backslash",
+  arrowdown: "Down",
+  arrowleft: "Left",
+  arrowright: "Right",
+  arrowup: "Up",
+  backspace: "BackSpace",
+  capslock: "Caps_Lock",
+  cmd: "Meta_L",
+  delete: "Delete",
+  end: "End",
+  enter: "Return",
+  esc: "Escape",
+  home: "Home",
+  insert: "Insert",
+  option: "Alt_L",
+  pagedown: "Page_Down",
+  pageup: "Page_Up",
+  tab: "Tab",
+  win: "Meta_L",
+};
+
+type ComputerInstance = Awaited<ReturnType<typeof getInstance>>;
+
+export const isBrowserInstance = (
+  instance: unknown,
+): instance is BrowserInstance =>
+  typeof instance === "object" &&
+  instance !== null &&
+  "authenticate" in instance &&
+  typeof instance.authenticate === "function";
+
+/**
+ * Sends a computer action to the instance, and returns its response, which
+ * contains a screenshot taken after the action.
+ *
+ * @param instance The instance to act on.
+ * @param {ComputerAction} action The action.
+ * @param {AbortSignal} signal Aborted when the run is cancelled.
+ */
+export async function executeComputerAction(
+  instance: ComputerInstance,
+  action: ComputerAction,
+  signal?: AbortSignal,
+): Promise<Scrapybara.ComputerResponse> {
+  const requestOptions = { abortSignal: signal };
+  switch (action.type) {
+    case "click":
+      return instance.computer(
+        {
+          action: "click_mouse",
+          button: action.button === "wheel" ? "middle" : action.button,
+          coordinates: [action.x, action.y],
+        },
+        requestOptions,
+      );
+    case "double_click":
+      return instance.computer(
+        {
+          action: "click_mouse",
+          button: "left",
+          coordinates: [action.x, action.y],
+          numClicks: 2,
+        },
+        requestOptions,
+      );
+    case "drag":
+      return instance.computer(
+        {
+          action: "drag_mouse",
+          path: action.path.map(({ x, y }) => [x, y]),
+        },
+        requestOptions,
+      );
+    case "keypress": {
+      const mappedKeys = action.keys
+        .map((k) => k.toLowerCase())
+        .map((key) =>
+          key in CUA_KEY_TO_SCRAPYBARA_KEY
+            ? CUA_KEY_TO_SCRAPYBARA_KEY[key]
+            : key,
+        );
+      return instance.computer(
+        {
+          action: "press_key",
+          keys: mappedKeys,
+        },
+        requestOptions,
+      );
+    }
+    case "move":
+      return instance.computer(
+        {
+          action: "move_mouse",
+          coordinates: [action.x, action.y],
+        },
+        requestOptions,
+      );
+    case "screenshot":
+      return instance.computer(
+        {
+          action: "take_screenshot",
+        },
+        requestOptions,
+      );
+    case "wait":
+      await sleep(2000);
+      signal?.throwIfAborted();
+      return instance.computer(
+        {
+          action: "take_screenshot",
+        },
+        requestOptions,
+      );
+    case "scroll":
+      return instance.computer(
+        {
+          action: "scroll",
+          deltaX: action.scroll_x / 20,
+          deltaY: action.scroll_y / 20,
+          coordinates: [action.x, action.y],
+        },
+        requestOptions,
+      );
+    case "type":
+      return instance.computer(
+        {
+          action: "type_text",
+          text: action.text,
+        },
+        requestOptions,
+      );
+    default:
+      throw new Error(
+        `Unknown computer action received: ${JSON.stringify(action, null, 2)}`,
+      );
+  }
+}
+
+/**
+ * Executes the computer call in the last message against the instance, and
+ * returns a `computer_call_output` tool message containing the screenshot.
+ * Mirrors the node of the same name in `@langchain/langgraph-cua`, which is
+ * not exported from the package. Every request to the instance is made with
+ * the run's abort signal, and the action is not sent once the run has been
+ * cancelled.
+ */
+export async function takeComputerAction(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+  {
+    uploadScreenshot,
+  }: {
+    uploadScreenshot?: (
+      screenshot: string,
+      options?: { signal?: AbortSignal },
+    ) => Promise<string>;
+  },
+): Promise<CUAUpdate> {
+  if (!state.instanceId) {
+    throw new Error("Can not take computer action without an instance ID.");
+  }
+
+  const { authStateId } = getConfigurationWithDefaults(config);
+  const message = state.messages[state.messages.length - 1];
+  const output = getComputerCall(message);
+  if (!output) {
+    // This should never happen, but include the check for proper type narrowing.
+    throw new Error(
+      "Can not take computer action without a computer call in the last message.",
+    );
+  }
+
+  const instance = await getInstance(state.instanceId, config);
+  const requestOptions = { abortSignal: config.signal };
+
+  let { authenticatedId } = state;
+  if (
+    isBrowserInstance(instance) &&
+    authStateId &&
+    (!authenticatedId || authenticatedId !== authStateId)
+  ) {
+    await instance.authenticate({ authStateId }, requestOptions);
+    authenticatedId = authStateId;
+  }
+
+  let { streamUrl } = state;
+  if (!streamUrl) {
+    // If the streamUrl is not yet defined in state, fetch it, then write to the custom stream
+    // so that it's made accessible to the client before any actions are taken.
+    streamUrl = (await instance.getStreamUrl(requestOptions)).streamUrl;
+    config.writer?.({
+      streamUrl,
+    });
+  }
+
+  const { action } = output;
+  let computerCallToolMsg: ToolMessage | undefined;
+
+  try {
+    // The last chance to stop the action, if the run was cancelled while the
+    // instance was being prepared.
+    config.signal?.throwIfAborted();
+    const computerResponse = await executeComputerAction(
+      instance,
+      action,
+      config.signal,
+    );
+    let screenshotContent = `data:image/png;base64,${computerResponse.base64Image}`;
+    if (uploadScreenshot) {
+      const uploadScreenshotRunnable = RunnableLambda.from(
+        (screenshot: string) =>
+          uploadScreenshot(screenshot, { signal: config.signal }),
+      ).withConfig({ runName: "upload-screenshot" });
+      screenshotContent =
+        await uploadScreenshotRunnable.invoke(screenshotContent);
+    }
+
+    const acknowledged = (output as AcknowledgedComputerCall)[
+      ACKNOWLEDGED_SAFETY_CHECKS_KEY
+    ];
+    computerCallToolMsg = new ToolMessage({
+      tool_call_id: output.call_id,
+      additional_kwargs: {
+        type: "computer_call_output",
+        ...(acknowledged && { [ACKNOWLEDGED_SAFETY_CHECKS_KEY]: acknowledged }),
+      },
+      content: screenshotContent,
+    });
+  } catch (e) {
+    if (config.signal?.aborted) {
+      throw e;
+    }
+    console.error(
+      {
+        error: e,
+        computerCall: output,
+      },
+      "Failed to execute computer call.",
+    );
+  }
+
+  return {
+    messages: computerCallToolMsg ? [computerCallToolMsg] : [],
+    instanceId: instance.id,
+    streamUrl,
+    authenticatedId,
+  };
+}
@@ -0,0 +1,240 @@
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import {
+  CUAState,
+  CUAUpdate,
+  getToolOutputs,
+  isComputerCallToolMessage,
+} from "@langchain/langgraph-cua";
+import { typedUi } from "@langchain/langgraph-sdk/react-ui/server";
+import {
+  ActionNormalizationError,
+  COMPUTER_USE_TOOL_NAME,
+  ComputerAction,
+  getComputerCall,
+  normalizeGrokAction,
+  toGrokAction,
+} from "../computer-actions";
+import { getConfigurationWithDefaults } from "../configuration";
+import {
+  getComputerUseToolCallUiId,
+  imageUrlToBase64,
+} from "../custom-call-model";
+import { getModelProvider } from "../providers";
+import { ProviderChatModel } from "../providers/chat-model";
+import { scaleScreenshot, toScreenAction } from "../screenshot-scaling";
+import type ComponentMap from "../ui/index";
+import { getMessageUsage, UsageTotals } from "../usage";
+import {
+  ActionVerification,
+  markActionOnScreenshot,
+  parseVerdict,
+  REJECTED_ACTION_KEY,
+  VerifiedComputerCall,
+  VERIFIER_PROMPT,
+} from "../verification";
+
+/**
+ * Returns the model response with the verdict stored on its computer call,
+ * and the call's action replaced if the verifier corrected it. Corrections
+ * are also written to the matching tool call, so the history shows the model
+ * the action which actually ran.
+ */
+function withVerification(
+  message: AIMessage,
+  callId: string,
+  verification: ActionVerification,
+  corrected?: { action: ComputerAction; modelAction: ComputerAction },
+): AIMessage {
+  const computerCalls = getToolOutputs(message) as VerifiedComputerCall[];
+  return new AIMessage({
+    id: message.id,
+    content: message.content,
+    tool_calls: message.tool_calls?.map((tc) =>
+      corrected && tc.id === callId && tc.name === COMPUTER_USE_TOOL_NAME
+        ? { ...tc, args: { action: toGrokAction(corrected.modelAction) } }
+        : tc,
+    ),
+    invalid_tool_calls: message.invalid_tool_calls,
+    usage_metadata: message.usage_metadata,
+    response_metadata: message.response_metadata,
+    additional_kwargs: {
+      ...message.additional_kwargs,
+      tool_outputs: computerCalls.map(
+        (call): VerifiedComputerCall =>
+          call.call_id !== callId
+            ? call
+            : {
+                ...call,
+                ...(corrected && {
+                  action: corrected.action,
+                  model_action: call.model_action && corrected.modelAction,
+                }),
+                verification,
+              },
+      ),
+    },
+  });
+}
+
+/**
+ * Asks a verifier model to check the computer action the model proposed
+ * before it runs, with the targeted points circled on the current
+ * screenshot. The verifier approves, corrects or rejects the action. A
+ * rejected action does not run, and the critique is returned to the model as
+ * the action's result.
+ *
+ * Actions are only verified once there is a screenshot to check them
+ * against, and only if their type is in `verifier.actions`.
+ */
+export async function verifyAction(
+  state: CUAState,
+  config: LangGraphRunnableConfig,
+): Promise<CUAUpdate & { usage?: UsageTotals }> {
+  const configuration = getConfigurationWithDefaults(config);
+  const { verifier } = configuration;
+  const message = state.messages[state.messages.length - 1] as AIMessage;
+  const call = getComputerCall(message) as VerifiedComputerCall | undefined;
+  const lastScreenshot = state.messages.findLast(isComputerCallToolMessage);
+  if (
+    !verifier.enabled ||
+    !call ||
+    call.verification ||
+    !verifier.actions.includes(call.action.type) ||
+    typeof lastScreenshot?.content !== "string"
+  ) {
+    return {};
+  }
+
+  // Show the verifier the screenshot the model saw, so the model's
+  // coordinates can be checked, and corrections are in the same space.
+  const screenshot = lastScreenshot.content.startsWith("data:image/")
+    ? lastScreenshot.content
+    : await imageUrlToBase64(lastScreenshot.content, config.signal);
+  const { dataUrl, scale } = await scaleScreenshot(
+    screenshot,
+    configuration.screenshotScaling,
+  );
+  const modelAction = call.model_action ?? call.action;
+  const request = state.messages.findLast((m) => m.getType() === "human");
+
+  const provider = getModelProvider({
+    ...config,
+    configurable: {
+      ...config.configurable,
+      modelProvider: verifier.modelProvider ?? configuration.modelProvider,
+    },
+  });
+  const model = new ProviderChatModel({ provider });
+  const response = await model.invoke(
+    [
+      new HumanMessage({
+        content: [
+          {
+            type: "text",
+            text: `Task: ${request?.text ?? "Unknown"}
+
+The agent's reasoning: ${message.text || "None given."}
+
+Proposed action: ${JSON.stringify(toGrokAction(modelAction))}`,
+          },
+          {
+            type: "image_url",
+            image_url: {
+              url: await markActionOnScreenshot(dataUrl, modelAction),
+            },
+          },
+        ],
+      }),
+    ],
+    {
+      environment: configuration.environment,
+      prompt: VERIFIER_PROMPT,
+      settings: {
+        ...configuration.modelSettings,
+        model:
+          verifier.model ??
+          (verifier.modelProvider
+            ? undefined
+            : configuration.modelSettings.model),
+      },
+      textOnly: true,
+      signal: config.signal,
+      // The verdict is shown as a badge on the action, not as a message.
+      tags: ["nostream"],
+    },
+  );
+  const usage = getMessageUsage(response, configuration.modelPrices);
+
+  // Responses without a verdict approve the action, so a verifier which
+  // does not follow the format can not stop the run.
+  const parsed = parseVerdict(response.text) ?? {
+    verdict: "approved" as const,
+    critique: "The verifier did not give a verdict.",
+    action: undefined,
+  };
+  let { verdict } = parsed;
+  let correction:
+    | { action: ComputerAction; modelAction: ComputerAction }
+    | undefined;
+  if (verdict === "corrected") {
+    try {
+      const correctedAction = normalizeGrokAction(parsed.action, {
+        width: scale.modelWidth,
+        height: scale.modelHeight,
+      });
+      correction = {
+        action: toScreenAction(correctedAction, scale),
+        modelAction: correctedAction,
+      };
+    } catch (e) {
+      if (!(e instanceof ActionNormalizationError)) {
+        throw e;
+      }
+      // A correction which can not run still means the action is wrong.
+      verdict = "rejected";
+    }
+  }
+
+  const verification: ActionVerification = {
+    verdict,
+    critique: parsed.critique,
+    ...(correction && { originalAction: call.action }),
+  };
+  const verified = withVerification(
+    message,
+    call.call_id,
+    verification,
+    correction,
+  );
+  if (verdict !== "rejected") {
+    return { messages: [verified], usage };
+  }
+
+  // The action never reaches the node which shows it, so show it here.
+  typedUi<typeof ComponentMap>(config).push(
+    {
+      id: getComputerUseToolCallUiId(call.call_id),
+      name: "computer-use-tool-call",
+      props: {
+        toolCallId: call.id,
+        action: call.action,
+        modelAction: call.model_action,
+        verification,
+      },
+    },
+    { message: verified },
+  );
+  return {
+    messages: [
+      verified,
+      new ToolMessage({
+        tool_call_id: call.call_id,
+        status: "error",
+        content: `The verifier rejected this action, so it was not taken.${parsed.critique ? ` ${parsed.critique}` : ""}`,
+        additional_kwargs: { [REJECTED_ACTION_KEY]: true },
+      }),
+    ],
+    usage,
+  };
+}
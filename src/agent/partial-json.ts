@@ -0,0 +1,305 @@
+type Container = Record<string, unknown> | unknown[];
+
+interface Frame {
+  container: Container;
+  /**
+   * What the parser expects next inside this container.
+   */
+  expect: "key" | "colon" | "value" | "comma";
+  /**
+   * The key the next value of an object is assigned to.
+   */
+  key?: string;
+}
+
+/**
+ * Where the value currently being read is stored, so partial strings and
+ * numbers can be written into the tree before they are complete.
+ */
+interface Slot {
+  container: Container;
+  key: string | number;
+}
+
+const LITERALS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+/**
+ * An incremental parser for JSON which arrives in fragments, such as tool
+ * call arguments streamed by chat completions endpoints. Each fragment is
+ * only read once, and `value` can be read after any fragment to get
+ * everything parsed so far, including partial strings and numbers:
+ *
+ * ```ts
+ * const parser = new PartialJsonParser();
+ * parser.write('{"action": {"type": "type", "text": "hel');
+ * parser.value; // { action: { type: "type", text: "hel" } }
+ * ```
+ *
+ * Keys and literals (`true`, `false`, `null`) only appear once complete.
+ * The parser is lenient: on invalid input it stops reading and keeps what it
+ * parsed before the error. Parse the full text with `JSON.parse` before acting
+ * on the result.
+ */
+export class PartialJsonParser {
+  private root: unknown = undefined;
+
+  private stack: Frame[] = [];
+
+  private done = false;
+
+  private failed = false;
+
+  /**
+   * The string, number or literal currently being read.
+   */
+  private token:
+    | { type: "string"; text: string; escape?: string; slot?: Slot }
+    | { type: "key"; text: string; escape?: string }
+    | { type: "literal"; text: string; slot?: Slot }
+    | undefined;
+
+  /**
+   * Whether the input so far is invalid JSON.
+   */
+  get error(): boolean {
+    return this.failed;
+  }
+
+  /**
+   * Whether a complete JSON value has been read.
+   */
+  get complete(): boolean {
+    return this.done;
+  }
+
+  /**
+   * A copy of the value parsed so far, or undefined if nothing has been parsed.
+   */
+  get value(): unknown {
+    return this.root === undefined ? undefined : structuredClone(this.root);
+  }
+
+  /**
+   * Parses the next fragment of the input.
+   *
+   * @param {string} chunk The fragment to parse.
+   */
+  write(chunk: string): void {
+    for (const char of chunk) {
+      if (this.failed) {
+        return;
+      }
+      this.read(char);
+    }
+    // Show partial strings and numbers in `value`.
+    if (this.token?.type === "string") {
+      this.store(this.token.slot, this.token.text);
+    } else if (this.token?.type === "literal") {
+      const number = Number(this.token.text);
+      if (/^-?\d/.test(this.token.text) && Number.isFinite(number)) {
+        this.store(this.token.slot, number);
+      }
+    }
+  }
+
+  private read(char: string) {
+    const token = this.token;
+    if (token?.type === "string" || token?.type === "key") {
+      this.readString(token, char);
+      return;
+    }
+    if (token?.type === "literal") {
+      if (/[\w.+-]/.test(char)) {
+        token.text += char;
+        return;
+      }
+      this.token = undefined;
+      if (!this.finishLiteral(token.text, token.slot)) {
+        return;
+      }
+    }
+
+    if (/\s/.test(char)) {
+      return;
+    }
+    const frame = this.stack[this.stack.length - 1];
+    if (this.done) {
+      this.failed = true;
+      return;
+    }
+
+    if (frame?.expect === "key") {
+      if (char === '"') {
+        this.token = { type: "key", text: "" };
+      } else if (char === "}" && !Array.isArray(frame.container)) {
+        this.close();
+      } else {
+        this.failed = true;
+      }
+      return;
+    }
+    if (frame?.expect === "colon") {
+      if (char === ":") {
+        frame.expect = "value";
+      } else {
+        this.failed = true;
+      }
+      return;
+    }
+    if (frame?.expect === "comma") {
+      if (char === ",") {
+        frame.expect = Array.isArray(frame.container) ? "value" : "key";
+      } else if (char === (Array.isArray(frame.container) ? "]" : "}")) {
+        this.close();
+      } else {
+        this.failed = true;
+      }
+      return;
+    }
+
+    // A value is expected, either at the root or inside a container.
+    if (char === "]" && frame && Array.isArray(frame.container)) {
+      this.close();
+    } else if (char === "{" || char === "[") {
+      const container: Container = char === "{" ? {} : [];
+      this.assign(container);
+      this.stack.push({
+        container,
+        expect: char === "{" ? "key" : "value",
+      });
+    } else if (char === '"') {
+      const slot = this.reserve("");
+      this.token = { type: "string", text: "", slot };
+    } else if (/[\w.+-]/.test(char)) {
+      this.token = { type: "literal", text: char, slot: this.slotFor() };
+    } else {
+      this.failed = true;
+    }
+  }
+
+  private readString(
+    token: { type: "string" | "key"; text: string; escape?: string },
+    char: string,
+  ) {
+    if (token.escape !== undefined) {
+      token.escape += char;
+      const escape = token.escape;
+      if (escape[0] === "u") {
+        if (escape.length < 5) {
+          return;
+        }
+        const code = parseInt(escape.slice(1), 16);
+        if (Number.isNaN(code)) {
+          this.failed = true;
+          return;
+        }
+        token.text += String.fromCharCode(code);
+      } else {
+        const escaped = (
+          { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" } as Record<
+            string,
+            string
+          >
+        )[escape];
+        token.text += escaped ?? escape;
+      }
+      token.escape = undefined;
+      return;
+    }
+    if (char === "\\") {
+      token.escape = "";
+      return;
+    }
+    if (char !== '"') {
+      token.text += char;
+      return;
+    }
+
+    this.token = undefined;
+    const frame = this.stack[this.stack.length - 1];
+    if (token.type === "key") {
+      frame.key = token.text;
+      frame.expect = "colon";
+      return;
+    }
+    this.store((token as { slot?: Slot }).slot, token.text);
+    this.afterValue();
+  }
+
+  private finishLiteral(text: string, slot: Slot | undefined): boolean {
+    let value: unknown;
+    if (text in LITERALS) {
+      value = LITERALS[text];
+    } else {
+      value = Number(text);
+      if (!Number.isFinite(value) || !/^-?\d/.test(text)) {
+        this.failed = true;
+        return false;
+      }
+    }
+    this.store(slot, value);
+    this.afterValue();
+    return true;
+  }
+
+  /**
+   * Returns the slot the next value is stored in, without storing anything.
+   */
+  private slotFor(): Slot | undefined {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      return undefined;
+    }
+    if (Array.isArray(frame.container)) {
+      return { container: frame.container, key: frame.container.length };
+    }
+    return { container: frame.container, key: frame.key as string };
+  }
+
+  /**
+   * Stores a placeholder for the next value and returns its slot.
+   */
+  private reserve(placeholder: unknown): Slot | undefined {
+    const slot = this.slotFor();
+    this.store(slot, placeholder);
+    return slot;
+  }
+
+  /**
+   * Stores a value in its slot, or as the root if it is not in a container.
+   */
+  private store(slot: Slot | undefined, value: unknown) {
+    if (slot) {
+      (slot.container as Record<string | number, unknown>)[slot.key] = value;
+    } else {
+      this.root = value;
+    }
+  }
+
+  private assign(value: Container) {
+    this.reserve(value);
+    if (this.stack.length) {
+      this.stack[this.stack.length - 1].expect = "comma";
+    }
+  }
+
+  private afterValue() {
+    const frame = this.stack[this.stack.length - 1];
+    if (frame) {
+      frame.expect = "comma";
+    } else {
+      this.done = true;
+    }
+  }
+
+  private close() {
+    this.stack.pop();
+    if (!this.stack.length) {
+      this.done = true;
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { AIMessage, SystemMessage } from "@langchain/core/messages";
+import { Annotation } from "@langchain/langgraph";
+
+export type PlanStepStatus = "pending" | "in_progress" | "completed";
+
+export interface PlanStep {
+  title: string;
+  status: PlanStepStatus;
+}
+
+/**
+ * The steps the agent plans to take for a request. Stored in state, and shown
+ * in the `plan` UI component under the request it was made for.
+ */
+export interface Plan {
+  /**
+   * The ID of the human message the plan was made for.
+   */
+  messageId: string;
+  steps: PlanStep[];
+  /**
+   * The number of times the model has replaced the plan.
+   */
+  revision: number;
+}
+
+export const PlanAnnotation = Annotation<Plan | null>({
+  reducer: (_state, update) => update,
+  default: () => null,
+});
+
+export type PlanState = {
+  plan?: Plan | null;
+};
+
+export const PLANNER_PROMPT = `You are planning a task for a computer use agent, which controls a computer by taking one action at a time, such as clicking, typing and scrolling.
+Write a plan of 2 to 8 short steps which completes the task, as a numbered list with one step per line, like "1. Open the browser". Each step should describe an outcome, not a single click.
+Only respond with the numbered list.`;
+
+const REVISED_PLAN_PATTERN = /revised plan:\s*\n/i;
+
+const STEP_MARKER_PATTERN = /^\s*\**step (\d+)\b/i;
+
+/**
+ * Parses the steps of a numbered list, such as "1. Open the browser".
+ *
+ * @param {string} text The text containing the list.
+ * @returns {string[]} The step titles, or an empty list if there are none.
+ */
+export function parsePlanSteps(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.match(/^\s*\d+[.)]\s+(.+?)\s*$/)?.[1])
+    .filter((title): title is string => !!title);
+}
+
+/**
+ * Creates a plan from the planner's response, with its first step in
+ * progress.
+ *
+ * @param {string} messageId The ID of the human message the plan is for.
+ * @param {string[]} titles The step titles.
+ * @param {number} revision The number of times the plan has been replaced.
+ * @returns {Plan} The plan.
+ */
+export function createPlan(
+  messageId: string,
+  titles: string[],
+  revision = 0,
+): Plan {
+  return {
+    messageId,
+    steps: titles.map((title, i) => ({
+      title,
+      status: i === 0 ? "in_progress" : "pending",
+    })),
+    revision,
+  };
+}
+
+/**
+ * Formats the plan for the model, with the status of each step.
+ */
+function formatPlan(plan: Plan): string {
+  return plan.steps
+    .map(
+      (step, i) =>
+        `${i + 1}. [${step.status === "completed" ? "x" : " "}] ${step.title}`,
+    )
+    .join("\n");
+}
+
+/**
+ * Adds the plan to the system prompt, with instructions for reporting
+ * progress on it. Progress is read back from responses by `advancePlan`.
+ *
+ * @param {string | SystemMessage | undefined} prompt The configured system prompt.
+ * @param {Plan | null | undefined} plan The current plan.
+ * @returns {string | SystemMessage | undefined} The prompt to send to the model.
+ */
+export function withPlanPrompt(
+  prompt: string | SystemMessage | undefined,
+  plan: Plan | null | undefined,
+): string | SystemMessage | undefined {
+  if (!plan?.steps.length) {
+    return prompt;
+  }
+  const planText = `Your plan for the current task:
+${formatPlan(plan)}
+
+Start each response with the number of the plan step you are working on, like "Step 2:". If the plan no longer works, write "Revised plan:" followed by a new numbered list of the remaining steps.`;
+  if (!prompt) {
+    return planText;
+  }
+  if (typeof prompt === "string") {
+    return `${prompt}\n\n${planText}`;
+  }
+  return new SystemMessage({
+    content:
+      typeof prompt.content === "string"
+        ? `${prompt.content}\n\n${planText}`
+        : [...prompt.content, { type: "text", text: planText }],
+  });
+}
+
+/**
+ * Updates the plan from a model response. A revised plan replaces the steps.
+ * Otherwise the steps before the one the response says it is working on are
+ * completed, and that step is in progress. Once the model gives its final
+ * answer, the step in progress is completed.
+ *
+ * @param {Plan} plan The current plan.
+ * @param {AIMessage} message The model response.
+ * @param {boolean} finished Whether the response ends the run.
+ * @returns {Plan} The updated plan. The same object if nothing changed.
+ */
+export function advancePlan(
+  plan: Plan,
+  message: AIMessage,
+  finished: boolean,
+): Plan {
+  const text = typeof message.content === "string" ? message.content : "";
+
+  const [, revisedPlan] = text.split(REVISED_PLAN_PATTERN);
+  const revisedSteps = revisedPlan ? parsePlanSteps(revisedPlan) : [];
+  if (revisedSteps.length) {
+    const completed = plan.steps.filter((step) => step.status === "completed");
+    const revised = createPlan(plan.messageId, revisedSteps, plan.revision + 1);
+    return { ...revised, steps: [...completed, ...revised.steps] };
+  }
+
+  const marker = Number(text.match(STEP_MARKER_PATTERN)?.[1]);
+  const current =
+    marker >= 1 && marker <= plan.steps.length
+      ? marker - 1
+      : plan.steps.findIndex((step) => step.status === "in_progress");
+  if (current === -1) {
+    return plan;
+  }
+  const steps = plan.steps.map(
+    (step, i): PlanStep => ({
+      ...step,
+      status:
+        i < current || (i === current && finished)
+          ? "completed"
+          : i === current
+            ? "in_progress"
+            : step.status === "completed"
+              ? "completed"
+              : "pending",
+    }),
+  );
+  if (steps.every((step, i) => step.status === plan.steps[i].status)) {
+    return plan;
+  }
+  return { ...plan, steps };
+}
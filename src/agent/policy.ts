@@ -0,0 +1,419 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { Annotation } from "@langchain/langgraph";
+import { parse as parseYaml } from "yaml";
+import { ComputerAction } from "./computer-actions";
+import { BASH_TOOL_NAME, ShellToolName } from "./shell-tools";
+import { getActionPoints } from "./verification";
+
+/**
+ * A rectangle of the screen, in screen coordinates.
+ */
+export interface PolicyRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * What the region covers, e.g. "Admin menu", shown to the model.
+   */
+  name?: string;
+}
+
+/**
+ * Rules every action must follow. They are checked right before each action
+ * runs, and an action which breaks one is not taken.
+ */
+export interface ActionPolicy {
+  /**
+   * Key combinations which may never be pressed, e.g. "ctrl+alt+delete".
+   * A key press is refused if it includes every key of a combination.
+   */
+  blockedKeys: string[];
+  /**
+   * Regions of the screen no click, drag, move or scroll may land in.
+   */
+  forbiddenRegions: PolicyRegion[];
+  /**
+   * The most characters a single `type` action may type.
+   */
+  maxTypedLength?: number;
+  /**
+   * In the `web` environment, the domains actions may be taken on. Their
+   * subdomains are allowed too. Empty allows every domain.
+   */
+  allowedDomains: string[];
+  /**
+   * Regular expressions matched against each `bash` command. Commands which
+   * match any of them are refused.
+   */
+  bannedCommands: string[];
+}
+
+export const DEFAULT_ACTION_POLICY: ActionPolicy = {
+  blockedKeys: [],
+  forbiddenRegions: [],
+  allowedDomains: [],
+  bannedCommands: [],
+};
+
+export type PolicyRule = keyof ActionPolicy;
+
+/**
+ * Why an action was refused.
+ */
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+/**
+ * A refused action, as recorded in the `policyAudit` state key.
+ */
+export interface PolicyAuditEntry {
+  /**
+   * When the action was refused, as an ISO 8601 timestamp.
+   */
+  timestamp: string;
+  runId?: string;
+  toolCallId: string;
+  tool: "computer" | ShellToolName;
+  /**
+   * The refused action, as a short line.
+   */
+  input: string;
+  rule: PolicyRule;
+  message: string;
+  /**
+   * The page the browser was on, if the action was checked against
+   * `allowedDomains`.
+   */
+  url?: string;
+}
+
+export const PolicyAuditAnnotation = Annotation<
+  PolicyAuditEntry[],
+  PolicyAuditEntry[]
+>({
+  reducer: (state, update) => [...(state ?? []), ...update],
+  default: () => [],
+});
+
+export type PolicyState = {
+  policyAudit: PolicyAuditEntry[];
+};
+
+const POLICY_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && item.trim())
+  );
+}
+
+function isRegion(value: unknown): value is PolicyRegion {
+  const region = value as PolicyRegion | undefined;
+  return (
+    !!region &&
+    typeof region === "object" &&
+    (["x", "y", "width", "height"] as const).every((key) =>
+      Number.isFinite(region[key]),
+    ) &&
+    region.width > 0 &&
+    region.height > 0 &&
+    (region.name === undefined || typeof region.name === "string")
+  );
+}
+
+/**
+ * Validates an action policy, merged over `DEFAULT_ACTION_POLICY`.
+ *
+ * @param {unknown} policy The policy from the configurable fields or a policy file.
+ * @returns {ActionPolicy} The policy.
+ */
+export function validateActionPolicy(policy: unknown): ActionPolicy {
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+    throw new Error("policy must be an object");
+  }
+  const merged = { ...DEFAULT_ACTION_POLICY, ...policy } as ActionPolicy;
+  for (const key of [
+    "blockedKeys",
+    "allowedDomains",
+    "bannedCommands",
+  ] as const) {
+    if (!isStringList(merged[key])) {
+      throw new Error(`policy.${key} must be a list of non-empty strings`);
+    }
+  }
+  if (
+    !Array.isArray(merged.forbiddenRegions) ||
+    !merged.forbiddenRegions.every(isRegion)
+  ) {
+    throw new Error(
+      "policy.forbiddenRegions must be a list of { x, y, width, height } rectangles",
+    );
+  }
+  if (
+    merged.maxTypedLength !== undefined &&
+    !(Number.isInteger(merged.maxTypedLength) && merged.maxTypedLength > 0)
+  ) {
+    throw new Error("policy.maxTypedLength must be a positive integer");
+  }
+  for (const pattern of merged.bannedCommands) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(
+        `policy.bannedCommands has an invalid regular expression: ${pattern}`,
+      );
+    }
+  }
+  return merged;
+}
+
+/**
+ * Reads and validates a YAML or JSON policy file.
+ */
+async function loadPolicyFile(path: string): Promise<ActionPolicy> {
+  if (!POLICY_EXTENSIONS.includes(extname(path))) {
+    throw new Error(
+      `Policy files must be ${POLICY_EXTENSIONS.join(", ")} files: ${path}`,
+    );
+  }
+  const text = await readFile(path, "utf-8");
+  try {
+    return validateActionPolicy(
+      extname(path) === ".json" ? JSON.parse(text) : parseYaml(text),
+    );
+  } catch (e) {
+    throw new Error(
+      `Invalid policy file "${path}": ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+}
+
+/**
+ * Adds a run's rules to the policy file's. Lists of rules are combined, and
+ * the lower `maxTypedLength` applies. The run may only narrow the file's
+ * `allowedDomains` to some of their domains or subdomains.
+ */
+function addPolicyRules(
+  policy: ActionPolicy,
+  added: ActionPolicy,
+): ActionPolicy {
+  const widened = policy.allowedDomains.length
+    ? added.allowedDomains.filter(
+        (domain) =>
+          !isDomainAllowed(
+            `https://${normalizeDomain(domain)}/`,
+            policy.allowedDomains,
+          ),
+      )
+    : [];
+  if (widened.length) {
+    throw new Error(
+      `policy.allowedDomains may only narrow the policy file's allowed domains (${policy.allowedDomains.join(", ")}), but has ${widened.join(", ")}`,
+    );
+  }
+  const maxTypedLengths = [policy.maxTypedLength, added.maxTypedLength].filter(
+    (length): length is number => length !== undefined,
+  );
+  return {
+    blockedKeys: [...new Set([...policy.blockedKeys, ...added.blockedKeys])],
+    forbiddenRegions: [...policy.forbiddenRegions, ...added.forbiddenRegions],
+    maxTypedLength: maxTypedLengths.length
+      ? Math.min(...maxTypedLengths)
+      : undefined,
+    allowedDomains: added.allowedDomains.length
+      ? added.allowedDomains
+      : policy.allowedDomains,
+    bannedCommands: [
+      ...new Set([...policy.bannedCommands, ...added.bannedCommands]),
+    ],
+  };
+}
+
+/**
+ * Loads and validates the run's action policy: the file at
+ * `ACTION_POLICY_PATH`, if it is set, with the run's rules added to it. The
+ * run's rules can only refuse more actions, so a run cannot loosen or turn
+ * off the file's policy.
+ *
+ * @param {Partial<ActionPolicy> | undefined} policy The run's rules, from `configurable.policy`.
+ * @returns {Promise<ActionPolicy>} The policy. Allows every action if there is none.
+ * @throws {Error} If the run's rules are not an object, or widen the file's `allowedDomains`.
+ */
+export async function loadActionPolicy(
+  policy: Partial<ActionPolicy> | undefined,
+): Promise<ActionPolicy> {
+  if (typeof policy === "string") {
+    throw new Error(
+      "policy must be an object. Policy files can only be set with the ACTION_POLICY_PATH environment variable.",
+    );
+  }
+  const path = process.env.ACTION_POLICY_PATH;
+  const filePolicy = path ? await loadPolicyFile(path) : DEFAULT_ACTION_POLICY;
+  if (policy === undefined) {
+    return filePolicy;
+  }
+  return addPolicyRules(filePolicy, validateActionPolicy(policy));
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  control: "ctrl",
+  del: "delete",
+  return: "enter",
+  esc: "escape",
+  option: "alt",
+  cmd: "meta",
+  command: "meta",
+  super: "meta",
+  win: "meta",
+};
+
+function normalizeKey(key: string): string {
+  const name = key.trim().toLowerCase();
+  return KEY_ALIASES[name] ?? name;
+}
+
+function formatRegion(region: PolicyRegion): string {
+  const bounds = `(${region.x}, ${region.y}) to (${region.x + region.width}, ${region.y + region.height})`;
+  return region.name ? `"${region.name}", ${bounds}` : bounds;
+}
+
+/**
+ * Checks a computer action, in screen coordinates, against the policy. The
+ * domain of the current page is checked separately, by `checkDomain`.
+ *
+ * @returns {PolicyViolation | undefined} The first rule the action breaks, if any.
+ */
+export function checkComputerAction(
+  action: ComputerAction,
+  policy: ActionPolicy,
+): PolicyViolation | undefined {
+  if (action.type === "keypress") {
+    const pressed = new Set(action.keys.map(normalizeKey));
+    const combo = policy.blockedKeys.find((combo) =>
+      combo.split("+").every((key) => pressed.has(normalizeKey(key))),
+    );
+    if (combo) {
+      return {
+        rule: "blockedKeys",
+        message: `Pressing ${combo} is not allowed.`,
+      };
+    }
+  }
+  if (
+    action.type === "type" &&
+    policy.maxTypedLength !== undefined &&
+    action.text.length > policy.maxTypedLength
+  ) {
+    return {
+      rule: "maxTypedLength",
+      message: `Typing more than ${policy.maxTypedLength} characters at once is not allowed.`,
+    };
+  }
+  for (const { x, y } of getActionPoints(action)) {
+    const region = policy.forbiddenRegions.find(
+      (r) => x >= r.x && x < r.x + r.width && y >= r.y && y < r.y + r.height,
+    );
+    if (region) {
+      return {
+        rule: "forbiddenRegions",
+        message: `The point (${x}, ${y}) is in a region of the screen which actions may not target: ${formatRegion(region)}.`,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Strips the scheme, `www.` and path from a domain in `allowedDomains`.
+ */
+function normalizeDomain(domain: string): string {
+  return domain
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/.*$/, "");
+}
+
+/**
+ * Whether a page's domain is allowed. Pages which are not on the web, like
+ * `about:blank`, always are.
+ */
+export function isDomainAllowed(
+  url: string,
+  allowedDomains: string[],
+): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return true;
+  }
+  if (
+    !allowedDomains.length ||
+    !["http:", "https:"].includes(parsed.protocol)
+  ) {
+    return true;
+  }
+  const hostname = parsed.hostname.toLowerCase();
+  return allowedDomains.some((domain) => {
+    const allowed = normalizeDomain(domain);
+    return hostname === allowed || hostname.endsWith(`.${allowed}`);
+  });
+}
+
+/**
+ * Checks that the browser is on an allowed domain. While it is not, only key
+ * presses, screenshots and waits are allowed, so the model can go back.
+ *
+ * @param {ComputerAction} action The action to take.
+ * @param {string} url The page the browser is on.
+ * @param {ActionPolicy} policy The policy.
+ * @returns {PolicyViolation | undefined} The violation, if the action is refused.
+ */
+export function checkDomain(
+  action: ComputerAction,
+  url: string,
+  policy: ActionPolicy,
+): PolicyViolation | undefined {
+  if (
+    ["keypress", "screenshot", "wait"].includes(action.type) ||
+    isDomainAllowed(url, policy.allowedDomains)
+  ) {
+    return undefined;
+  }
+  return {
+    rule: "allowedDomains",
+    message: `The browser is on ${url}, which is not on an allowed domain (${policy.allowedDomains.join(", ")}). Go back, e.g. by pressing alt+Left, before taking other actions.`,
+  };
+}
+
+/**
+ * Checks a shell tool call against the policy.
+ *
+ * @returns {PolicyViolation | undefined} The first rule the call breaks, if any.
+ */
+export function checkShellToolCall(
+  toolCall: ToolCall,
+  policy: ActionPolicy,
+): PolicyViolation | undefined {
+  const command = toolCall.args?.command;
+  if (toolCall.name !== BASH_TOOL_NAME || typeof command !== "string") {
+    return undefined;
+  }
+  const pattern = policy.bannedCommands.find((p) =>
+    new RegExp(p).test(command),
+  );
+  if (!pattern) {
+    return undefined;
+  }
+  return {
+    rule: "bannedCommands",
+    message: `Commands matching /${pattern}/ are not allowed.`,
+  };
+}
@@ -0,0 +1,240 @@
+import { readFile, readdir } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { SystemMessage } from "@langchain/core/messages";
+import { CUAEnvironment } from "@langchain/langgraph-cua";
+import {
+  createComputerUseTool,
+  createFinishTaskTool,
+  createRunSkillTool,
+  createShellTools,
+} from "./grok-client";
+import type { SkillSummary } from "./skills";
+
+/**
+ * The variables prompt templates can use, written as `{{name}}`.
+ *
+ * - `environment`: `web`, `ubuntu` or `windows`.
+ * - `screenSize`: the size of the screenshots sent to the model, e.g. `1024x768`,
+ *   once the model has seen one.
+ * - `date`: today's date, e.g. `Monday, October 19, 2026`.
+ * - `tools`: the tools the model can call, one per line.
+ * - `instructions`: the user's instructions, from `configurable.instructions`.
+ */
+export const PROMPT_VARIABLES = [
+  "environment",
+  "screenSize",
+  "date",
+  "tools",
+  "instructions",
+] as const;
+
+export type PromptVariables = Record<(typeof PROMPT_VARIABLES)[number], string>;
+
+/**
+ * The prompt used when a run does not set one.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<CUAEnvironment, string> = {
+  web: `You are a computer use agent operating a web browser. Screen size: {{screenSize}}. Today is {{date}}.
+
+You can use these tools:
+{{tools}}
+
+Always take a screenshot first to see the current state before taking any action.
+Navigate with the address bar and links, and scroll to find content further down the page.
+Be precise with coordinates and take time to analyze the page before acting.
+If a task requires multiple steps, break it down and execute them sequentially.
+
+{{instructions}}`,
+  ubuntu: `You are a computer use agent operating an Ubuntu desktop. Screen size: {{screenSize}}. Today is {{date}}.
+
+You can use these tools:
+{{tools}}
+
+Always take a screenshot first to see the current state before taking any action.
+Use bash and str_replace_editor for shell operations and file edits when they are listed above, rather than typing into a terminal window.
+Be precise with coordinates and take time to analyze the screen before acting.
+If a task requires multiple steps, break it down and execute them sequentially.
+
+{{instructions}}`,
+  windows: `You are a computer use agent operating a Windows desktop. Screen size: {{screenSize}}. Today is {{date}}.
+
+You can use these tools:
+{{tools}}
+
+Always take a screenshot first to see the current state before taking any action.
+Open applications from the Start menu or the taskbar, and prefer keyboard shortcuts where they are reliable.
+Be precise with coordinates and take time to analyze the screen before acting.
+If a task requires multiple steps, break it down and execute them sequentially.
+
+{{instructions}}`,
+};
+
+/**
+ * Matches dates as they are filled into the `{{date}}` variable.
+ */
+export const PROMPT_DATE_PATTERN =
+  /\b(?:Mon|Tues|Wednes|Thurs|Fri|Satur|Sun)day, [A-Z][a-z]+ \d{1,2}, \d{4}\b/g;
+
+const DEFAULT_PROMPT_LIBRARY_DIR = "src/agent/prompt-library";
+
+const PROMPT_EXTENSIONS = [".md", ".txt"];
+
+/**
+ * Configured prompts which start with this select a prompt in the library by
+ * name, e.g. `library:shell-first`. Any other string is a template.
+ */
+export const LIBRARY_PROMPT_PREFIX = "library:";
+
+/**
+ * The name of the library prompt a configured prompt selects, if it selects
+ * one.
+ */
+export function getLibraryPromptName(prompt: string): string | undefined {
+  return prompt.startsWith(LIBRARY_PROMPT_PREFIX)
+    ? prompt.slice(LIBRARY_PROMPT_PREFIX.length)
+    : undefined;
+}
+
+function isFileNotFoundError(e: unknown): boolean {
+  return e instanceof Error && (e as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+/**
+ * Lists the names of the prompts in `PROMPT_LIBRARY_DIR`.
+ *
+ * @returns {Promise<string[]>} The prompt names, sorted.
+ */
+export async function listPromptLibrary(): Promise<string[]> {
+  const dir = process.env.PROMPT_LIBRARY_DIR ?? DEFAULT_PROMPT_LIBRARY_DIR;
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch (e) {
+    if (isFileNotFoundError(e)) {
+      return [];
+    }
+    throw e;
+  }
+  return files
+    .filter((file) => PROMPT_EXTENSIONS.includes(extname(file)))
+    .map((file) => file.slice(0, -extname(file).length))
+    .sort();
+}
+
+/**
+ * Loads a prompt template from `PROMPT_LIBRARY_DIR`, with any of the
+ * supported extensions.
+ *
+ * @param {string} name The prompt name, e.g. "shell-first".
+ * @returns {Promise<string>} The template.
+ */
+export async function loadPromptTemplate(name: string): Promise<string> {
+  const dir = process.env.PROMPT_LIBRARY_DIR ?? DEFAULT_PROMPT_LIBRARY_DIR;
+  for (const ext of PROMPT_EXTENSIONS) {
+    try {
+      return await readFile(join(dir, `${name}${ext}`), "utf-8");
+    } catch (e) {
+      if (!isFileNotFoundError(e)) {
+        throw e;
+      }
+    }
+  }
+  const available = await listPromptLibrary();
+  throw new Error(
+    `Prompt "${name}" not found in ${dir}. Available prompts: ${available.join(", ") || "none"}`,
+  );
+}
+
+/**
+ * Fills in the variables of a prompt template. Text in braces which is not a
+ * variable, e.g. `{{name}}` in an example the prompt gives, is left as it is.
+ * Blank lines left by empty variables are collapsed.
+ *
+ * @param {string} template The template, with variables written as `{{name}}`.
+ * @param {PromptVariables} variables The values of the variables.
+ * @returns {string} The prompt.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: PromptVariables,
+): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      PROMPT_VARIABLES.includes(name as keyof PromptVariables)
+        ? variables[name as keyof PromptVariables]
+        : match,
+    )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Lists the tools offered to the model, with the first sentence of each
+ * tool's description.
+ */
+function describeTools(
+  environment: CUAEnvironment,
+  shellTools: boolean,
+  skills: SkillSummary[],
+) {
+  return [
+    createComputerUseTool(environment),
+    createFinishTaskTool(),
+    ...(shellTools ? createShellTools() : []),
+    ...(skills.length ? [createRunSkillTool(skills)] : []),
+  ]
+    .map(
+      ({ function: { name, description } }) =>
+        `- ${name}: ${description.split(". ")[0].replace(/\.$/, "")}`,
+    )
+    .join("\n");
+}
+
+/**
+ * Builds the system prompt for a model call. Prompts set as a
+ * `SystemMessage` are sent as is. Prompts set as a string either select a
+ * prompt in the library, with `LIBRARY_PROMPT_PREFIX`, or are a template, and
+ * are rendered with the run's variables. Without a prompt, the default template for the
+ * environment is used.
+ *
+ * @param options The configured prompt and the values of the variables.
+ * @returns {Promise<string | SystemMessage>} The system prompt.
+ */
+export async function resolvePrompt({
+  prompt,
+  environment,
+  instructions,
+  display,
+  shellTools,
+  skills = [],
+}: {
+  prompt: string | SystemMessage | undefined;
+  environment: CUAEnvironment;
+  instructions: string;
+  display?: { width: number; height: number };
+  shellTools: boolean;
+  skills?: SkillSummary[];
+}): Promise<string | SystemMessage> {
+  if (prompt && typeof prompt !== "string") {
+    return prompt;
+  }
+  let template = prompt || DEFAULT_PROMPT_TEMPLATES[environment];
+  const libraryPromptName = getLibraryPromptName(template);
+  if (libraryPromptName !== undefined) {
+    template = await loadPromptTemplate(libraryPromptName);
+  }
+  return renderPromptTemplate(template, {
+    environment,
+    screenSize: display
+      ? `${display.width}x${display.height}`
+      : "unknown until the first screenshot",
+    date: new Date().toLocaleDateString("en-US", {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }),
+    tools: describeTools(environment, shellTools, skills),
+    instructions,
+  });
+}
@@ -0,0 +1,264 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from "@langchain/core/messages";
+import {
+  ModelProvider,
+  ModelProviderCallOptions,
+  ModelProviderCapabilities,
+} from "./types";
+import { PROMPT_DATE_PATTERN } from "../prompt-templates";
+
+/**
+ * A recorded model call. `request` is the normalized request the key was
+ * hashed from, kept so cassettes can be reviewed and diffed.
+ */
+interface CassetteInteraction {
+  key: string;
+  provider: string;
+  /**
+   * The capabilities of the recorded provider, which decided how the
+   * request's history was built.
+   */
+  capabilities?: ModelProviderCapabilities;
+  request: unknown;
+  response: {
+    content: AIMessage["content"];
+    tool_calls?: AIMessage["tool_calls"];
+    invalid_tool_calls?: AIMessage["invalid_tool_calls"];
+    additional_kwargs?: AIMessage["additional_kwargs"];
+    response_metadata?: AIMessage["response_metadata"];
+    usage_metadata?: AIMessage["usage_metadata"];
+  };
+}
+
+interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+const IMAGE_PLACEHOLDER = "<image>";
+
+function isImage(value: string): boolean {
+  return value.startsWith("data:image/") || /^https?:\/\//.test(value);
+}
+
+function normalizeContent(content: BaseMessage["content"]): unknown {
+  if (typeof content === "string") {
+    return isImage(content) ? IMAGE_PLACEHOLDER : content;
+  }
+  return content.map((part) =>
+    part.type === "image_url" ? { type: "image_url" } : part,
+  );
+}
+
+function normalizePrompt(prompt: ModelProviderCallOptions["prompt"]) {
+  const content = typeof prompt === "string" ? prompt : prompt?.content;
+  return typeof content === "string"
+    ? content.replace(PROMPT_DATE_PATTERN, "<date>")
+    : content;
+}
+
+/**
+ * Reduces a model request to the parts which decide the response. Screenshot
+ * bytes and URLs are replaced with a placeholder, since no two screenshots
+ * are byte-identical, message IDs are dropped, since they are random, and so
+ * is the date in the prompt, so cassettes replay on any day.
+ */
+function normalizeRequest(
+  messages: BaseMessage[],
+  options: ModelProviderCallOptions,
+): unknown {
+  return {
+    messages: messages.map((message) => ({
+      type: message.getType(),
+      content: normalizeContent(message.content),
+      tool_calls: (message as AIMessage).tool_calls?.map((tc) => ({
+        id: tc.id,
+        name: tc.name,
+        args: tc.args,
+      })),
+      tool_call_id: (message as { tool_call_id?: string }).tool_call_id,
+      tool_outputs: message.additional_kwargs?.tool_outputs,
+    })),
+    environment: options.environment,
+    prompt: normalizePrompt(options.prompt),
+    settings: options.settings,
+    display: options.display,
+    previousResponseId: options.previousResponseId,
+    textOnly: options.textOnly,
+    shellTools: options.shellTools,
+    // Left out without skills, so cassettes recorded before skills still match.
+    skills: options.skills?.length ? options.skills : undefined,
+  };
+}
+
+/**
+ * JSON with object keys sorted, so equal requests always hash the same.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.entries(val).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : val,
+  );
+}
+
+function hashRequest(request: unknown): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex");
+}
+
+async function loadCassette(path: string): Promise<Cassette> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch (e) {
+    if (e instanceof Error && (e as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: 1, interactions: [] };
+    }
+    throw e;
+  }
+}
+
+// The last write to each cassette file. Writes wait for the one before, so
+// calls recorded at the same time in this process are all kept.
+const cassetteWrites = new Map<string, Promise<void>>();
+
+function appendToCassette(
+  path: string,
+  interaction: CassetteInteraction,
+): Promise<void> {
+  const write = (cassetteWrites.get(path) ?? Promise.resolve())
+    // A failed write fails its own call, not the ones after it.
+    .catch(() => undefined)
+    .then(async () => {
+      const cassette = await loadCassette(path);
+      cassette.interactions.push(interaction);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(cassette, null, 2));
+    });
+  cassetteWrites.set(path, write);
+  return write;
+}
+
+/**
+ * Wraps a provider so every call is appended to a cassette file, which the
+ * `replay` provider can serve back without calling the model.
+ *
+ * @param {ModelProvider} provider The provider to record.
+ * @param {string} path The cassette file to append to. Created if missing.
+ * @returns {ModelProvider} The recording provider.
+ */
+export function recordToCassette(
+  provider: ModelProvider,
+  path: string,
+): ModelProvider {
+  return {
+    name: provider.name,
+    capabilities: provider.capabilities,
+    async invoke(messages, options) {
+      const response = await provider.invoke(messages, options);
+      const request = normalizeRequest(messages, options);
+      await appendToCassette(path, {
+        key: hashRequest(request),
+        provider: provider.name,
+        capabilities: provider.capabilities,
+        request,
+        response: {
+          content: response.content,
+          tool_calls: response.tool_calls,
+          invalid_tool_calls: response.invalid_tool_calls,
+          additional_kwargs: response.additional_kwargs,
+          response_metadata: response.response_metadata,
+          usage_metadata: response.usage_metadata,
+        },
+      });
+      return response;
+    },
+  };
+}
+
+/**
+ * Serves responses recorded by `recordToCassette`, without network access.
+ * Requests are matched by their normalized hash. When the same request was
+ * recorded more than once, its responses are served in the order they were
+ * recorded. The cassette is read on every call, so it can be re-recorded
+ * without restarting the agent.
+ */
+export class CassetteReplayProvider implements ModelProvider {
+  readonly name = "replay";
+
+  private path: string;
+
+  // The number of times each key has been served.
+  private served = new Map<string, number>();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * The capabilities of the provider the cassette was recorded from, so the
+   * history is built the same way it was when the calls were recorded.
+   */
+  get capabilities(): ModelProviderCapabilities {
+    return (
+      this.loadCassette().interactions[0]?.capabilities ?? {
+        storesConversation: false,
+      }
+    );
+  }
+
+  private loadCassette(): Cassette {
+    try {
+      return JSON.parse(readFileSync(this.path, "utf-8")) as Cassette;
+    } catch (e) {
+      if (
+        e instanceof Error &&
+        (e as NodeJS.ErrnoException).code === "ENOENT"
+      ) {
+        throw new Error(
+          `Cassette "${this.path}" does not exist. Re-record the cassette with CASSETTE_MODE=record.`,
+        );
+      }
+      throw e;
+    }
+  }
+
+  async invoke(
+    messages: BaseMessage[],
+    options: ModelProviderCallOptions,
+  ): Promise<AIMessage> {
+    const { interactions } = this.loadCassette();
+    const key = hashRequest(normalizeRequest(messages, options));
+    const matches = interactions.filter((i) => i.key === key);
+    if (!matches.length) {
+      throw new Error(
+        `No recorded response in cassette "${this.path}" for request ${key}. Re-record the cassette with CASSETTE_MODE=record.`,
+      );
+    }
+    const count = this.served.get(key) ?? 0;
+    this.served.set(key, count + 1);
+    const { response } = matches[Math.min(count, matches.length - 1)];
+
+    const message = new AIMessage(response);
+    // Replay the response as a single chunk, so the UI still receives it
+    // through the same streaming callbacks.
+    if (message.tool_calls?.length) {
+      options.onPartialToolCalls?.(message.tool_calls);
+    }
+    options.onChunk?.(
+      new AIMessageChunk({
+        content: message.content,
+        response_metadata: message.response_metadata,
+      }),
+    );
+    return message;
+  }
+}
@@ -0,0 +1,104 @@
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import {
+  createComputerUseTool,
+  createFinishTaskTool,
+  createRunSkillTool,
+  createShellTools,
+  GrokClient,
+} from "../grok-client";
+import { ToolImagePlacement } from "../message-translator";
+import { GrokStreamingClient, ToolCallAccumulator } from "../streaming-client";
+import { ModelProvider, ModelProviderCallOptions } from "./types";
+
+/**
+ * A provider for any model served over an OpenAI-compatible
+ * `/chat/completions` endpoint, such as xAI Grok or a local server.
+ */
+export class ChatCompletionsProvider implements ModelProvider {
+  readonly name: string;
+
+  // Chat completions endpoints keep no state between calls.
+  readonly capabilities = { storesConversation: false };
+
+  private client: GrokClient;
+
+  private streamingClient: GrokStreamingClient;
+
+  private toolImagePlacement: ToolImagePlacement;
+
+  constructor(fields: {
+    name: string;
+    apiKey: string;
+    baseURL: string;
+    model: string;
+    /**
+     * Set to "user" for endpoints which reject images in tool messages.
+     * @default "tool"
+     */
+    toolImagePlacement?: ToolImagePlacement;
+  }) {
+    this.name = fields.name;
+    this.client = new GrokClient(fields.apiKey, fields.baseURL, fields.model);
+    this.streamingClient = new GrokStreamingClient(
+      fields.apiKey,
+      fields.baseURL,
+      fields.model,
+    );
+    this.toolImagePlacement = fields.toolImagePlacement ?? "tool";
+  }
+
+  async invoke(
+    messages: BaseMessage[],
+    options: ModelProviderCallOptions,
+  ): Promise<AIMessage> {
+    const tools = options.textOnly
+      ? []
+      : [
+          createComputerUseTool(options.environment, options.display),
+          createFinishTaskTool(),
+          ...(options.shellTools ? createShellTools() : []),
+          ...(options.skills?.length
+            ? [createRunSkillTool(options.skills)]
+            : []),
+        ];
+    // Chat completions endpoints keep no state, so the prompt is always sent.
+    const translateOptions = {
+      prompt: options.prompt,
+      toolImagePlacement: this.toolImagePlacement,
+    };
+    if (!options.onChunk && !options.onPartialToolCalls) {
+      return this.client.createChatCompletion(
+        messages,
+        tools,
+        translateOptions,
+        options.settings,
+        options.signal,
+      );
+    }
+
+    let content = "";
+    let responseMetadata: Record<string, any> = {};
+    const toolCalls = new ToolCallAccumulator();
+    for await (const chunk of this.streamingClient.streamChatCompletion(
+      messages,
+      tools,
+      translateOptions,
+      options.settings,
+      options.signal,
+    )) {
+      content += chunk.content;
+      responseMetadata = { ...responseMetadata, ...chunk.response_metadata };
+      options.onChunk?.(chunk);
+      if (chunk.tool_call_chunks?.length) {
+        toolCalls.add(chunk.tool_call_chunks);
+        options.onPartialToolCalls?.(toolCalls.partialToolCalls);
+      }
+    }
+
+    return new AIMessage({
+      content,
+      ...toolCalls.finish(),
+      response_metadata: responseMetadata,
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { ModelProvider, ModelProviderCallOptions } from "./types";
+
+export type ProviderChatModelCallOptions = BaseChatModelCallOptions &
+  Omit<ModelProviderCallOptions, "onChunk">;
+
+/**
+ * Runs a model provider as a LangChain chat model, so model calls are traced
+ * and streamed like any other chat model. Chunks from providers which stream
+ * are reported as new tokens, which is what LangGraph's `messages` stream mode
+ * listens for, so the UI shows responses as they are generated.
+ */
+export class ProviderChatModel extends BaseChatModel<ProviderChatModelCallOptions> {
+  private provider: ModelProvider;
+
+  constructor(fields: { provider: ModelProvider }) {
+    super({});
+    this.provider = fields.provider;
+  }
+
+  _llmType(): string {
+    return "model-provider";
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    // Report chunks in order, and before the run ends.
+    let pendingTokens = Promise.resolve();
+    const onChunk = (chunk: AIMessageChunk) => {
+      const text = typeof chunk.content === "string" ? chunk.content : "";
+      pendingTokens = pendingTokens.then(() =>
+        runManager?.handleLLMNewToken(
+          text,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { chunk: new ChatGenerationChunk({ message: chunk, text }) },
+        ),
+      );
+    };
+
+    const message = await this.provider.invoke(messages, {
+      environment: options.environment,
+      prompt: options.prompt,
+      settings: options.settings,
+      display: options.display,
+      previousResponseId: options.previousResponseId,
+      textOnly: options.textOnly,
+      shellTools: options.shellTools,
+      skills: options.skills,
+      signal: options.signal,
+      onPartialToolCalls: options.onPartialToolCalls,
+      onChunk: runManager ? onChunk : undefined,
+    });
+    await pendingTokens;
+    // Record which provider responded, so the next call only continues from
+    // this response's ID if it goes to the same provider.
+    message.response_metadata = {
+      ...message.response_metadata,
+      model_provider: this.provider.name,
+    };
+
+    return {
+      generations: [
+        {
+          message,
+          text: typeof message.content === "string" ? message.content : "",
+        },
+      ],
+    };
+  }
+}
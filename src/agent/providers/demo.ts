@@ -0,0 +1,325 @@
+import { readFile } from "node:fs/promises";
+import { dirname, extname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { v4 as uuidv4 } from "uuid";
+import { parse as parseYaml } from "yaml";
+import {
+  ActionNormalizationError,
+  COMPUTER_USE_TOOL_NAME,
+  GrokComputerAction,
+  normalizeGrokAction,
+} from "../computer-actions";
+import { sleep } from "../retry";
+import { FINISH_TASK_TOOL_NAME, TaskResult } from "../task-result";
+import { ModelProvider, ModelProviderCallOptions } from "./types";
+
+/**
+ * The step numbers a scenario turn may be played at. Steps count the model
+ * calls in the thread, starting at 1.
+ */
+export interface DemoTurnCondition {
+  step?: number;
+  minStep?: number;
+  maxStep?: number;
+}
+
+/**
+ * A scripted assistant turn. A turn with an action asks the agent to take it,
+ * and a turn without an action is the final answer, which ends the run. A
+ * final answer can also finish the task with a result.
+ */
+export interface DemoTurn {
+  /**
+   * When the turn may be played. Turns without a condition are played at the
+   * step matching their position in the scenario.
+   */
+  when?: DemoTurnCondition;
+  content?: string;
+  /**
+   * An action in the `computer_use` tool format, e.g. `{ type: "click", x: 10, y: 20 }`.
+   * Coordinates are relative to the screenshots sent to the model.
+   */
+  action?: GrokComputerAction;
+  /**
+   * The arguments of a `finish_task` call, for turns which end the task.
+   */
+  finish?: TaskResult;
+  /**
+   * How long to wait before responding, to look like a model is thinking.
+   */
+  delayMs?: number;
+}
+
+export interface DemoScenario {
+  name?: string;
+  description?: string;
+  /**
+   * The plan returned to text only calls, such as planning.
+   */
+  plan?: string[];
+  turns: DemoTurn[];
+}
+
+/**
+ * The scenario played when none is set. Resolved from `DEMO_SCENARIOS_DIR`.
+ */
+export const DEFAULT_DEMO_SCENARIO = "web-search";
+
+// Next to this module, so scenarios are found whatever directory the server
+// is started from.
+const DEFAULT_DEMO_SCENARIOS_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "../demo-scenarios",
+);
+
+const SCENARIO_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+// Embedded in response IDs, so the step can be recovered when older
+// messages are left out of the history.
+const RESPONSE_ID_PREFIX = "demo_response_";
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Validates a parsed scenario. Throws on the first invalid field, so a typo
+ * in a script fails the run before any action is taken.
+ *
+ * @param {unknown} scenario The parsed scenario file.
+ * @returns {DemoScenario} The scenario.
+ */
+export function validateDemoScenario(scenario: unknown): DemoScenario {
+  const turns = (scenario as DemoScenario | undefined)?.turns;
+  if (!Array.isArray(turns) || !turns.length) {
+    throw new Error("Demo scenarios must have a non-empty list of turns");
+  }
+  const { plan } = scenario as DemoScenario;
+  if (
+    plan !== undefined &&
+    (!Array.isArray(plan) || !plan.every((s) => typeof s === "string" && s))
+  ) {
+    throw new Error("plan must be a list of non-empty strings");
+  }
+  turns.forEach((turn: DemoTurn, i) => {
+    const at = `turns[${i}]`;
+    if (!turn || typeof turn !== "object") {
+      throw new Error(`${at} must be an object`);
+    }
+    for (const key of ["step", "minStep", "maxStep"] as const) {
+      const value = turn.when?.[key];
+      if (value !== undefined && !isPositiveInteger(value)) {
+        throw new Error(`${at}.when.${key} must be a positive integer`);
+      }
+    }
+    if (turn.content !== undefined && typeof turn.content !== "string") {
+      throw new Error(`${at}.content must be a string`);
+    }
+    if (!turn.content && turn.action === undefined && !turn.finish) {
+      throw new Error(`${at} must have content, an action or a finish`);
+    }
+    if (turn.action !== undefined && turn.finish) {
+      throw new Error(`${at} can not have both an action and a finish`);
+    }
+    if (turn.action !== undefined) {
+      try {
+        normalizeGrokAction(turn.action);
+      } catch (e) {
+        if (e instanceof ActionNormalizationError) {
+          throw new Error(`${at}.action: ${e.message}`);
+        }
+        throw e;
+      }
+    }
+    if (
+      turn.delayMs !== undefined &&
+      (typeof turn.delayMs !== "number" || !(turn.delayMs >= 0))
+    ) {
+      throw new Error(`${at}.delayMs must be a non-negative number`);
+    }
+  });
+  return scenario as DemoScenario;
+}
+
+/**
+ * Resolves a scenario name or path to a file. Names are looked up in
+ * `DEMO_SCENARIOS_DIR`, with any of the supported extensions.
+ *
+ * @param {string} scenario A scenario name, e.g. "web-search", or a path to a scenario file.
+ * @returns {string[]} The paths to try, in order.
+ */
+function getScenarioPaths(scenario: string): string[] {
+  if (SCENARIO_EXTENSIONS.includes(extname(scenario))) {
+    return [scenario];
+  }
+  const dir = process.env.DEMO_SCENARIOS_DIR ?? DEFAULT_DEMO_SCENARIOS_DIR;
+  return SCENARIO_EXTENSIONS.map((ext) => join(dir, `${scenario}${ext}`));
+}
+
+/**
+ * Loads and validates a scenario from a YAML or JSON file.
+ *
+ * @param {string} scenario A scenario name or path. See `getScenarioPaths`.
+ * @returns {Promise<DemoScenario>} The scenario.
+ */
+export async function loadDemoScenario(
+  scenario: string,
+): Promise<DemoScenario> {
+  const paths = getScenarioPaths(scenario);
+  for (const path of paths) {
+    let text: string;
+    try {
+      text = await readFile(path, "utf-8");
+    } catch (e) {
+      if (
+        e instanceof Error &&
+        (e as NodeJS.ErrnoException).code === "ENOENT"
+      ) {
+        continue;
+      }
+      throw e;
+    }
+    try {
+      return validateDemoScenario(
+        extname(path) === ".json" ? JSON.parse(text) : parseYaml(text),
+      );
+    } catch (e) {
+      throw new Error(
+        `Invalid demo scenario "${path}": ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+  }
+  throw new Error(
+    `Demo scenario "${scenario}" not found. Tried: ${paths.join(", ")}`,
+  );
+}
+
+function matchesStep(condition: DemoTurnCondition, step: number): boolean {
+  return (
+    (condition.step === undefined || step === condition.step) &&
+    (condition.minStep === undefined || step >= condition.minStep) &&
+    (condition.maxStep === undefined || step <= condition.maxStep)
+  );
+}
+
+/**
+ * Picks the turn to play at a step: the first turn whose condition matches,
+ * where turns without a condition match the step of their position.
+ */
+function selectTurn(
+  scenario: DemoScenario,
+  step: number,
+): DemoTurn | undefined {
+  return scenario.turns.find((turn, i) =>
+    matchesStep(turn.when ?? { step: i + 1 }, step),
+  );
+}
+
+/**
+ * The step of the model call being made. It is continued from the ID of the
+ * last response the scenario played, since older messages may have been
+ * left out of the history. Otherwise it is counted from the assistant
+ * messages in the thread.
+ */
+function getStep(messages: BaseMessage[]): number {
+  const previousId = messages.findLast((m) => m.getType() === "ai")
+    ?.response_metadata?.id;
+  const previousStep =
+    typeof previousId === "string" && previousId.startsWith(RESPONSE_ID_PREFIX)
+      ? parseInt(previousId.slice(RESPONSE_ID_PREFIX.length), 10)
+      : NaN;
+  if (Number.isInteger(previousStep)) {
+    return previousStep + 1;
+  }
+  return messages.filter((m) => m.getType() === "ai").length + 1;
+}
+
+/**
+ * A provider which plays a scripted scenario instead of calling a model, for
+ * demos and UI development. Each model call plays the scenario turn for the
+ * current step, and the run ends once a turn without an action is played, or
+ * no turn matches. Text only calls get the scenario's plan. Scenarios are read on every call, so edits to a script
+ * apply to the next step.
+ */
+export class DemoProvider implements ModelProvider {
+  readonly name = "demo";
+
+  readonly capabilities = { storesConversation: false };
+
+  private scenario: string;
+
+  constructor(scenario: string) {
+    this.scenario = scenario;
+  }
+
+  async invoke(
+    messages: BaseMessage[],
+    options: ModelProviderCallOptions,
+  ): Promise<AIMessage> {
+    const scenario = await loadDemoScenario(this.scenario);
+    if (options.textOnly) {
+      return new AIMessage({
+        content: (scenario.plan ?? [])
+          .map((title, i) => `${i + 1}. ${title}`)
+          .join("\n"),
+        response_metadata: {
+          id: `demo_plan_${uuidv4()}`,
+          model: "demo",
+          usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+        },
+      });
+    }
+    const step = getStep(messages);
+    const turn = selectTurn(scenario, step) ?? {
+      content: "The demo scenario has no more steps.",
+    };
+    // Like a model request, a cancelled call returns no response.
+    await sleep(turn.delayMs ?? 0, options.signal);
+
+    const toolCalls: ToolCall[] = [];
+    if (turn.action) {
+      toolCalls.push({
+        type: "tool_call",
+        id: `demo_call_${uuidv4()}`,
+        name: COMPUTER_USE_TOOL_NAME,
+        args: { action: turn.action },
+      });
+    } else if (turn.finish) {
+      // Validated by the model node, like a model's call would be.
+      toolCalls.push({
+        type: "tool_call",
+        id: `demo_call_${uuidv4()}`,
+        name: FINISH_TASK_TOOL_NAME,
+        args: turn.finish,
+      });
+    }
+    const responseMetadata = {
+      id: `${RESPONSE_ID_PREFIX}${step}_${uuidv4()}`,
+      model: "demo",
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+
+    // Send the turn through the streaming callbacks, so the UI shows it the
+    // same way as a model response.
+    if (toolCalls.length) {
+      options.onPartialToolCalls?.(toolCalls);
+    }
+    options.onChunk?.(
+      new AIMessageChunk({
+        content: turn.content ?? "",
+        response_metadata: responseMetadata,
+      }),
+    );
+    return new AIMessage({
+      content: turn.content ?? "",
+      tool_calls: toolCalls,
+      response_metadata: responseMetadata,
+    });
+  }
+}
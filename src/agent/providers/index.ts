@@ -0,0 +1,142 @@
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { getConfigurationWithDefaults } from "../configuration";
+import { CassetteReplayProvider, recordToCassette } from "./cassette";
+import { ChatCompletionsProvider } from "./chat-completions";
+import { DEFAULT_DEMO_SCENARIO, DemoProvider } from "./demo";
+import { MockProvider } from "./mock";
+import { OpenAIResponsesProvider } from "./openai";
+import { ModelProvider, ModelProviderFactory } from "./types";
+
+export type {
+  ModelProvider,
+  ModelProviderCallOptions,
+  ModelProviderFactory,
+} from "./types";
+
+const providers = new Map<string, ModelProviderFactory>();
+
+/**
+ * Registers a model provider under the given name, so runs can select it
+ * by passing `modelProvider` in the configurable fields. Registering an
+ * existing name replaces the previous factory.
+ */
+export function registerModelProvider(
+  name: string,
+  factory: ModelProviderFactory,
+) {
+  providers.set(name, factory);
+}
+
+/**
+ * @returns {string[]} The names of all registered model providers.
+ */
+export function listModelProviders(): string[] {
+  return [...providers.keys()];
+}
+
+function getCassettePath(): string {
+  const path = process.env.CASSETTE_PATH;
+  if (!path) {
+    throw new Error(
+      "CASSETTE_PATH environment variable is required to record or replay model calls",
+    );
+  }
+  return path;
+}
+
+/**
+ * Creates the model provider selected by the run's configuration. When
+ * CASSETTE_MODE is "record", every call is also recorded to the cassette at
+ * CASSETTE_PATH.
+ *
+ * @param {LangGraphRunnableConfig} config - The configuration of the current run.
+ * @returns {ModelProvider} The provider to call the model with.
+ */
+export function getModelProvider(
+  config: LangGraphRunnableConfig,
+): ModelProvider {
+  const { modelProvider } = getConfigurationWithDefaults(config);
+  const factory = providers.get(modelProvider);
+  if (!factory) {
+    throw new Error(
+      `Unknown model provider "${modelProvider}". Must be one of: ${listModelProviders().join(", ")}`,
+    );
+  }
+  const provider = factory(config);
+  if (process.env.CASSETTE_MODE === "record" && provider.name !== "replay") {
+    return recordToCassette(provider, getCassettePath());
+  }
+  return provider;
+}
+
+registerModelProvider("xai", () => {
+  const apiKey = process.env.XAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("XAI_API_KEY environment variable is required");
+  }
+  return new ChatCompletionsProvider({
+    name: "xai",
+    apiKey,
+    baseURL: process.env.XAI_BASE_URL ?? "https://api.x.ai/v1",
+    model: "grok-2-vision-1212",
+  });
+});
+
+registerModelProvider("openai", () => {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OPENAI_API_KEY environment variable is required");
+  }
+  return new OpenAIResponsesProvider({ apiKey: process.env.OPENAI_API_KEY });
+});
+
+registerModelProvider("openai-compatible", () => {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  const model = process.env.OPENAI_COMPATIBLE_MODEL;
+  if (!baseURL || !model) {
+    throw new Error(
+      "OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL environment variables are required",
+    );
+  }
+  return new ChatCompletionsProvider({
+    name: "openai-compatible",
+    // Most local servers ignore the key, but still expect the header.
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+    baseURL,
+    model,
+    // Most OpenAI-compatible servers only accept text in tool messages.
+    toolImagePlacement:
+      process.env.OPENAI_COMPATIBLE_TOOL_IMAGES === "tool" ? "tool" : "user",
+  });
+});
+
+registerModelProvider("mock", () => new MockProvider());
+
+registerModelProvider("demo", (config) => {
+  const { demoScenario } = getConfigurationWithDefaults(config);
+  return new DemoProvider(demoScenario ?? DEFAULT_DEMO_SCENARIO);
+});
+
+// Replay providers are kept per run, so a request repeated within a run is
+// served its recorded responses in order, and every run starts from the
+// first. Only the most recent runs are kept.
+const replayProviders = new Map<string, CassetteReplayProvider>();
+
+const MAX_REPLAY_RUNS = 100;
+
+registerModelProvider("replay", (config) => {
+  const path = getCassettePath();
+  const runId = config.metadata?.run_id as string | undefined;
+  if (!runId) {
+    return new CassetteReplayProvider(path);
+  }
+  const key = `${runId}:${path}`;
+  let provider = replayProviders.get(key);
+  if (!provider) {
+    provider = new CassetteReplayProvider(path);
+    replayProviders.set(key, provider);
+    if (replayProviders.size > MAX_REPLAY_RUNS) {
+      replayProviders.delete(replayProviders.keys().next().value as string);
+    }
+  }
+  return provider;
+});
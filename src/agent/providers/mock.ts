@@ -0,0 +1,73 @@
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { isComputerCallToolMessage } from "@langchain/langgraph-cua";
+import { v4 as uuidv4 } from "uuid";
+import { FINISH_TASK_TOOL_NAME } from "../task-result";
+import { ModelProvider, ModelProviderCallOptions } from "./types";
+
+/**
+ * A provider which never calls a model. It requests a single screenshot, then
+ * finishes the task once the screenshot comes back. Text only calls, such as
+ * planning, get a one step plan. Useful for exercising the graph and UI
+ * without API keys.
+ */
+export class MockProvider implements ModelProvider {
+  readonly name = "mock";
+
+  readonly capabilities = { storesConversation: false };
+
+  async invoke(
+    messages: BaseMessage[],
+    options: ModelProviderCallOptions,
+  ): Promise<AIMessage> {
+    const lastMessage = messages[messages.length - 1];
+    const responseMetadata = {
+      id: `mock_response_${uuidv4()}`,
+      model: "mock",
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+
+    if (options.textOnly) {
+      return new AIMessage({
+        content: "1. Take a screenshot of the current state.",
+        response_metadata: responseMetadata,
+      });
+    }
+
+    if (lastMessage && isComputerCallToolMessage(lastMessage)) {
+      return new AIMessage({
+        content:
+          "Mock provider: the screenshot was taken successfully. No further actions will be taken.",
+        tool_calls: [
+          {
+            type: "tool_call",
+            id: `mock_call_${uuidv4()}`,
+            name: FINISH_TASK_TOOL_NAME,
+            args: {
+              status: "success",
+              summary: "Took a screenshot of the current state.",
+            },
+          },
+        ],
+        response_metadata: responseMetadata,
+      });
+    }
+
+    const callId = `mock_call_${uuidv4()}`;
+    return new AIMessage({
+      content: "Mock provider: taking a screenshot of the current state.",
+      additional_kwargs: {
+        tool_outputs: [
+          {
+            type: "computer_call",
+            id: callId,
+            call_id: callId,
+            action: { type: "screenshot" },
+            pending_safety_checks: [],
+            status: "completed",
+          },
+        ],
+      },
+      response_metadata: responseMetadata,
+    });
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { ChatOpenAI } from "@langchain/openai";
+import type {
+  Response,
+  ResponseStreamEvent,
+} from "openai/resources/responses/responses";
+import type { Stream } from "openai/streaming";
+import { CUAEnvironment } from "@langchain/langgraph-cua";
+import { ModelProvider, ModelProviderCallOptions } from "./types";
+import { PRUNED_SCREENSHOT_KEY } from "../context-policy";
+import {
+  createFinishTaskTool,
+  createRunSkillTool,
+  createShellTools,
+} from "../grok-client";
+import { REJECTED_ACTION_KEY } from "../verification";
+import {
+  ACKNOWLEDGED_SAFETY_CHECKS_KEY,
+  type AcknowledgedComputerCall,
+  type SafetyCheck,
+} from "../safety-checks";
+
+// Scrapybara does not allow for configuring this. Must use a hardcoded value.
+const DEFAULT_DISPLAY_WIDTH = 1024;
+const DEFAULT_DISPLAY_HEIGHT = 768;
+
+// A 1x1 transparent PNG.
+const BLANK_SCREENSHOT =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+/**
+ * Computer calls whose coordinates were mapped to the screen are sent back
+ * with the coordinates the model emitted, to match the screenshots it saw.
+ * Verdicts, approval outcomes and acknowledged safety checks stored on
+ * computer calls are removed, since the API rejects unknown fields.
+ */
+function restoreModelActions(messages: BaseMessage[]): BaseMessage[] {
+  return messages.map((message) => {
+    const computerCalls = message.additional_kwargs?.tool_outputs as
+      | AcknowledgedComputerCall[]
+      | undefined;
+    if (
+      message.getType() !== "ai" ||
+      !computerCalls?.some(
+        (call) =>
+          call.model_action ||
+          call.verification ||
+          call.approval ||
+          call[ACKNOWLEDGED_SAFETY_CHECKS_KEY],
+      )
+    ) {
+      return message;
+    }
+    const aiMessage = message as AIMessage;
+    return new AIMessage({
+      id: aiMessage.id,
+      content: aiMessage.content,
+      tool_calls: aiMessage.tool_calls,
+      invalid_tool_calls: aiMessage.invalid_tool_calls,
+      usage_metadata: aiMessage.usage_metadata,
+      response_metadata: aiMessage.response_metadata,
+      additional_kwargs: {
+        ...aiMessage.additional_kwargs,
+        tool_outputs: computerCalls.map(
+          ({
+            model_action,
+            verification: _verification,
+            approval: _approval,
+            [ACKNOWLEDGED_SAFETY_CHECKS_KEY]: _acknowledged,
+            ...call
+          }) => ({
+            ...call,
+            action: model_action ?? call.action,
+          }),
+        ),
+      },
+    });
+  });
+}
+
+/**
+ * The Responses API only accepts a screenshot as the output of a computer
+ * call, so screenshots which were replaced with text by the context policy
+ * are sent as a blank image instead.
+ */
+function restorePrunedScreenshots(messages: BaseMessage[]): BaseMessage[] {
+  return messages.map((message) =>
+    message.getType() === "tool" &&
+    message.additional_kwargs?.[PRUNED_SCREENSHOT_KEY]
+      ? new ToolMessage({
+          id: message.id,
+          tool_call_id: (message as ToolMessage).tool_call_id,
+          content: BLANK_SCREENSHOT,
+          additional_kwargs: message.additional_kwargs,
+        })
+      : message,
+  );
+}
+
+/**
+ * The Responses API only accepts a screenshot as the output of a computer
+ * call, so actions which were not taken, e.g. because the verifier rejected
+ * them, are answered with the latest screenshot, followed by the reason.
+ */
+function answerRejectedActions(messages: BaseMessage[]): BaseMessage[] {
+  let screenshot = BLANK_SCREENSHOT;
+  return messages.flatMap((message) => {
+    if (message.additional_kwargs?.type === "computer_call_output") {
+      screenshot = message.additional_kwargs[PRUNED_SCREENSHOT_KEY]
+        ? BLANK_SCREENSHOT
+        : (message.content as string);
+    }
+    if (
+      message.getType() !== "tool" ||
+      !message.additional_kwargs?.[REJECTED_ACTION_KEY]
+    ) {
+      return [message];
+    }
+    return [
+      new ToolMessage({
+        id: message.id,
+        tool_call_id: (message as ToolMessage).tool_call_id,
+        content: screenshot,
+        additional_kwargs: { type: "computer_call_output" },
+      }),
+      new HumanMessage({ content: message.content }),
+    ];
+  });
+}
+
+type ResponsesRequest = Parameters<ChatOpenAI["responseApiWithRetry"]>[0];
+
+type ResponsesRequestOptions = Parameters<
+  ChatOpenAI["responseApiWithRetry"]
+>[1];
+
+/**
+ * `ChatOpenAI` leaves out the safety checks each computer call output
+ * acknowledges, which the API requires before it continues after a computer
+ * call with pending safety checks. They are added to the request here.
+ */
+class ChatOpenAIWithSafetyChecks extends ChatOpenAI {
+  /**
+   * The acknowledged safety checks, by the ID of the computer call they were
+   * raised on.
+   */
+  acknowledgedSafetyChecks: Record<string, SafetyCheck[]> = {};
+
+  protected override responseApiWithRetry(
+    request: ResponsesRequest & { stream: true },
+    options?: ResponsesRequestOptions,
+  ): Promise<Stream<ResponseStreamEvent>>;
+
+  protected override responseApiWithRetry(
+    request: ResponsesRequest,
+    options?: ResponsesRequestOptions,
+  ): Promise<Response>;
+
+  protected override responseApiWithRetry(
+    request: ResponsesRequest,
+    options?: ResponsesRequestOptions,
+  ): Promise<Stream<ResponseStreamEvent> | Response> {
+    return super.responseApiWithRetry(
+      {
+        ...request,
+        input: Array.isArray(request.input)
+          ? request.input.map((item) =>
+              item.type === "computer_call_output" &&
+              this.acknowledgedSafetyChecks[item.call_id]
+                ? {
+                    ...item,
+                    [ACKNOWLEDGED_SAFETY_CHECKS_KEY]:
+                      this.acknowledgedSafetyChecks[item.call_id],
+                  }
+                : item,
+            )
+          : request.input,
+      },
+      options,
+    );
+  }
+}
+
+function getAcknowledgedSafetyChecks(
+  messages: BaseMessage[],
+): Record<string, SafetyCheck[]> {
+  return Object.fromEntries(
+    messages
+      .filter(
+        (message) =>
+          message.getType() === "tool" &&
+          message.additional_kwargs?.[ACKNOWLEDGED_SAFETY_CHECKS_KEY],
+      )
+      .map((message) => [
+        (message as ToolMessage).tool_call_id,
+        message.additional_kwargs[
+          ACKNOWLEDGED_SAFETY_CHECKS_KEY
+        ] as SafetyCheck[],
+      ]),
+  );
+}
+
+function getOpenAIEnvFromStateEnv(env: CUAEnvironment) {
+  switch (env) {
+    case "web":
+      return "browser";
+    case "ubuntu":
+      return "ubuntu";
+    case "windows":
+      return "windows";
+    default:
+      throw new Error(`Invalid environment: ${env}`);
+  }
+}
+
+/**
+ * Calls OpenAI's `computer-use-preview` model through the Responses API.
+ * The response already contains `computer_call` tool outputs, so no
+ * conversion is needed.
+ */
+export class OpenAIResponsesProvider implements ModelProvider {
+  readonly name = "openai";
+
+  readonly capabilities = { storesConversation: true };
+
+  private apiKey: string | undefined;
+
+  private model: string;
+
+  constructor(fields: { apiKey?: string; model?: string } = {}) {
+    this.apiKey = fields.apiKey;
+    this.model = fields.model ?? "computer-use-preview";
+  }
+
+  // `textOnly` is ignored, since computer-use-preview requires the computer tool.
+  async invoke(
+    messages: BaseMessage[],
+    options: ModelProviderCallOptions,
+  ): Promise<AIMessage> {
+    const settings = options.settings ?? {};
+    const chatModel = new ChatOpenAIWithSafetyChecks({
+      model: settings.model ?? this.model,
+      apiKey: this.apiKey,
+      useResponsesApi: true,
+      temperature: settings.temperature,
+      maxTokens: settings.maxTokens,
+      topP: settings.topP,
+      reasoningEffort: settings.reasoningEffort,
+    });
+    chatModel.acknowledgedSafetyChecks = getAcknowledgedSafetyChecks(messages);
+    const model = chatModel.bindTools([
+      {
+        type: "computer_use_preview",
+        display_width: options.display?.width ?? DEFAULT_DISPLAY_WIDTH,
+        display_height: options.display?.height ?? DEFAULT_DISPLAY_HEIGHT,
+        environment: getOpenAIEnvFromStateEnv(options.environment),
+      },
+      createFinishTaskTool(),
+      ...(options.shellTools ? createShellTools() : []),
+      ...(options.skills?.length ? [createRunSkillTool(options.skills)] : []),
+    ]);
+
+    // The prompt is already stored alongside the previous response.
+    const prompt =
+      options.prompt && !options.previousResponseId
+        ? [
+            typeof options.prompt === "string"
+              ? { role: "system", content: options.prompt }
+              : options.prompt,
+          ]
+        : [];
+
+    return (await model.invoke(
+      [
+        ...prompt,
+        ...restorePrunedScreenshots(
+          answerRejectedActions(restoreModelActions(messages)),
+        ),
+      ],
+      {
+        signal: options.signal,
+        truncation: "auto",
+        previous_response_id: options.previousResponseId,
+      },
+    )) as AIMessage;
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { CUAEnvironment } from "@langchain/langgraph-cua";
+import type { ModelSettings } from "../model-settings";
+import type { SkillSummary } from "../skills";
+
+/**
+ * Per-call options passed from the model node to a provider.
+ */
+export interface ModelProviderCallOptions {
+  /**
+   * The environment the agent is controlling. Used to pick the tool
+   * definition sent to the model.
+   */
+  environment: CUAEnvironment;
+  /**
+   * The system prompt, if any. Providers decide how to attach it to the request.
+   */
+  prompt?: string | SystemMessage;
+  /**
+   * The run's model and sampling parameters. Providers apply the ones their
+   * API supports.
+   */
+  settings?: ModelSettings;
+  /**
+   * The size of the screenshots sent to the model, which the coordinates of
+   * its actions must be relative to. Unset until the model has seen a
+   * screenshot.
+   */
+  display?: { width: number; height: number };
+  /**
+   * The ID of the previous model response, for providers which store the
+   * conversation. When set, `messages` only contains the messages added
+   * since that response.
+   */
+  previousResponseId?: string;
+  /**
+   * Set for calls which only need a text response, such as planning.
+   * Providers leave out the computer tool where their model allows it.
+   */
+  textOnly?: boolean;
+  /**
+   * Whether to offer the `bash` and `str_replace_editor` tools, which only
+   * instances with a shell can run.
+   */
+  shellTools?: boolean;
+  /**
+   * The skills to offer with the `run_skill` tool. The tool is left out if
+   * there are none.
+   */
+  skills?: SkillSummary[];
+  /**
+   * Aborted when the run is cancelled. Providers pass it to every request
+   * they make, so a cancelled run does not wait for the response.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with each chunk of the response while it streams. Providers which
+   * do not stream never call it.
+   */
+  onChunk?: (chunk: AIMessageChunk) => void;
+  /**
+   * Called with the tool calls generated so far while a response streams,
+   * with arguments parsed as far as they have arrived. Providers which do not
+   * stream tool calls never call it.
+   */
+  onPartialToolCalls?: (toolCalls: ToolCall[]) => void;
+}
+
+/**
+ * What a provider's API supports, which decides how the model node builds
+ * its requests.
+ */
+export interface ModelProviderCapabilities {
+  /**
+   * Whether the API stores the conversation, so a call can continue from a
+   * previous response by its ID, with only the messages added since. Calls
+   * to providers which do not get the whole history, limited by the run's
+   * context policy.
+   */
+  storesConversation: boolean;
+}
+
+/**
+ * A model backend the computer use agent can call. Providers receive LangChain
+ * messages with screenshots already inlined as base64, and return an AIMessage
+ * with computer actions either as `computer_call` items in
+ * `additional_kwargs.tool_outputs`, or as `computer_use` tool calls, which the
+ * model node normalizes into `computer_call` items.
+ */
+export interface ModelProvider {
+  /**
+   * The name the provider is registered under.
+   */
+  readonly name: string;
+
+  readonly capabilities: ModelProviderCapabilities;
+
+  invoke(
+    messages: BaseMessage[],
+    options: ModelProviderCallOptions,
+  ): Promise<AIMessage>;
+}
+
+/**
+ * Creates a provider for a single run. Factories are called once per model
+ * call, so they can read API keys and settings from the run's config.
+ */
+export type ModelProviderFactory = (
+  config: LangGraphRunnableConfig,
+) => ModelProvider;
@@ -0,0 +1,183 @@
+/**
+ * Thrown when a model provider request fails, either because the error is
+ * not retryable (e.g. a 400 or 401), or because retries were exhausted. The
+ * name is kept stable so the UI can tell provider failures apart from other
+ * run errors.
+ */
+export class ModelProviderError extends Error {
+  /**
+   * The HTTP status of the last response, if one was received.
+   */
+  readonly status?: number;
+
+  /**
+   * Whether the last failure was transient (rate limit, 5xx or network).
+   */
+  readonly retryable: boolean;
+
+  /**
+   * The number of requests made before giving up.
+   */
+  readonly attempts: number;
+
+  constructor(
+    message: string,
+    fields: { status?: number; retryable: boolean; attempts: number },
+  ) {
+    super(message);
+    this.name = "ModelProviderError";
+    this.status = fields.status;
+    this.retryable = fields.retryable;
+    this.attempts = fields.attempts;
+  }
+}
+
+export interface RetryOptions {
+  /**
+   * The number of times to retry a failed request.
+   * @default 4
+   */
+  maxRetries?: number;
+  /**
+   * The delay before the first retry. Doubles after every attempt.
+   * @default 1000
+   */
+  baseDelayMs?: number;
+  /**
+   * The longest the client will wait between attempts, including waits
+   * requested by `Retry-After`. Requests asking for longer waits fail.
+   * @default 60000
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * 408 and 409 are sent by some gateways for transient failures.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ *
+ * @returns {number | undefined} The delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter.
+ */
+function getBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+) {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+/**
+ * Waits for `ms`, or rejects as soon as `signal` is aborted, so cancelled
+ * runs do not wait out a backoff or a polling interval.
+ */
+export async function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls `fetch`, retrying rate limits, 5xx responses and network errors with
+ * exponential backoff. 429 responses wait for `Retry-After` when it is set.
+ * Other 4xx responses fail immediately, since retrying them can not succeed.
+ * Aborting `init.signal` stops the request and any pending retry.
+ *
+ * @param {string} url The URL to request.
+ * @param {RequestInit} init The request options.
+ * @param {RetryOptions} options Retry options.
+ * @returns {Promise<Response>} The first successful response.
+ * @throws {ModelProviderError} If the request fails and can not be retried.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = {},
+): Promise<Response> {
+  const { maxRetries = 4, baseDelayMs = 1000, maxDelayMs = 60_000 } = options;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const attempts = attempt + 1;
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (e) {
+      if (
+        (e instanceof Error && e.name === "AbortError") ||
+        init.signal?.aborted
+      ) {
+        throw e;
+      }
+      if (attempt >= maxRetries) {
+        throw new ModelProviderError(
+          `Model provider request failed after ${attempts} attempts: ${e instanceof Error ? e.message : String(e)}`,
+          { retryable: true, attempts },
+        );
+      }
+      await sleep(
+        getBackoffDelay(attempt, baseDelayMs, maxDelayMs),
+        init.signal,
+      );
+      continue;
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    const errorText = await response.text().catch(() => "");
+    const description = `${response.status} ${response.statusText}${errorText ? `\n${errorText}` : ""}`;
+    if (!isRetryableStatus(response.status)) {
+      throw new ModelProviderError(
+        `Model provider rejected the request: ${description}`,
+        { status: response.status, retryable: false, attempts },
+      );
+    }
+
+    const delay =
+      (response.status === 429
+        ? parseRetryAfter(response.headers.get("retry-after"))
+        : undefined) ?? getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+    if (attempt >= maxRetries || delay > maxDelayMs) {
+      throw new ModelProviderError(
+        `Model provider request failed after ${attempts} attempts: ${description}`,
+        { status: response.status, retryable: true, attempts },
+      );
+    }
+    console.warn(
+      `Model provider returned ${response.status}. Retrying in ${Math.round(delay)}ms (attempt ${attempts} of ${maxRetries + 1}).`,
+    );
+    await sleep(delay, init.signal);
+  }
+}
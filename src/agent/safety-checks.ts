@@ -0,0 +1,96 @@
+import { BaseMessage } from "@langchain/core/messages";
+import type { ResponseComputerToolCall } from "openai/resources/responses/responses";
+import type { ApprovedComputerCall } from "./approval";
+import { getComputerCall } from "./computer-actions";
+
+/**
+ * A check the model provider raised on a computer call, e.g. because the
+ * screen may contain a prompt injection. The action only runs once the user
+ * acknowledges it.
+ */
+export type SafetyCheck = ResponseComputerToolCall.PendingSafetyCheck;
+
+/**
+ * The key of the safety checks a computer call output acknowledges, on the
+ * computer call and on the tool message with its output. Named after the
+ * field of the Responses API's `computer_call_output` item.
+ */
+export const ACKNOWLEDGED_SAFETY_CHECKS_KEY = "acknowledged_safety_checks";
+
+export type AcknowledgedComputerCall = ApprovedComputerCall & {
+  [ACKNOWLEDGED_SAFETY_CHECKS_KEY]?: SafetyCheck[];
+};
+
+/**
+ * The value of the interrupt raised before a computer action with pending
+ * safety checks.
+ */
+export interface SafetyCheckRequest {
+  type: "safety_check";
+  toolCallId: string;
+  checks: SafetyCheck[];
+  /**
+   * The action, as a short line for display.
+   */
+  input: string;
+  /**
+   * The model's reasoning for the action, if it gave any.
+   */
+  reasoning?: string;
+  /**
+   * The latest screenshot, as a URL or data URL.
+   */
+  screenshot?: string;
+}
+
+/**
+ * How the user answered a safety check request, passed as the `resume` value
+ * of the command which continues the run.
+ */
+export type SafetyCheckDecision =
+  | { decision: "acknowledge" }
+  | { decision: "decline"; reason?: string };
+
+/**
+ * Validates the decision the run was resumed with.
+ *
+ * @param {unknown} decision The resume value.
+ * @returns {SafetyCheckDecision} The decision.
+ */
+export function validateSafetyCheckDecision(
+  decision: unknown,
+): SafetyCheckDecision {
+  const value = decision as Partial<Record<string, unknown>> | undefined;
+  switch (value?.decision) {
+    case "acknowledge":
+      return { decision: "acknowledge" };
+    case "decline":
+      if (value.reason !== undefined && typeof value.reason !== "string") {
+        throw new Error("safety check reason must be a string");
+      }
+      return { decision: "decline", reason: value.reason || undefined };
+    default:
+      throw new Error(
+        `safety check decision must be "acknowledge" or "decline"`,
+      );
+  }
+}
+
+/**
+ * The safety checks on the computer call the last model response will take,
+ * which the user has not acknowledged yet.
+ */
+export function getUnacknowledgedSafetyChecks(
+  message: BaseMessage | undefined,
+): SafetyCheck[] {
+  if (message?.getType() !== "ai") {
+    return [];
+  }
+  const call = getComputerCall(message) as AcknowledgedComputerCall | undefined;
+  const acknowledged = new Set(
+    call?.[ACKNOWLEDGED_SAFETY_CHECKS_KEY]?.map((check) => check.id),
+  );
+  return (call?.pending_safety_checks ?? []).filter(
+    (check) => !acknowledged.has(check.id),
+  );
+}
@@ -0,0 +1,280 @@
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { isComputerCallToolMessage } from "@langchain/langgraph-cua";
+import type { ResponseComputerToolCall } from "openai/resources/responses/responses";
+import sharp from "sharp";
+import { ComputerAction } from "./computer-actions";
+
+export const SCREEN_SIZES = {
+  XGA: { width: 1024, height: 768 },
+  WXGA: { width: 1280, height: 800 },
+};
+
+/**
+ * How screenshots are resized and re-encoded before they are sent to the
+ * model. Smaller screenshots are cheaper and faster, and some models are
+ * most accurate at a specific resolution. Coordinates the model returns are
+ * mapped back to the screen before actions run.
+ */
+export interface ScreenshotScaling {
+  /**
+   * The size to fit screenshots within, keeping their aspect ratio. Either a
+   * named size from `SCREEN_SIZES`, an explicit size, or `"native"` to keep
+   * the screen's resolution. Screenshots are never enlarged.
+   */
+  target:
+    | "native"
+    | keyof typeof SCREEN_SIZES
+    | { width: number; height: number };
+  /**
+   * The image format to send. `"png"` is lossless, `"jpeg"` and `"webp"` are
+   * much smaller.
+   */
+  format: "png" | "jpeg" | "webp";
+  /**
+   * The quality of `"jpeg"` and `"webp"` screenshots, from 1 to 100.
+   */
+  quality: number;
+}
+
+export const DEFAULT_SCREENSHOT_SCALING: ScreenshotScaling = {
+  target: "XGA",
+  format: "jpeg",
+  quality: 80,
+};
+
+/**
+ * The size of a screenshot on the screen, and the size it was sent to the
+ * model at. The model's coordinates are relative to the model size.
+ */
+export interface ScreenshotScale {
+  screenWidth: number;
+  screenHeight: number;
+  modelWidth: number;
+  modelHeight: number;
+}
+
+/**
+ * A computer call whose action was mapped from the model's coordinates to
+ * the screen's. `model_action` is the action as the model emitted it.
+ */
+export type ScaledComputerCall = ResponseComputerToolCall & {
+  model_action?: ComputerAction;
+};
+
+/**
+ * Validates screenshot scaling passed in the configurable fields.
+ *
+ * @param {ScreenshotScaling} scaling The scaling to validate.
+ * @returns {ScreenshotScaling} The scaling.
+ */
+export function validateScreenshotScaling(
+  scaling: ScreenshotScaling,
+): ScreenshotScaling {
+  const { target, format, quality } = scaling;
+  if (typeof target === "string") {
+    if (target !== "native" && !(target in SCREEN_SIZES)) {
+      throw new Error(
+        `screenshotScaling.target must be "native", one of ${Object.keys(SCREEN_SIZES).join(", ")}, or a size`,
+      );
+    }
+  } else if (
+    !Number.isInteger(target?.width) ||
+    !Number.isInteger(target?.height) ||
+    target.width < 1 ||
+    target.height < 1
+  ) {
+    throw new Error(
+      "screenshotScaling.target must have a positive integer width and height",
+    );
+  }
+  if (!["png", "jpeg", "webp"].includes(format)) {
+    throw new Error('screenshotScaling.format must be "png", "jpeg" or "webp"');
+  }
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    throw new Error(
+      "screenshotScaling.quality must be an integer from 1 to 100",
+    );
+  }
+  return scaling;
+}
+
+function isBase64Image(content: unknown): content is string {
+  return typeof content === "string" && content.startsWith("data:image/");
+}
+
+/**
+ * Resizes and re-encodes a single screenshot.
+ *
+ * @param {string} dataUrl The screenshot, as a base64 data URL.
+ * @param {ScreenshotScaling} scaling The scaling to apply.
+ * @returns The scaled screenshot, and its scale.
+ */
+export async function scaleScreenshot(
+  dataUrl: string,
+  scaling: ScreenshotScaling,
+): Promise<{ dataUrl: string; scale: ScreenshotScale }> {
+  const input = Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+  const { width: screenWidth = 0, height: screenHeight = 0 } =
+    await sharp(input).metadata();
+
+  let image = sharp(input);
+  if (scaling.target !== "native") {
+    const size =
+      typeof scaling.target === "string"
+        ? SCREEN_SIZES[scaling.target]
+        : scaling.target;
+    image = image.resize(size.width, size.height, {
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  }
+  if (scaling.format === "png") {
+    image = image.png();
+  } else if (scaling.format === "jpeg") {
+    image = image.jpeg({ quality: scaling.quality });
+  } else {
+    image = image.webp({ quality: scaling.quality });
+  }
+
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  return {
+    dataUrl: `data:image/${scaling.format};base64,${data.toString("base64")}`,
+    scale: {
+      screenWidth,
+      screenHeight,
+      modelWidth: info.width,
+      modelHeight: info.height,
+    },
+  };
+}
+
+/**
+ * Scales every base64 screenshot in the messages. Screenshots which were
+ * pruned, or which are still URLs, are left unchanged.
+ *
+ * @param {BaseMessage[]} messages The messages to send to the model.
+ * @param {ScreenshotScaling} scaling The scaling to apply.
+ * @returns The messages, and the scale of the most recent screenshot, which
+ * the coordinates in the model's response are relative to.
+ */
+export async function scaleScreenshots(
+  messages: BaseMessage[],
+  scaling: ScreenshotScaling,
+): Promise<{ messages: BaseMessage[]; scale: ScreenshotScale | undefined }> {
+  let scale: ScreenshotScale | undefined;
+  const scaled: BaseMessage[] = [];
+  for (const message of messages) {
+    if (
+      !isComputerCallToolMessage(message) ||
+      !isBase64Image(message.content)
+    ) {
+      scaled.push(message);
+      continue;
+    }
+    const result = await scaleScreenshot(message.content, scaling);
+    scale = result.scale;
+    scaled.push(
+      new ToolMessage({
+        id: message.id,
+        tool_call_id: message.tool_call_id,
+        content: result.dataUrl,
+        additional_kwargs: message.additional_kwargs,
+      }),
+    );
+  }
+  return { messages: scaled, scale };
+}
+
+function isIdentityScale(scale: ScreenshotScale): boolean {
+  return (
+    scale.screenWidth === scale.modelWidth &&
+    scale.screenHeight === scale.modelHeight
+  );
+}
+
+function toScreenPoint(
+  point: { x: number; y: number },
+  scale: ScreenshotScale,
+): { x: number; y: number } {
+  const clamp = (value: number, max: number) =>
+    Math.min(Math.max(Math.round(value), 0), max - 1);
+  return {
+    x: clamp(
+      (point.x * scale.screenWidth) / scale.modelWidth,
+      scale.screenWidth,
+    ),
+    y: clamp(
+      (point.y * scale.screenHeight) / scale.modelHeight,
+      scale.screenHeight,
+    ),
+  };
+}
+
+/**
+ * Maps an action from the model's coordinates to the screen's.
+ *
+ * @param {ComputerAction} action The action, in model coordinates.
+ * @param {ScreenshotScale} scale The scale of the screenshot the model saw.
+ * @returns {ComputerAction} The action, in screen coordinates.
+ */
+export function toScreenAction(
+  action: ComputerAction,
+  scale: ScreenshotScale,
+): ComputerAction {
+  switch (action.type) {
+    case "click":
+    case "double_click":
+    case "move":
+    case "scroll":
+      return { ...action, ...toScreenPoint(action, scale) };
+    case "drag":
+      return {
+        ...action,
+        path: action.path.map((point) => toScreenPoint(point, scale)),
+      };
+    default:
+      return action;
+  }
+}
+
+/**
+ * Maps the computer calls on a model response to screen coordinates. The
+ * original actions are kept in `model_action`, so the UI can show both and
+ * the history can be replayed to the model as it emitted it.
+ *
+ * @param {AIMessage} message The model response, with computer calls attached.
+ * @param {ScreenshotScale | undefined} scale The scale of the screenshot the model saw.
+ * @returns {AIMessage} The response to store.
+ */
+export function rescaleComputerCalls(
+  message: AIMessage,
+  scale: ScreenshotScale | undefined,
+): AIMessage {
+  const computerCalls = message.additional_kwargs?.tool_outputs as
+    | ResponseComputerToolCall[]
+    | undefined;
+  if (!scale || isIdentityScale(scale) || !computerCalls?.length) {
+    return message;
+  }
+  return new AIMessage({
+    id: message.id,
+    content: message.content,
+    tool_calls: message.tool_calls,
+    invalid_tool_calls: message.invalid_tool_calls,
+    usage_metadata: message.usage_metadata,
+    response_metadata: message.response_metadata,
+    additional_kwargs: {
+      ...message.additional_kwargs,
+      tool_outputs: computerCalls.map(
+        (call): ScaledComputerCall =>
+          call.type === "computer_call"
+            ? {
+                ...call,
+                action: toScreenAction(call.action, scale),
+                model_action: call.action,
+              }
+            : call,
+      ),
+    },
+  });
+}
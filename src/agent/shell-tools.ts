@@ -0,0 +1,192 @@
+import { AIMessage } from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+
+/**
+ * The name of the function tool models call to run shell commands.
+ */
+export const BASH_TOOL_NAME = "bash";
+
+/**
+ * The name of the function tool models call to view and edit files.
+ */
+export const EDITOR_TOOL_NAME = "str_replace_editor";
+
+export const SHELL_TOOL_NAMES = [BASH_TOOL_NAME, EDITOR_TOOL_NAME] as const;
+
+export type ShellToolName = (typeof SHELL_TOOL_NAMES)[number];
+
+export const EDITOR_COMMANDS = [
+  "view",
+  "create",
+  "str_replace",
+  "insert",
+  "undo_edit",
+] as const;
+
+export type EditorCommand = (typeof EDITOR_COMMANDS)[number];
+
+export interface BashRequest {
+  command?: string;
+  /**
+   * Restarts the shell, e.g. after a command hangs.
+   */
+  restart?: boolean;
+}
+
+export interface EditRequest {
+  command: EditorCommand;
+  path: string;
+  fileText?: string;
+  viewRange?: number[];
+  oldStr?: string;
+  newStr?: string;
+  insertLine?: number;
+}
+
+export interface ShellToolResponse {
+  output?: string;
+  error?: string;
+}
+
+/**
+ * An instance which can run shell commands and edit files. Scrapybara's
+ * Ubuntu instances implement it, and other instance backends can too.
+ */
+export interface ShellInstance {
+  bash(
+    request: BashRequest,
+    requestOptions?: { abortSignal?: AbortSignal },
+  ): Promise<ShellToolResponse>;
+  edit(
+    request: EditRequest,
+    requestOptions?: { abortSignal?: AbortSignal },
+  ): Promise<ShellToolResponse>;
+}
+
+export const isShellInstance = (instance: unknown): instance is ShellInstance =>
+  typeof instance === "object" &&
+  instance !== null &&
+  "bash" in instance &&
+  typeof instance.bash === "function" &&
+  "edit" in instance &&
+  typeof instance.edit === "function";
+
+/**
+ * The result of a shell tool call, shown in the `terminal-output` component.
+ */
+export interface ShellToolResult {
+  toolCallId: string;
+  tool: ShellToolName;
+  /**
+   * The command as it would be typed, e.g. `ls -la` or `view /etc/hosts`.
+   */
+  input: string;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Output longer than this is cut off before it is returned to the model.
+ */
+export const MAX_SHELL_OUTPUT_CHARS = 20_000;
+
+export class ShellToolError extends Error {}
+
+/**
+ * Returns the `bash` and `str_replace_editor` calls in a model response.
+ */
+export function getShellToolCalls(message: AIMessage): ToolCall[] {
+  return (message.tool_calls ?? []).filter((tc) =>
+    SHELL_TOOL_NAMES.includes(tc.name as ShellToolName),
+  );
+}
+
+function validateEditRequest(args: Record<string, unknown>): EditRequest {
+  const command = args.command as EditorCommand;
+  if (!EDITOR_COMMANDS.includes(command)) {
+    throw new ShellToolError(
+      `"command" must be one of: ${EDITOR_COMMANDS.join(", ")}.`,
+    );
+  }
+  if (typeof args.path !== "string" || !args.path.startsWith("/")) {
+    throw new ShellToolError(`"path" must be an absolute path.`);
+  }
+  const required: Partial<Record<EditorCommand, string[]>> = {
+    create: ["file_text"],
+    str_replace: ["old_str"],
+    insert: ["insert_line", "new_str"],
+  };
+  for (const key of required[command] ?? []) {
+    if (args[key] === undefined) {
+      throw new ShellToolError(`"${key}" is required for "${command}".`);
+    }
+  }
+  return {
+    command,
+    path: args.path,
+    fileText: args.file_text as string | undefined,
+    viewRange: args.view_range as number[] | undefined,
+    oldStr: args.old_str as string | undefined,
+    newStr: args.new_str as string | undefined,
+    insertLine: args.insert_line as number | undefined,
+  };
+}
+
+/**
+ * Describes a shell tool call the way it would be typed into a terminal.
+ */
+export function formatShellToolInput(toolCall: ToolCall): string {
+  const args = toolCall.args ?? {};
+  if (toolCall.name === BASH_TOOL_NAME) {
+    return args.restart ? "(restart)" : String(args.command ?? "");
+  }
+  return [args.command, args.path].filter(Boolean).join(" ");
+}
+
+function truncate(text: string | undefined): string | undefined {
+  if (!text || text.length <= MAX_SHELL_OUTPUT_CHARS) {
+    return text;
+  }
+  return `${text.slice(0, MAX_SHELL_OUTPUT_CHARS)}\n[Output truncated after ${MAX_SHELL_OUTPUT_CHARS} characters.]`;
+}
+
+/**
+ * Runs a `bash` or `str_replace_editor` call against the instance.
+ *
+ * @param {ShellInstance} instance The instance to run the call on.
+ * @param {ToolCall} toolCall The tool call emitted by the model.
+ * @param {AbortSignal} signal Aborted when the run is cancelled.
+ * @returns {Promise<ShellToolResult>} The output of the call, truncated to
+ * `MAX_SHELL_OUTPUT_CHARS`.
+ * @throws {ShellToolError} If the arguments of the call are invalid.
+ */
+export async function runShellToolCall(
+  instance: ShellInstance,
+  toolCall: ToolCall,
+  signal?: AbortSignal,
+): Promise<ShellToolResult> {
+  const args = (toolCall.args ?? {}) as Record<string, unknown>;
+  let response: ShellToolResponse;
+  if (toolCall.name === BASH_TOOL_NAME) {
+    if (args.restart !== true && typeof args.command !== "string") {
+      throw new ShellToolError(`"command" must be a string.`);
+    }
+    response = await instance.bash(
+      args.restart === true
+        ? { restart: true }
+        : { command: args.command as string },
+      { abortSignal: signal },
+    );
+  } else {
+    response = await instance.edit(validateEditRequest(args), {
+      abortSignal: signal,
+    });
+  }
+  return {
+    toolCallId: toolCall.id as string,
+    tool: toolCall.name as ShellToolName,
+    input: formatShellToolInput(toolCall),
+    output: truncate(response.output),
+    error: truncate(response.error),
+  };
+}
@@ -0,0 +1,454 @@
+import {
+  AIMessage,
+  BaseMessage,
+  isAIMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import type { BaseStore } from "@langchain/langgraph";
+import { CUAEnvironment } from "@langchain/langgraph-cua";
+import sharp from "sharp";
+import { ComputerAction, getComputerCall } from "./computer-actions";
+import { REJECTED_ACTION_KEY } from "./verification";
+
+/**
+ * The name of the function tool models call to replay a saved skill.
+ */
+export const RUN_SKILL_TOOL_NAME = "run_skill";
+
+/**
+ * The namespace skills are saved under in the LangGraph store, keyed by
+ * their name.
+ */
+export const SKILLS_NAMESPACE = ["skills"];
+
+const SKILL_NAME_PATTERN = /^[\w-]+$/;
+
+const PARAMETER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * The side of the grid screens are shrunk to before they are compared.
+ */
+const SCREEN_HASH_SIZE = 16;
+
+/**
+ * The share of a screen's hash which may differ from the one recorded before
+ * a step, for the step to run.
+ */
+export const MAX_SCREEN_DIFFERENCE = 0.15;
+
+/**
+ * A recorded action. Typed text may contain `{{name}}` parameters.
+ */
+export interface SkillStep {
+  action: ComputerAction;
+  /**
+   * A hash of the screen before the action was recorded. Replays stop if the
+   * screen before the step differs too much from it. Unset if there was no
+   * screenshot before the action.
+   */
+  screenHash?: string;
+}
+
+/**
+ * Text typed while the skill was recorded, which can be replaced when it is
+ * replayed.
+ */
+export interface SkillParameter {
+  name: string;
+  /**
+   * Where the text is typed, e.g. `Typed at step 3`.
+   */
+  description: string;
+  /**
+   * The text typed when the skill was recorded, used when no value is passed.
+   */
+  default: string;
+}
+
+/**
+ * A sequence of computer actions saved from a thread, which can be replayed
+ * without calling the model.
+ */
+export interface Skill {
+  name: string;
+  description?: string;
+  /**
+   * The environment the skill was recorded in. Skills only replay in the same
+   * environment.
+   */
+  environment: CUAEnvironment;
+  parameters: SkillParameter[];
+  steps: SkillStep[];
+  createdAt: string;
+}
+
+/**
+ * What the model is told about a skill, in the `run_skill` tool.
+ */
+export type SkillSummary = Pick<Skill, "name" | "description" | "parameters">;
+
+/**
+ * The key of a `SaveSkillRequest` in a run's metadata. Unlike configurable
+ * fields, run metadata is not kept on the thread, so the thread's later runs
+ * do not save the skill again.
+ */
+export const SAVE_SKILL_METADATA_KEY = "save_skill";
+
+/**
+ * The key of a `ReplaySkillRequest` in a run's metadata, which is not kept on
+ * the thread either.
+ */
+export const REPLAY_SKILL_METADATA_KEY = "replay_skill";
+
+/**
+ * Set in the run's metadata, under `SAVE_SKILL_METADATA_KEY`, to save the
+ * thread's actions as a skill, instead of calling the model.
+ */
+export interface SaveSkillRequest {
+  name: string;
+  description?: string;
+  /**
+   * The ID of the last message whose actions are saved. Every action in the
+   * thread is saved if unset.
+   */
+  messageId?: string;
+}
+
+/**
+ * Set in the run's metadata, under `REPLAY_SKILL_METADATA_KEY`, to replay a
+ * skill, instead of calling the model. Also the arguments of a `run_skill`
+ * call.
+ */
+export interface ReplaySkillRequest {
+  name: string;
+  /**
+   * Values for the skill's parameters, by name. Parameters left out are
+   * typed as they were recorded.
+   */
+  params?: Record<string, string>;
+}
+
+/**
+ * How far a replay has got, shown in the `skill-replay` component.
+ */
+export interface SkillReplayProgress {
+  name: string;
+  /**
+   * Each step, as a short sentence.
+   */
+  steps: string[];
+  /**
+   * The number of steps taken.
+   */
+  completed: number;
+  status: "running" | "completed" | "stopped";
+  /**
+   * Why the replay stopped before the last step.
+   */
+  reason?: string;
+  /**
+   * The screen once the replay ended, as a URL or data URL.
+   */
+  screenshot?: string;
+}
+
+export class SkillError extends Error {}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Validates `metadata.save_skill`.
+ *
+ * @param {unknown} request The request from the run's metadata.
+ * @returns {SaveSkillRequest | undefined} The request, if one was set.
+ */
+export function validateSaveSkillRequest(
+  request: unknown,
+): SaveSkillRequest | undefined {
+  if (request === undefined || request === null) {
+    return undefined;
+  }
+  const value = request as Partial<Record<string, unknown>>;
+  if (typeof value.name !== "string" || !SKILL_NAME_PATTERN.test(value.name)) {
+    throw new Error(
+      `${SAVE_SKILL_METADATA_KEY}.name must contain only letters, digits, '-' and '_'`,
+    );
+  }
+  for (const key of ["description", "messageId"] as const) {
+    if (value[key] !== undefined && typeof value[key] !== "string") {
+      throw new Error(`${SAVE_SKILL_METADATA_KEY}.${key} must be a string`);
+    }
+  }
+  return {
+    name: value.name,
+    description: (value.description as string | undefined)?.trim() || undefined,
+    messageId: (value.messageId as string | undefined) || undefined,
+  };
+}
+
+/**
+ * Validates the arguments of a `run_skill` call.
+ *
+ * @param {unknown} args The arguments emitted by the model.
+ * @returns {ReplaySkillRequest | string} The request, or why the arguments are invalid.
+ */
+export function parseReplaySkillRequest(
+  args: unknown,
+): ReplaySkillRequest | string {
+  const { name, params } = (args ?? {}) as Partial<Record<string, unknown>>;
+  if (typeof name !== "string" || !SKILL_NAME_PATTERN.test(name)) {
+    return `"name" must be the name of a saved skill.`;
+  }
+  if (params !== undefined && !isStringRecord(params)) {
+    return `"params" must map parameter names to text.`;
+  }
+  return { name, params };
+}
+
+/**
+ * Validates `metadata.replay_skill`.
+ *
+ * @param {unknown} request The request from the run's metadata.
+ * @returns {ReplaySkillRequest | undefined} The request, if one was set.
+ */
+export function validateReplaySkillRequest(
+  request: unknown,
+): ReplaySkillRequest | undefined {
+  if (request === undefined || request === null) {
+    return undefined;
+  }
+  const parsed = parseReplaySkillRequest(request);
+  if (typeof parsed === "string") {
+    throw new Error(`${REPLAY_SKILL_METADATA_KEY} is invalid: ${parsed}`);
+  }
+  return parsed;
+}
+
+/**
+ * Returns the `run_skill` calls in a model response.
+ */
+export function getRunSkillCalls(message: AIMessage): ToolCall[] {
+  return (message.tool_calls ?? []).filter(
+    (tc) => tc.name === RUN_SKILL_TOOL_NAME,
+  );
+}
+
+/**
+ * Lists the saved skills.
+ *
+ * @param {BaseStore | undefined} store The store of the graph, if it has one.
+ * @returns {Promise<Skill[]>} The skills. None if the graph has no store.
+ */
+export async function listSkills(
+  store: BaseStore | undefined,
+): Promise<Skill[]> {
+  if (!store) {
+    return [];
+  }
+  const items = await store.search(SKILLS_NAMESPACE, { limit: 100 });
+  return items.map((item) => item.value as Skill);
+}
+
+/**
+ * Loads a saved skill by name.
+ *
+ * @returns {Promise<Skill | undefined>} The skill, if there is one by that name.
+ */
+export async function loadSkill(
+  store: BaseStore | undefined,
+  name: string,
+): Promise<Skill | undefined> {
+  const item = await store?.get(SKILLS_NAMESPACE, name);
+  return item?.value as Skill | undefined;
+}
+
+/**
+ * Saves a skill, replacing any skill with the same name.
+ */
+export async function storeSkill(
+  store: BaseStore | undefined,
+  skill: Skill,
+): Promise<void> {
+  if (!store) {
+    throw new Error(
+      "Can not save skills, because the graph was compiled without a store.",
+    );
+  }
+  await store.put(SKILLS_NAMESPACE, skill.name, skill, false);
+}
+
+/**
+ * Whether a tool message is the screenshot of an action which was taken.
+ */
+function isTakenAction(message: BaseMessage, callId: string): boolean {
+  const toolMessage = message as ToolMessage;
+  return (
+    toolMessage.getType() === "tool" &&
+    toolMessage.tool_call_id === callId &&
+    toolMessage.additional_kwargs?.type === "computer_call_output" &&
+    toolMessage.status !== "error" &&
+    !toolMessage.additional_kwargs?.[REJECTED_ACTION_KEY]
+  );
+}
+
+/**
+ * Collects the computer actions taken in a thread, in order, with the
+ * screenshot shown before each of them. Actions which were refused, failed
+ * or never ran are left out, as are screenshots, which change nothing.
+ *
+ * @param {BaseMessage[]} messages The thread's messages.
+ * @returns The actions, and the screenshot before each, as a URL or data URL.
+ */
+export function getTakenActions(
+  messages: BaseMessage[],
+): { action: ComputerAction; screenshot?: string }[] {
+  const actions: { action: ComputerAction; screenshot?: string }[] = [];
+  let screenshot: string | undefined;
+  messages.forEach((message, index) => {
+    if (
+      message.getType() === "tool" &&
+      message.additional_kwargs?.type === "computer_call_output" &&
+      typeof message.content === "string"
+    ) {
+      screenshot = message.content;
+      return;
+    }
+    if (!isAIMessage(message)) {
+      return;
+    }
+    const call = getComputerCall(message);
+    if (
+      !call ||
+      call.action.type === "screenshot" ||
+      !messages.slice(index + 1).some((m) => isTakenAction(m, call.call_id))
+    ) {
+      return;
+    }
+    actions.push({ action: call.action, screenshot });
+  });
+  return actions;
+}
+
+/**
+ * Turns the text of each `type` action into a parameter, so it can be
+ * replaced when the skill is replayed. The same text typed twice is one
+ * parameter.
+ *
+ * @param {ComputerAction[]} actions The recorded actions.
+ * @returns The actions, with `{{name}}` in place of typed text, and the parameters.
+ */
+export function extractParameters(actions: ComputerAction[]): {
+  actions: ComputerAction[];
+  parameters: SkillParameter[];
+} {
+  const parameters: SkillParameter[] = [];
+  const parameterized = actions.map((action, index) => {
+    if (action.type !== "type" || !action.text) {
+      return action;
+    }
+    let parameter = parameters.find((p) => p.default === action.text);
+    if (!parameter) {
+      parameter = {
+        name: `text${parameters.length + 1}`,
+        description: `Typed at step ${index + 1}`,
+        default: action.text,
+      };
+      parameters.push(parameter);
+    }
+    return { ...action, text: `{{${parameter.name}}}` };
+  });
+  return { actions: parameterized, parameters };
+}
+
+/**
+ * Fills the values of a skill's parameters into its typed text.
+ *
+ * @param {Skill} skill The skill.
+ * @param {Record<string, string>} params Values for the parameters, by name.
+ * @returns {ComputerAction[]} The actions to replay.
+ */
+export function fillParameters(
+  skill: Skill,
+  params: Record<string, string> = {},
+): ComputerAction[] {
+  const names = skill.parameters.map((p) => p.name);
+  const unknown = Object.keys(params).filter((name) => !names.includes(name));
+  if (unknown.length) {
+    throw new SkillError(
+      `Skill "${skill.name}" has no parameters named ${unknown.join(", ")}. Its parameters are: ${names.join(", ") || "none"}.`,
+    );
+  }
+  const values = Object.fromEntries(
+    skill.parameters.map((p) => [p.name, params[p.name] ?? p.default]),
+  );
+  return skill.steps.map(({ action }) =>
+    action.type === "type"
+      ? {
+          ...action,
+          text: action.text.replace(
+            PARAMETER_PATTERN,
+            (match, name: string) => values[name] ?? match,
+          ),
+        }
+      : action,
+  );
+}
+
+/**
+ * Hashes a screenshot by whether each cell of a small greyscale grid is
+ * brighter than the next, so similar screens have similar hashes, however
+ * they were encoded.
+ *
+ * @param {string} screenshot The screenshot, as base64 or a data URL.
+ * @returns {Promise<string>} The hash, in hex.
+ */
+export async function getScreenHash(screenshot: string): Promise<string> {
+  const input = Buffer.from(
+    screenshot.replace(/^data:image\/\w+;base64,/, ""),
+    "base64",
+  );
+  const pixels = await sharp(input)
+    .greyscale()
+    .resize(SCREEN_HASH_SIZE + 1, SCREEN_HASH_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  let hash = "";
+  for (let nibble = 0; nibble < SCREEN_HASH_SIZE ** 2 / 4; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      const cell = nibble * 4 + bit;
+      const offset =
+        Math.floor(cell / SCREEN_HASH_SIZE) * (SCREEN_HASH_SIZE + 1) +
+        (cell % SCREEN_HASH_SIZE);
+      value = (value << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+    }
+    hash += value.toString(16);
+  }
+  return hash;
+}
+
+/**
+ * The share of bits which differ between two screen hashes, from 0 to 1.
+ */
+export function getScreenDifference(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return 1;
+  }
+  let differing = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      differing += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return differing / (a.length * 4);
+}
@@ -0,0 +1,119 @@
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { Annotation } from "@langchain/langgraph";
+
+/**
+ * The name of the function tool models call to end the task with a result.
+ */
+export const FINISH_TASK_TOOL_NAME = "finish_task";
+
+export const TASK_STATUSES = ["success", "failure", "blocked"] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+/**
+ * The outcome of a run, as reported by the model with the `finish_task` tool.
+ */
+export interface TaskResult {
+  /**
+   * `"blocked"` means the task needs something only the user can provide,
+   * such as credentials or a decision.
+   */
+  status: TaskStatus;
+  summary: string;
+  /**
+   * Structured data the task produced, e.g. values read from the screen.
+   */
+  result?: unknown;
+}
+
+/**
+ * The result of the current run. Reset when a run starts, so it is null until
+ * the model calls `finish_task`.
+ */
+export const TaskResultAnnotation = Annotation<TaskResult | null>({
+  reducer: (_state, update) => update,
+  default: () => null,
+});
+
+export type TaskResultState = {
+  taskResult?: TaskResult | null;
+};
+
+/**
+ * Validates the arguments of a `finish_task` call.
+ *
+ * @param {unknown} args The arguments emitted by the model.
+ * @returns {TaskResult | string} The task result, or why the arguments are invalid.
+ */
+function parseTaskResult(args: unknown): TaskResult | string {
+  const { status, summary, result } = (args ?? {}) as Partial<TaskResult>;
+  if (!TASK_STATUSES.includes(status as TaskStatus)) {
+    return `"status" must be one of: ${TASK_STATUSES.join(", ")}.`;
+  }
+  if (typeof summary !== "string" || !summary.trim()) {
+    return `"summary" must be a non-empty string.`;
+  }
+  return {
+    status: status as TaskStatus,
+    summary: summary.trim(),
+    ...(result !== undefined ? { result } : {}),
+  };
+}
+
+/**
+ * Reads a `finish_task` call from a model response. Every tool call in the
+ * response is answered, since the run ends without taking any other action.
+ * If the call is invalid, the tool messages say why, so the model can call
+ * it again.
+ *
+ * @param {AIMessage} message The model response.
+ * @returns The task result, if the call was valid, and the tool messages to
+ * append after the response. Undefined if the model did not call `finish_task`.
+ */
+export function getFinishTaskCall(
+  message: AIMessage,
+): { taskResult?: TaskResult; toolMessages: ToolMessage[] } | undefined {
+  const finishCall = message.tool_calls?.find(
+    (tc) => tc.name === FINISH_TASK_TOOL_NAME,
+  );
+  const finishCallId = finishCall?.id;
+  if (!finishCallId) {
+    return undefined;
+  }
+  const parsed = parseTaskResult(finishCall.args);
+  const taskResult = typeof parsed === "string" ? undefined : parsed;
+
+  const toolMessages = (message.tool_calls ?? []).map((tc) => {
+    if (tc.id !== finishCallId) {
+      return new ToolMessage({
+        tool_call_id: tc.id as string,
+        name: tc.name,
+        status: "error",
+        content: "This action was not taken, because finish_task was called.",
+      });
+    }
+    return new ToolMessage({
+      tool_call_id: finishCallId,
+      name: FINISH_TASK_TOOL_NAME,
+      status: taskResult ? "success" : "error",
+      content: taskResult
+        ? `The task was finished with status "${taskResult.status}".`
+        : `Invalid finish_task call: ${parsed} The task was not finished.`,
+    });
+  });
+  return { taskResult, toolMessages };
+}
+
+/**
+ * Whether a message is the answer to a valid `finish_task` call, which ends
+ * the run.
+ */
+export function isFinishTaskToolMessage(
+  message: BaseMessage | undefined,
+): boolean {
+  return (
+    message?.getType() === "tool" &&
+    (message as ToolMessage).name === FINISH_TASK_TOOL_NAME &&
+    (message as ToolMessage).status !== "error"
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import "./styles.css";
+import { Hand } from "lucide-react";
+import { useState } from "react";
+import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import type {
+  ApprovalCall,
+  ApprovalDecision,
+  ApprovalRequest,
+} from "../approval";
+
+type ActionApprovalMeta = {
+  /**
+   * The configurable fields of the run which paused, passed on to the run
+   * which resumes it.
+   */
+  configurable?: Record<string, unknown>;
+};
+
+const TOOL_LABELS = {
+  computer: "Computer action",
+  bash: "Shell command",
+  str_replace_editor: "File edit",
+  run_skill: "Skill",
+};
+
+function formatArgs(args: ApprovalCall["args"]): string {
+  return JSON.stringify(args, null, 2);
+}
+
+export function ActionApproval({
+  calls,
+  reasons,
+  reasoning,
+  screenshot,
+}: ApprovalRequest) {
+  const thread = useStreamContext<
+    Record<string, unknown>,
+    { MetaType: ActionApprovalMeta }
+  >();
+  const [mode, setMode] = useState<"review" | "edit" | "reject">("review");
+  const [edits, setEdits] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      calls.map((call) => [call.toolCallId, formatArgs(call.args)]),
+    ),
+  );
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState<string>();
+  const [submitted, setSubmitted] = useState(false);
+
+  const resume = (decision: ApprovalDecision) => {
+    setSubmitted(true);
+    thread.submit(undefined, {
+      command: { resume: decision },
+      streamMode: ["values"],
+      config: { configurable: thread.meta?.configurable },
+    });
+  };
+
+  const submitEdits = () => {
+    const args: Record<string, Record<string, unknown>> = {};
+    for (const call of calls) {
+      const text = edits[call.toolCallId];
+      if (text === formatArgs(call.args)) continue;
+      try {
+        const parsed = JSON.parse(text);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+          throw new Error("must be a JSON object");
+        }
+        args[call.toolCallId] = parsed;
+      } catch (e) {
+        setError(`${TOOL_LABELS[call.tool]}: ${(e as Error).message}`);
+        return;
+      }
+    }
+    resume(
+      Object.keys(args).length
+        ? { decision: "edit", args }
+        : { decision: "approve" },
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] border border-amber-200 rounded-md bg-amber-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 w-full px-3 py-2 border-b-[1px] border-amber-200">
+        <Hand className="w-4 h-4 text-amber-600" />
+        <p className="text-sm font-medium">Approval needed</p>
+      </div>
+      <div className="flex flex-col gap-2 w-full px-3 pb-2 text-sm">
+        <ul className="list-disc pl-4 text-amber-800">
+          {reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+        {reasoning && <p className="text-gray-600">{reasoning}</p>}
+        {screenshot && (
+          <img
+            src={screenshot}
+            alt="The screen before the action"
+            className="w-full rounded border border-gray-200"
+          />
+        )}
+        {calls.map((call) => (
+          <div key={call.toolCallId} className="flex flex-col gap-1">
+            <p className="text-xs font-medium text-gray-500">
+              {TOOL_LABELS[call.tool]}
+            </p>
+            {mode === "edit" ? (
+              <textarea
+                className="w-full min-h-24 p-2 font-mono text-xs border rounded bg-white"
+                value={edits[call.toolCallId]}
+                onChange={(e) =>
+                  setEdits({ ...edits, [call.toolCallId]: e.target.value })
+                }
+              />
+            ) : (
+              <pre className="p-2 font-mono text-xs whitespace-pre-wrap break-all border rounded bg-white">
+                {call.input}
+              </pre>
+            )}
+          </div>
+        ))}
+        {mode === "reject" && (
+          <input
+            className="w-full p-2 text-sm border rounded bg-white"
+            placeholder="Why? The reason is sent to the model (optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="flex gap-2 justify-end w-full">
+          {mode === "review" ? (
+            <>
+              <button
+                disabled={submitted}
+                onClick={() => setMode("reject")}
+                className="px-3 py-1 text-sm border rounded text-red-700 border-red-200 bg-white disabled:opacity-50"
+              >
+                Reject
+              </button>
+              <button
+                disabled={submitted}
+                onClick={() => setMode("edit")}
+                className="px-3 py-1 text-sm border rounded bg-white disabled:opacity-50"
+              >
+                Edit
+              </button>
+              <button
+                disabled={submitted}
+                onClick={() => resume({ decision: "approve" })}
+                className="px-3 py-1 text-sm border rounded text-white bg-green-600 border-green-600 disabled:opacity-50"
+              >
+                Approve
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                disabled={submitted}
+                onClick={() => {
+                  setMode("review");
+                  setError(undefined);
+                }}
+                className="px-3 py-1 text-sm border rounded bg-white disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                disabled={submitted}
+                onClick={() =>
+                  mode === "edit"
+                    ? submitEdits()
+                    : resume({
+                        decision: "reject",
+                        reason: reason.trim() || undefined,
+                      })
+                }
+                className={`px-3 py-1 text-sm border rounded text-white disabled:opacity-50 ${
+                  mode === "edit"
+                    ? "bg-green-600 border-green-600"
+                    : "bg-red-600 border-red-600"
+                }`}
+              >
+                {mode === "edit" ? "Run edited" : "Reject"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
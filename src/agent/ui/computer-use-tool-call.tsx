@@ -12,13 +12,54 @@ import {
   Type as TypeIcon,
   Mouse,
   KeyRound,
+  ShieldAlert,
+  ShieldBan,
+  ShieldCheck,
+  ShieldX,
+  UserCheck,
+  UserPen,
+  UserX,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import type { ActionVerification } from "../verification";
+import type { ApprovalOutcome } from "../approval";
+import type { SafetyCheck } from "../safety-checks";
 
 interface ComputerUseToolCallProps {
   toolCallId: string;
   action: ResponseComputerToolCall["action"];
+  /**
+   * The action as the model emitted it, if its coordinates were mapped from
+   * a scaled screenshot to the screen.
+   */
+  modelAction?: ResponseComputerToolCall["action"];
+  /**
+   * The verifier's verdict on the action, if it was verified.
+   */
+  verification?: ActionVerification;
+  /**
+   * How the user answered, if the action needed their approval.
+   */
+  approval?: ApprovalOutcome;
+  /**
+   * Why the action policy refused the action, if it did.
+   */
+  policyViolation?: string;
+  /**
+   * The safety checks the model provider raised on the action, if any.
+   */
+  safetyChecks?: SafetyCheck[];
+  /**
+   * Whether the user acknowledged the safety checks. The action is only
+   * taken if they did.
+   */
+  safetyChecksAcknowledged?: boolean;
+  /**
+   * Whether the model is still generating the action. Streaming actions
+   * are previews, and may be incomplete.
+   */
+  streaming?: boolean;
 }
 
 function WaitCountdown({ toolCallId }: { toolCallId: string }) {
@@ -65,8 +106,193 @@ function WaitCountdown({ toolCallId }: { toolCallId: string }) {
   );
 }
 
+function getPoints(
+  action: ResponseComputerToolCall["action"],
+): { x: number; y: number }[] {
+  switch (action.type) {
+    case "click":
+    case "double_click":
+    case "move":
+    case "scroll":
+      return [{ x: action.x, y: action.y }];
+    case "drag":
+      return action.path;
+    default:
+      return [];
+  }
+}
+
+function formatPoints(points: { x: number; y: number }[]): string {
+  return points.map(({ x, y }) => `(${x}, ${y})`).join(" → ");
+}
+
+/**
+ * Shows where an action lands on the screen, and where the model pointed on
+ * the scaled screenshot it was sent.
+ */
+function ScaledCoordinates({
+  action,
+  modelAction,
+}: {
+  action: ResponseComputerToolCall["action"];
+  modelAction: ResponseComputerToolCall["action"];
+}) {
+  const screenPoints = getPoints(action);
+  if (!screenPoints.length) return null;
+  return (
+    <p className="text-xs text-gray-500 mt-1">
+      Screen: {formatPoints(screenPoints)} · Model:{" "}
+      {formatPoints(getPoints(modelAction))}
+    </p>
+  );
+}
+
+const VERDICT_BADGES = {
+  approved: {
+    label: "Approved",
+    icon: ShieldCheck,
+    className: "text-green-700 bg-green-50 border-green-200",
+  },
+  corrected: {
+    label: "Corrected",
+    icon: ShieldAlert,
+    className: "text-amber-700 bg-amber-50 border-amber-200",
+  },
+  rejected: {
+    label: "Rejected",
+    icon: ShieldX,
+    className: "text-red-700 bg-red-50 border-red-200",
+  },
+};
+
+function VerdictBadge({ verification }: { verification: ActionVerification }) {
+  const badge = VERDICT_BADGES[verification.verdict];
+  const Icon = badge.icon;
+  return (
+    <p
+      className={`flex items-center gap-1 text-xs px-1.5 py-0.5 border rounded shrink-0 ${badge.className}`}
+      title={verification.critique}
+    >
+      <Icon className="w-3 h-3" />
+      {badge.label}
+    </p>
+  );
+}
+
+/**
+ * Shows why the verifier corrected or rejected the action, and where a
+ * corrected action originally pointed.
+ */
+function VerificationDetails({
+  verification,
+}: {
+  verification: ActionVerification;
+}) {
+  if (verification.verdict === "approved") return null;
+  const originalPoints = verification.originalAction
+    ? getPoints(verification.originalAction)
+    : [];
+  return (
+    <div className="text-xs text-gray-500 mt-1">
+      {originalPoints.length > 0 && (
+        <p>Proposed: {formatPoints(originalPoints)}</p>
+      )}
+      {verification.critique && <p>Verifier: {verification.critique}</p>}
+    </div>
+  );
+}
+
+const APPROVAL_BADGES = {
+  approved: {
+    label: "Approved by you",
+    icon: UserCheck,
+    className: "text-green-700 bg-green-50 border-green-200",
+  },
+  edited: {
+    label: "Edited by you",
+    icon: UserPen,
+    className: "text-amber-700 bg-amber-50 border-amber-200",
+  },
+  rejected: {
+    label: "Rejected by you",
+    icon: UserX,
+    className: "text-red-700 bg-red-50 border-red-200",
+  },
+};
+
+function ApprovalBadge({ approval }: { approval: ApprovalOutcome }) {
+  const badge = APPROVAL_BADGES[approval];
+  const Icon = badge.icon;
+  return (
+    <p
+      className={`flex items-center gap-1 text-xs px-1.5 py-0.5 border rounded shrink-0 ${badge.className}`}
+    >
+      <Icon className="w-3 h-3" />
+      {badge.label}
+    </p>
+  );
+}
+
+function PolicyBadge({ violation }: { violation: string }) {
+  return (
+    <p
+      className="flex items-center gap-1 text-xs px-1.5 py-0.5 border rounded shrink-0 text-red-700 bg-red-50 border-red-200"
+      title={violation}
+    >
+      <ShieldBan className="w-3 h-3" />
+      Blocked by policy
+    </p>
+  );
+}
+
+/**
+ * Lists the safety checks raised on the action, and whether the user
+ * acknowledged them.
+ */
+function SafetyChecks({
+  checks,
+  acknowledged,
+}: {
+  checks: SafetyCheck[];
+  acknowledged?: boolean;
+}) {
+  return (
+    <div className="text-xs text-gray-500 mt-1">
+      <p className="flex items-center gap-1">
+        <ShieldAlert className="w-3 h-3 text-amber-500" />
+        {acknowledged
+          ? "Safety checks acknowledged by you:"
+          : "Safety checks not acknowledged, so the action was not taken:"}
+      </p>
+      <ul className="pl-4 list-disc">
+        {checks.map((check) => (
+          <li key={check.id}>
+            <span className="font-mono">{check.code}</span>: {check.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function StreamingBadge() {
+  return (
+    <p className="text-xs text-gray-500 animate-pulse shrink-0">Generating…</p>
+  );
+}
+
 export function ComputerUseToolCall(props: ComputerUseToolCallProps) {
-  const { toolCallId, action } = props;
+  const {
+    toolCallId,
+    action,
+    modelAction,
+    verification,
+    approval,
+    policyViolation,
+    safetyChecks,
+    safetyChecksAcknowledged,
+    streaming,
+  } = props;
 
   const renderActionContent = () => {
     switch (action.type) {
@@ -139,25 +365,25 @@ export function ComputerUseToolCall(props: ComputerUseToolCallProps) {
         return (
           <div className="flex items-center justify-start gap-2">
             <TypeIcon className="w-4 h-4 text-teal-500" />
-            <p>Type: "{action.text}"</p>
+            {streaming ? (
+              <p>Typing: "{action.text}…"</p>
+            ) : (
+              <p>Type: "{action.text}"</p>
+            )}
           </div>
         );
       case "wait":
-        return <WaitCountdown toolCallId={toolCallId} />;
-      default: {
-        // Handle PendingSafetyCheck or any other cases
-        const pendingCheck =
-          action as unknown as ResponseComputerToolCall.PendingSafetyCheck;
-        if ("code" in pendingCheck && "message" in pendingCheck) {
+        if (streaming) {
           return (
             <div className="flex items-center justify-start gap-2">
-              <span className="text-yellow-500">⚠️</span>
-              <p>Safety check: {pendingCheck.message}</p>
+              <Clock className="w-4 h-4 text-gray-400" />
+              <p>Wait</p>
             </div>
           );
         }
+        return <WaitCountdown toolCallId={toolCallId} />;
+      default:
         return <span>Unknown action</span>;
-      }
     }
   };
 
@@ -168,6 +394,10 @@ export function ComputerUseToolCall(props: ComputerUseToolCallProps) {
         {/* Mobile layout: Title in first row */}
         <div className="flex justify-between items-center w-full lg:hidden">
           <p className="text-sm font-medium">Computer Action</p>
+          {streaming && <StreamingBadge />}
+          {verification && <VerdictBadge verification={verification} />}
+          {approval && <ApprovalBadge approval={approval} />}
+          {policyViolation && <PolicyBadge violation={policyViolation} />}
         </div>
 
         {/* Desktop layout: Title and ID on left */}
@@ -176,6 +406,10 @@ export function ComputerUseToolCall(props: ComputerUseToolCallProps) {
           <p className="text-xs font-light text-gray-500 truncate">
             {toolCallId}
           </p>
+          {streaming && <StreamingBadge />}
+          {verification && <VerdictBadge verification={verification} />}
+          {approval && <ApprovalBadge approval={approval} />}
+          {policyViolation && <PolicyBadge violation={policyViolation} />}
         </div>
 
         {/* Mobile only: Tool call ID in second row */}
@@ -183,7 +417,24 @@ export function ComputerUseToolCall(props: ComputerUseToolCallProps) {
           {toolCallId}
         </p>
       </div>
-      <div className="w-full px-3 pb-2">{renderActionContent()}</div>
+      <div className="w-full px-3 pb-2">
+        {renderActionContent()}
+        {modelAction && (
+          <ScaledCoordinates action={action} modelAction={modelAction} />
+        )}
+        {verification && <VerificationDetails verification={verification} />}
+        {!!safetyChecks?.length && (
+          <SafetyChecks
+            checks={safetyChecks}
+            acknowledged={safetyChecksAcknowledged}
+          />
+        )}
+        {policyViolation && (
+          <p className="text-xs text-gray-500 mt-1">
+            Policy: {policyViolation}
+          </p>
+        )}
+      </div>
     </div>
   );
 }
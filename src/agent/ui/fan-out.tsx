@@ -0,0 +1,207 @@
+"use client";
+
+import "./styles.css";
+import {
+  Ban,
+  CheckCircle2,
+  Circle,
+  CircleAlert,
+  CirclePause,
+  CircleSlash,
+  LoaderCircle,
+  XCircle,
+} from "lucide-react";
+import { Fragment, useState } from "react";
+import { useQueryState } from "nuqs";
+import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import type { FanOutProgress, SubRun } from "../fan-out";
+
+type FanOutMeta = {
+  /**
+   * Cancels the fan-out run, which cancels its sub-runs. Only passed while
+   * the fan-out runs.
+   */
+  onCancel?: () => void;
+};
+
+const STATUS_BADGES = {
+  pending: { label: "Pending", icon: Circle, className: "text-gray-500" },
+  running: {
+    label: "Running",
+    icon: LoaderCircle,
+    className: "text-blue-600 [&>svg]:animate-spin",
+  },
+  success: {
+    label: "Succeeded",
+    icon: CheckCircle2,
+    className: "text-green-700",
+  },
+  failure: { label: "Failed", icon: XCircle, className: "text-red-700" },
+  blocked: { label: "Blocked", icon: Ban, className: "text-amber-700" },
+  finished: {
+    label: "No result",
+    icon: CircleSlash,
+    className: "text-gray-500",
+  },
+  interrupted: {
+    label: "Waiting for you",
+    icon: CirclePause,
+    className: "text-amber-700",
+  },
+  cancelled: {
+    label: "Cancelled",
+    icon: CircleSlash,
+    className: "text-gray-500",
+  },
+  error: { label: "Error", icon: CircleAlert, className: "text-red-700" },
+};
+
+function StatusBadge({ subRun }: { subRun: SubRun }) {
+  const badge =
+    STATUS_BADGES[
+      subRun.status === "finished" && subRun.taskResult
+        ? subRun.taskResult.status
+        : subRun.status
+    ];
+  const Icon = badge.icon;
+  return (
+    <span
+      className={`flex items-center gap-1 text-xs whitespace-nowrap ${badge.className}`}
+    >
+      <Icon className="w-3 h-3 shrink-0" />
+      {badge.label}
+    </span>
+  );
+}
+
+function SubRunResult({ subRun }: { subRun: SubRun }) {
+  if (subRun.error) {
+    return <p className="text-red-700">{subRun.error}</p>;
+  }
+  if (!subRun.taskResult) {
+    return null;
+  }
+  const { summary, result } = subRun.taskResult;
+  return (
+    <>
+      <p>{summary}</p>
+      {result !== undefined && (
+        <pre className="mt-1 max-h-32 overflow-auto text-xs bg-white border border-gray-200 rounded p-1">
+          {JSON.stringify(result, null, 2)}
+        </pre>
+      )}
+    </>
+  );
+}
+
+export function FanOut({
+  task,
+  maxConcurrency,
+  subRuns,
+  status,
+}: FanOutProgress) {
+  const thread = useStreamContext<
+    Record<string, unknown>,
+    { MetaType: FanOutMeta }
+  >();
+  const [_threadId, setThreadId] = useQueryState("threadId");
+  // The index of the sub-run whose screen is shown.
+  const [shown, setShown] = useState<number>();
+  const [cancelling, setCancelling] = useState(false);
+  const ended = subRuns.filter(
+    (s) => s.status !== "pending" && s.status !== "running",
+  ).length;
+  const onCancel = thread.meta?.onCancel;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] border rounded-md bg-gray-50 sm:min-w-[500px]">
+      <div className="flex justify-between items-center gap-2 w-full px-3 py-2 border-b-[1px] border-gray-200">
+        <p className="text-sm font-medium">Fan-out</p>
+        <p className="text-xs text-gray-500">
+          {ended} of {subRuns.length} ended · up to {maxConcurrency} at once
+        </p>
+      </div>
+      <p className="w-full px-3 text-sm text-gray-600 whitespace-pre-wrap">
+        {task}
+      </p>
+      <div className="w-full px-3 pb-2 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 font-medium">Input</th>
+              <th className="py-1 pr-2 font-medium">Status</th>
+              <th className="py-1 pr-2 font-medium">Result</th>
+              <th className="py-1 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {subRuns.map((subRun, index) => (
+              <Fragment key={index}>
+                <tr className="align-top border-b border-gray-100">
+                  <td className="py-1.5 pr-2 font-mono text-xs break-all">
+                    {subRun.input}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <StatusBadge subRun={subRun} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <SubRunResult subRun={subRun} />
+                  </td>
+                  <td className="py-1.5">
+                    <div className="flex gap-2 justify-end text-xs whitespace-nowrap">
+                      {subRun.streamUrl && subRun.status === "running" && (
+                        <button
+                          onClick={() =>
+                            setShown(shown === index ? undefined : index)
+                          }
+                          className="text-blue-500 hover:text-blue-700"
+                        >
+                          {shown === index ? "Hide screen" : "Screen"}
+                        </button>
+                      )}
+                      {subRun.threadId && (
+                        <button
+                          onClick={() => setThreadId(subRun.threadId ?? null)}
+                          className="text-blue-500 hover:text-blue-700"
+                        >
+                          Open
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+                {shown === index &&
+                  subRun.streamUrl &&
+                  subRun.status === "running" && (
+                    <tr>
+                      <td colSpan={4} className="py-2">
+                        <iframe
+                          src={subRun.streamUrl}
+                          className="w-full aspect-[4/3] rounded border border-gray-200"
+                          title={`Instance for ${subRun.input}`}
+                        />
+                      </td>
+                    </tr>
+                  )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {status === "running" && onCancel && (
+        <div className="flex justify-end w-full px-3 pb-3">
+          <button
+            disabled={cancelling}
+            onClick={() => {
+              setCancelling(true);
+              onCancel();
+            }}
+            className="px-3 py-1 text-sm border rounded text-red-700 border-red-200 bg-white disabled:opacity-50"
+          >
+            Cancel all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
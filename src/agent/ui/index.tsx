@@ -1,12 +1,26 @@
+import { ActionApproval } from "./action-approval";
 import { ComputerUseToolCall } from "./computer-use-tool-call";
 import { ComputerUseToolOutput } from "./computer-use-tool-output";
 import { RenderVMButton } from "./render-vm-button";
 import { InstanceFrame } from "./instance";
+import { Plan } from "./plan";
+import { TaskResult } from "./task-result";
+import { TerminalOutput } from "./terminal-output";
+import { SafetyCheck } from "./safety-check";
+import { SkillReplay } from "./skill-replay";
+import { FanOut } from "./fan-out";
 
 const ComponentMap = {
   "computer-use-tool-output": ComputerUseToolOutput,
   "computer-use-tool-call": ComputerUseToolCall,
   "render-vm-button": RenderVMButton,
   instance: InstanceFrame,
+  plan: Plan,
+  "task-result": TaskResult,
+  "terminal-output": TerminalOutput,
+  "action-approval": ActionApproval,
+  "safety-check": SafetyCheck,
+  "skill-replay": SkillReplay,
+  "fan-out": FanOut,
 } as const;
 export default ComponentMap;
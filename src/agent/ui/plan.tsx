@@ -0,0 +1,66 @@
+"use client";
+
+import "./styles.css";
+import { CheckCircle2, Circle, LoaderCircle } from "lucide-react";
+import type { PlanStep } from "../plan";
+
+interface PlanProps {
+  steps: PlanStep[];
+  /**
+   * The number of times the model has replaced the plan.
+   */
+  revision: number;
+}
+
+function StepIcon({ status }: { status: PlanStep["status"] }) {
+  switch (status) {
+    case "completed":
+      return <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />;
+    case "in_progress":
+      return (
+        <LoaderCircle className="w-4 h-4 text-blue-500 shrink-0 animate-spin" />
+      );
+    default:
+      return <Circle className="w-4 h-4 text-gray-300 shrink-0" />;
+  }
+}
+
+export function Plan({ steps, revision }: PlanProps) {
+  const completed = steps.filter((step) => step.status === "completed").length;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex justify-between items-center w-full px-3 py-2 border-b-[1px] border-gray-200">
+        <div className="flex items-center gap-2">
+          <p className="text-sm font-medium">Plan</p>
+          {revision > 0 && (
+            <p className="text-xs font-light text-gray-500">
+              Revised {revision === 1 ? "once" : `${revision} times`}
+            </p>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          {completed} of {steps.length} done
+        </p>
+      </div>
+      <ol className="flex flex-col gap-1.5 w-full px-3 pb-2">
+        {steps.map((step, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            <StepIcon status={step.status} />
+            <span
+              className={
+                step.status === "completed"
+                  ? "text-gray-500 line-through"
+                  : step.status === "in_progress"
+                    ? "font-medium"
+                    : undefined
+              }
+            >
+              {step.title}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import "./styles.css";
+import { ShieldAlert } from "lucide-react";
+import { useState } from "react";
+import { useStreamContext } from "@langchain/langgraph-sdk/react-ui";
+import type { SafetyCheckDecision, SafetyCheckRequest } from "../safety-checks";
+
+type SafetyCheckMeta = {
+  /**
+   * The configurable fields of the run which paused, passed on to the run
+   * which resumes it.
+   */
+  configurable?: Record<string, unknown>;
+};
+
+export function SafetyCheck({
+  checks,
+  input,
+  reasoning,
+  screenshot,
+}: SafetyCheckRequest) {
+  const thread = useStreamContext<
+    Record<string, unknown>,
+    { MetaType: SafetyCheckMeta }
+  >();
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const resume = (decision: SafetyCheckDecision) => {
+    setSubmitted(true);
+    thread.submit(undefined, {
+      command: { resume: decision },
+      streamMode: ["values"],
+      config: { configurable: thread.meta?.configurable },
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] border border-amber-200 rounded-md bg-amber-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex items-center gap-2 w-full px-3 py-2 border-b-[1px] border-amber-200">
+        <ShieldAlert className="w-4 h-4 text-amber-600" />
+        <p className="text-sm font-medium">Safety check</p>
+      </div>
+      <div className="flex flex-col gap-2 w-full px-3 pb-2 text-sm">
+        <p className="text-gray-600">
+          The model provider flagged this action. It only runs once you
+          acknowledge these checks.
+        </p>
+        <ul className="flex flex-col gap-1">
+          {checks.map((check) => (
+            <li
+              key={check.id}
+              className="p-2 border rounded border-amber-200 bg-white"
+            >
+              <p className="text-xs font-mono text-amber-800">{check.code}</p>
+              <p>{check.message}</p>
+            </li>
+          ))}
+        </ul>
+        {reasoning && <p className="text-gray-600">{reasoning}</p>}
+        {screenshot && (
+          <img
+            src={screenshot}
+            alt="The screen before the action"
+            className="w-full rounded border border-gray-200"
+          />
+        )}
+        <pre className="p-2 font-mono text-xs whitespace-pre-wrap break-all border rounded bg-white">
+          {input}
+        </pre>
+        {declining && (
+          <input
+            className="w-full p-2 text-sm border rounded bg-white"
+            placeholder="Why? The reason is sent to the model (optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        )}
+        <div className="flex gap-2 justify-end w-full">
+          {declining ? (
+            <>
+              <button
+                disabled={submitted}
+                onClick={() => setDeclining(false)}
+                className="px-3 py-1 text-sm border rounded bg-white disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                disabled={submitted}
+                onClick={() =>
+                  resume({
+                    decision: "decline",
+                    reason: reason.trim() || undefined,
+                  })
+                }
+                className="px-3 py-1 text-sm border rounded text-white bg-red-600 border-red-600 disabled:opacity-50"
+              >
+                Don&apos;t run
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                disabled={submitted}
+                onClick={() => setDeclining(true)}
+                className="px-3 py-1 text-sm border rounded text-red-700 border-red-200 bg-white disabled:opacity-50"
+              >
+                Don&apos;t run
+              </button>
+              <button
+                disabled={submitted}
+                onClick={() => resume({ decision: "acknowledge" })}
+                className="px-3 py-1 text-sm border rounded text-white bg-green-600 border-green-600 disabled:opacity-50"
+              >
+                Acknowledge and run
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import "./styles.css";
+import {
+  CheckCircle2,
+  Circle,
+  CircleSlash,
+  LoaderCircle,
+  XCircle,
+} from "lucide-react";
+import type { SkillReplayProgress } from "../skills";
+
+function StepIcon({
+  index,
+  completed,
+  status,
+}: {
+  index: number;
+  completed: number;
+  status: SkillReplayProgress["status"];
+}) {
+  if (index < completed) {
+    return <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />;
+  }
+  if (index > completed) {
+    return <Circle className="w-4 h-4 text-gray-300 shrink-0" />;
+  }
+  switch (status) {
+    case "running":
+      return (
+        <LoaderCircle className="w-4 h-4 text-blue-500 shrink-0 animate-spin" />
+      );
+    case "stopped":
+      return <XCircle className="w-4 h-4 text-red-500 shrink-0" />;
+    default:
+      return <Circle className="w-4 h-4 text-gray-300 shrink-0" />;
+  }
+}
+
+export function SkillReplay({
+  name,
+  steps,
+  completed,
+  status,
+  reason,
+  screenshot,
+}: SkillReplayProgress) {
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex justify-between items-center w-full px-3 py-2 border-b-[1px] border-gray-200">
+        <div className="flex items-center gap-2">
+          <p className="text-sm font-medium">Skill</p>
+          <p className="text-xs font-mono text-gray-500">{name}</p>
+        </div>
+        <p className="text-xs text-gray-500">
+          {completed} of {steps.length} steps
+        </p>
+      </div>
+      <ol className="flex flex-col gap-1.5 w-full px-3 pb-2">
+        {steps.map((step, index) => (
+          <li key={index} className="flex items-start gap-2 text-sm">
+            <StepIcon index={index} completed={completed} status={status} />
+            <span className={index < completed ? "text-gray-500" : undefined}>
+              {step}
+            </span>
+          </li>
+        ))}
+      </ol>
+      {reason && (
+        <p className="flex items-start gap-2 w-full px-3 pb-2 text-sm text-red-700">
+          <CircleSlash className="w-4 h-4 shrink-0" />
+          Stopped, because {reason}.
+        </p>
+      )}
+      {screenshot && (
+        <div className="w-full px-3 pb-3">
+          <img
+            src={screenshot}
+            alt="The screen once the replay ended"
+            className="w-full rounded border border-gray-200"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import "./styles.css";
+import {
+  Ban,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  XCircle,
+} from "lucide-react";
+import { useState } from "react";
+import type { TaskResult as TaskResultProps } from "../task-result";
+
+const STATUS_BADGES = {
+  success: {
+    label: "Succeeded",
+    icon: CheckCircle2,
+    className: "text-green-700 bg-green-50 border-green-200",
+  },
+  failure: {
+    label: "Failed",
+    icon: XCircle,
+    className: "text-red-700 bg-red-50 border-red-200",
+  },
+  blocked: {
+    label: "Blocked",
+    icon: Ban,
+    className: "text-amber-700 bg-amber-50 border-amber-200",
+  },
+};
+
+export function TaskResult({ status, summary, result }: TaskResultProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const badge = STATUS_BADGES[status];
+  const Icon = badge.icon;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex justify-between items-center w-full px-3 py-2 border-b-[1px] border-gray-200">
+        <p className="text-sm font-medium">Task Result</p>
+        <p
+          className={`flex items-center gap-1 text-xs px-1.5 py-0.5 border rounded ${badge.className}`}
+        >
+          <Icon className="w-3 h-3" />
+          {badge.label}
+        </p>
+      </div>
+      <div className="flex flex-col gap-2 w-full px-3 pb-2">
+        <p className="text-sm">{summary}</p>
+        {result !== undefined && (
+          <>
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="flex items-center text-xs text-blue-500 hover:text-blue-700 transition-colors"
+            >
+              <span className="mr-1">
+                {isExpanded ? "Hide" : "Show"} result
+              </span>
+              {isExpanded ? (
+                <ChevronUp className="w-3 h-3" />
+              ) : (
+                <ChevronDown className="w-3 h-3" />
+              )}
+            </button>
+            {isExpanded && (
+              <pre className="w-full text-xs bg-white border border-gray-200 rounded p-2 overflow-x-auto">
+                {JSON.stringify(result, null, 2)}
+              </pre>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import "./styles.css";
+import { FilePen, SquareTerminal } from "lucide-react";
+import type { ShellToolResult } from "../shell-tools";
+
+export function TerminalOutput({
+  toolCallId,
+  tool,
+  input,
+  output,
+  error,
+}: ShellToolResult) {
+  const isBash = tool === "bash";
+  const Icon = isBash ? SquareTerminal : FilePen;
+
+  return (
+    <div className="flex flex-col gap-2 items-start justify-start w-full min-w-[320px] max-w-[360px] p-3 border rounded-md bg-gray-50 sm:max-w-[536px] sm:min-w-[500px]">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center w-full gap-1 lg:gap-0">
+        <div className="flex items-center gap-2">
+          <Icon className="w-4 h-4 text-gray-500" />
+          <p className="text-sm font-medium">
+            {isBash ? "Terminal" : "File Editor"}
+          </p>
+        </div>
+        <p className="text-xs font-light text-gray-500">{toolCallId}</p>
+      </div>
+      <pre className="w-full max-h-[320px] overflow-auto rounded bg-gray-900 p-2 text-xs text-gray-100 whitespace-pre-wrap break-words">
+        <span className="text-green-400">{isBash ? "$ " : "> "}</span>
+        {input}
+        {output && `\n${output}`}
+        {error && <span className="text-red-400">{`\n${error}`}</span>}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { AIMessage } from "@langchain/core/messages";
+import { Annotation } from "@langchain/langgraph";
+
+/**
+ * The price of a model, in US dollars per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices of the models the built-in providers call. Override or extend them
+ * per run with `configurable.modelPrices`. Models are matched by exact name
+ * first, then by prefix, so dated snapshots (e.g.
+ * `computer-use-preview-2025-03-11`) use the price of their base model.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "grok-2-vision-1212": { input: 2, output: 10 },
+  "computer-use-preview": { input: 3, output: 12 },
+  mock: { input: 0, output: 0 },
+  demo: { input: 0, output: 0 },
+};
+
+/**
+ * Token usage and cost of one or more model calls.
+ */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /**
+   * The cost of all priced model calls, in US dollars.
+   */
+  costUsd: number;
+  modelCalls: number;
+  /**
+   * The number of model calls whose model is not in the price table. Their
+   * tokens are counted, but they are not included in `costUsd`.
+   */
+  unpricedModelCalls: number;
+}
+
+export const EMPTY_USAGE: UsageTotals = {
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  modelCalls: 0,
+  unpricedModelCalls: 0,
+};
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: a.costUsd + b.costUsd,
+    modelCalls: a.modelCalls + b.modelCalls,
+    unpricedModelCalls: a.unpricedModelCalls + b.unpricedModelCalls,
+  };
+}
+
+/**
+ * The usage of every model call in a thread. Each model call adds its own
+ * usage, and the reducer keeps the running total.
+ */
+export const UsageAnnotation = Annotation<UsageTotals, UsageTotals>({
+  reducer: (state, update) => addUsage(state ?? EMPTY_USAGE, update),
+  default: () => EMPTY_USAGE,
+});
+
+function getModelPrice(
+  model: string | undefined,
+  prices: Record<string, ModelPrice>,
+): ModelPrice | undefined {
+  if (!model) {
+    return undefined;
+  }
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Reads token usage from a model response. Responses from LangChain chat
+ * models carry `usage_metadata`, while chat completions responses carry the
+ * raw `usage` object in their response metadata.
+ */
+function getTokenUsage(message: AIMessage): {
+  inputTokens: number;
+  outputTokens: number;
+} {
+  if (message.usage_metadata) {
+    return {
+      inputTokens: message.usage_metadata.input_tokens ?? 0,
+      outputTokens: message.usage_metadata.output_tokens ?? 0,
+    };
+  }
+  const usage = message.response_metadata?.usage;
+  return {
+    inputTokens: usage?.prompt_tokens ?? usage?.input_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? usage?.output_tokens ?? 0,
+  };
+}
+
+/**
+ * Calculates the usage and cost of a single model response.
+ *
+ * @param {AIMessage} message The model response.
+ * @param {Record<string, ModelPrice>} prices The price table to use.
+ * @returns {UsageTotals} The usage of the model call.
+ */
+export function getMessageUsage(
+  message: AIMessage,
+  prices: Record<string, ModelPrice>,
+): UsageTotals {
+  const { inputTokens, outputTokens } = getTokenUsage(message);
+  const model =
+    message.response_metadata?.model ?? message.response_metadata?.model_name;
+  const price = getModelPrice(model, prices);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    costUsd: price
+      ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+      : 0,
+    modelCalls: 1,
+    unpricedModelCalls: price ? 0 : 1,
+  };
+}
+
+/**
+ * Returns a copy of the model response with its usage in `usage_metadata`,
+ * and its cost in `response_metadata.cost_usd`, so the UI can show both
+ * without knowing which provider produced the response. The cost is left
+ * out if the model is not priced.
+ */
+export function withUsage(message: AIMessage, usage: UsageTotals): AIMessage {
+  return new AIMessage({
+    id: message.id,
+    content: message.content,
+    tool_calls: message.tool_calls,
+    invalid_tool_calls: message.invalid_tool_calls,
+    additional_kwargs: message.additional_kwargs,
+    usage_metadata: {
+      ...message.usage_metadata,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      total_tokens: usage.totalTokens,
+    },
+    response_metadata: {
+      ...message.response_metadata,
+      ...(usage.unpricedModelCalls ? {} : { cost_usd: usage.costUsd }),
+    },
+  });
+}
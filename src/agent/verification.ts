@@ -0,0 +1,193 @@
+import sharp from "sharp";
+import { ComputerAction } from "./computer-actions";
+import type { ScaledComputerCall } from "./screenshot-scaling";
+
+export const VERDICTS = ["approved", "rejected", "corrected"] as const;
+
+export type Verdict = (typeof VERDICTS)[number];
+
+/**
+ * The verifier's verdict on a computer action, stored on the computer call.
+ */
+export interface ActionVerification {
+  verdict: Verdict;
+  /**
+   * Why the verifier rejected or corrected the action, if it said.
+   */
+  critique?: string;
+  /**
+   * The action the model proposed, if the verifier corrected it.
+   */
+  originalAction?: ComputerAction;
+}
+
+export type VerifiedComputerCall = ScaledComputerCall & {
+  verification?: ActionVerification;
+};
+
+/**
+ * Marks tool messages which answer an action that was not taken, e.g.
+ * because the verifier rejected it, so providers can send them in place of
+ * the action's screenshot.
+ */
+export const REJECTED_ACTION_KEY = "rejected_action";
+
+/**
+ * Whether, and which, computer actions are checked by a second model call
+ * before they run.
+ */
+export interface VerifierSettings {
+  enabled: boolean;
+  /**
+   * The types of action to verify. Actions which only look at the screen,
+   * like screenshots and scrolling, are not worth checking by default.
+   */
+  actions: ComputerAction["type"][];
+  /**
+   * The provider to verify with. Defaults to the run's provider.
+   */
+  modelProvider?: string;
+  /**
+   * The model to verify with. Defaults to the run's model, or the verifier
+   * provider's default model if `modelProvider` is set.
+   */
+  model?: string;
+}
+
+export const DEFAULT_VERIFIER: VerifierSettings = {
+  enabled: false,
+  actions: ["click", "double_click", "drag", "type", "keypress"],
+};
+
+const ACTION_TYPES: ComputerAction["type"][] = [
+  "click",
+  "double_click",
+  "drag",
+  "keypress",
+  "move",
+  "screenshot",
+  "scroll",
+  "type",
+  "wait",
+];
+
+/**
+ * Validates verifier settings passed in the configurable fields.
+ *
+ * @param {VerifierSettings} verifier The settings to validate.
+ * @returns {VerifierSettings} The settings.
+ */
+export function validateVerifier(verifier: VerifierSettings): VerifierSettings {
+  if (typeof verifier.enabled !== "boolean") {
+    throw new Error("verifier.enabled must be a boolean");
+  }
+  if (
+    !Array.isArray(verifier.actions) ||
+    !verifier.actions.every((type) => ACTION_TYPES.includes(type))
+  ) {
+    throw new Error(
+      `verifier.actions must be a list of action types: ${ACTION_TYPES.join(", ")}`,
+    );
+  }
+  for (const key of ["modelProvider", "model"] as const) {
+    const value = verifier[key];
+    if (value !== undefined && (typeof value !== "string" || !value.trim())) {
+      throw new Error(`verifier.${key} must be a non-empty string`);
+    }
+  }
+  return verifier;
+}
+
+export const VERIFIER_PROMPT = `You check the actions of a computer use agent before they run. You are shown the agent's task, its reasoning, the action it proposes in the computer_use tool format, and the current screenshot, on which the points the action targets are circled in red.
+Check that the action does what the agent intends. Pay particular attention to clicks which miss their target, and to destructive actions such as deleting, sending, purchasing or closing without saving, which the task does not call for.
+Respond with one of:
+APPROVE
+REJECT: <what is wrong, and what the agent should do instead>
+CORRECT: <the corrected action as a JSON object in the computer_use tool format, e.g. {"type": "click", "x": 512, "y": 300}>, then what was wrong on the next line`;
+
+/**
+ * Reads the verdict from the verifier's response.
+ *
+ * @param {string} text The verifier's response.
+ * @returns The verdict, its critique, and the corrected action, if any. The
+ * action is not validated. Undefined if the response has no verdict.
+ */
+export function parseVerdict(
+  text: string,
+): { verdict: Verdict; critique?: string; action?: unknown } | undefined {
+  const match = text.match(/^\s*\**(APPROVE|REJECT|CORRECT)\**\b:?\s*/i);
+  if (!match) {
+    return undefined;
+  }
+  const rest = text.slice(match[0].length).trim();
+  const keyword = match[1].toUpperCase();
+  if (keyword === "APPROVE") {
+    return { verdict: "approved", critique: rest || undefined };
+  }
+  if (keyword === "REJECT") {
+    return { verdict: "rejected", critique: rest || undefined };
+  }
+
+  const start = rest.indexOf("{");
+  const end = rest.indexOf("}", start);
+  let action: unknown;
+  try {
+    action = JSON.parse(rest.slice(start, end + 1));
+  } catch {
+    action = undefined;
+  }
+  const critique = (start === -1 ? rest : rest.slice(end + 1)).trim();
+  return { verdict: "corrected", critique: critique || undefined, action };
+}
+
+/**
+ * The points on the screen an action targets, in the action's coordinates.
+ */
+export function getActionPoints(
+  action: ComputerAction,
+): { x: number; y: number }[] {
+  switch (action.type) {
+    case "click":
+    case "double_click":
+    case "move":
+    case "scroll":
+      return [{ x: action.x, y: action.y }];
+    case "drag":
+      return action.path;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Circles the points an action targets on a screenshot, so the verifier can
+ * see exactly where a click would land.
+ *
+ * @param {string} dataUrl The screenshot the action's coordinates are relative to, as a base64 data URL.
+ * @param {ComputerAction} action The proposed action.
+ * @returns {Promise<string>} The marked screenshot as a PNG data URL, or the
+ * screenshot unchanged if the action has no coordinates.
+ */
+export async function markActionOnScreenshot(
+  dataUrl: string,
+  action: ComputerAction,
+): Promise<string> {
+  const points = getActionPoints(action);
+  if (!points.length) {
+    return dataUrl;
+  }
+  const input = Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+  const marks = points
+    .map(
+      ({ x, y }) =>
+        `<circle cx="${x}" cy="${y}" r="14" fill="none" stroke="red" stroke-width="3"/><circle cx="${x}" cy="${y}" r="2" fill="red"/>`,
+    )
+    .join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${marks}</svg>`;
+  const output = await sharp(input)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${output.toString("base64")}`;
+}
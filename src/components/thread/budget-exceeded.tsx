@@ -0,0 +1,65 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  Budget,
+  BUDGET_LIMIT_LABELS,
+  ExceededBudget,
+  formatBudget,
+} from "@/lib/budget";
+
+/**
+ * Shown above the composer when the last run stopped because it reached its
+ * budget. Lets the user continue the task with an extra budget of the same
+ * kind, which defaults to the budget the last run had.
+ */
+export function BudgetExceeded({
+  exceeded,
+  onContinue,
+}: {
+  exceeded: ExceededBudget;
+  onContinue: (budget: Budget) => void;
+}) {
+  const [extra, setExtra] = useState(String(exceeded.max));
+  useEffect(() => {
+    setExtra(String(exceeded.max));
+  }, [exceeded.limit, exceeded.max]);
+
+  const value = Number(extra);
+  const valid = Number.isFinite(value) && value > 0;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    onContinue({ [exceeded.limit]: value });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-wrap items-center gap-2 border-b px-3.5 py-2 text-sm"
+    >
+      <span className="text-gray-600">
+        The last run stopped after reaching its budget of{" "}
+        {formatBudget(exceeded.limit, exceeded.max)}.
+      </span>
+      <div className="flex items-center gap-2 ml-auto">
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          value={extra}
+          onChange={(e) => setExtra(e.target.value)}
+          aria-label={`Extra budget, in ${BUDGET_LIMIT_LABELS[exceeded.limit]}`}
+          className="w-24 h-8 bg-white"
+        />
+        <span className="text-gray-600">
+          {BUDGET_LIMIT_LABELS[exceeded.limit]}
+        </span>
+        <Button type="submit" size="sm" disabled={!valid}>
+          Continue
+        </Button>
+      </div>
+    </form>
+  );
+}
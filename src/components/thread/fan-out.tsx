@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Split } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+import { Textarea } from "../ui/textarea";
+import { TooltipIconButton } from "./tooltip-icon-button";
+import {
+  DEFAULT_FAN_OUT_CONCURRENCY,
+  FanOutRequest,
+  MAX_FAN_OUT_CONCURRENCY,
+} from "@/lib/fan-out";
+
+/**
+ * Lets the user run a task once per input, each in a thread of its own, with
+ * the results collected into a table in a new thread.
+ */
+export function FanOutSheet({
+  isLoading,
+  onStart,
+}: {
+  isLoading: boolean;
+  onStart: (request: FanOutRequest) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [task, setTask] = useState("");
+  const [inputs, setInputs] = useState("");
+  const [maxConcurrency, setMaxConcurrency] = useState(
+    DEFAULT_FAN_OUT_CONCURRENCY,
+  );
+  const inputList = inputs
+    .split("\n")
+    .map((input) => input.trim())
+    .filter(Boolean);
+
+  const handleStart = () => {
+    onStart({ task: task.trim(), inputs: inputList, maxConcurrency });
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip="Run for many inputs"
+        variant="ghost"
+        onClick={() => setOpen(true)}
+      >
+        <Split className="size-5" />
+      </TooltipIconButton>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="right" className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Run for many inputs</SheetTitle>
+            <SheetDescription>
+              Runs the task once per input, each in a thread and on an instance
+              of its own. The results are collected into a table in a new
+              thread.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex flex-col gap-4 px-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="fan-out-task">Task</Label>
+              <Textarea
+                id="fan-out-task"
+                className="max-h-60"
+                value={task}
+                placeholder="Log in to {{input}} and read the latest invoice total"
+                onChange={(e) => setTask(e.target.value)}
+              />
+              <p className="text-muted-foreground text-xs">
+                {"{{input}}"} is replaced by each input. Without it, the input
+                is added after the task.
+              </p>
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="fan-out-inputs">Inputs, one per line</Label>
+              <Textarea
+                id="fan-out-inputs"
+                className="max-h-60 font-mono text-xs"
+                value={inputs}
+                onChange={(e) => setInputs(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="fan-out-concurrency">Runs at once</Label>
+              <Input
+                id="fan-out-concurrency"
+                type="number"
+                min={1}
+                max={MAX_FAN_OUT_CONCURRENCY}
+                step="1"
+                value={maxConcurrency}
+                onChange={(e) =>
+                  setMaxConcurrency(
+                    Math.min(
+                      Math.max(Math.round(Number(e.target.value)) || 1, 1),
+                      MAX_FAN_OUT_CONCURRENCY,
+                    ),
+                  )
+                }
+              />
+            </div>
+          </div>
+          <SheetFooter>
+            <Button
+              disabled={!task.trim() || !inputList.length || isLoading}
+              onClick={handleStart}
+            >
+              Run {inputList.length || ""} sub-run
+              {inputList.length === 1 ? "" : "s"}
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -15,6 +15,33 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { PanelRightOpen, PanelRightClose } from "lucide-react";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import { getItem, USER_ID_KEY } from "@/lib/local-storage";
+import { formatUsage, sumUsage, type UsageTotals } from "@/lib/usage";
+
+function getThreadUsage(thread: Thread): UsageTotals | undefined {
+  if (
+    typeof thread.values === "object" &&
+    thread.values &&
+    "usage" in thread.values
+  ) {
+    return thread.values.usage as UsageTotals;
+  }
+  return undefined;
+}
+
+/**
+ * The usage of every thread listed, which are the user's most recent threads.
+ * Older threads are not listed, so they are not counted.
+ */
+function UserUsage({ threads }: { threads: Thread[] }) {
+  const usage = sumUsage(threads.map(getThreadUsage));
+  if (!usage.modelCalls) return null;
+  return (
+    <p className="text-xs text-gray-500 px-4 -mt-4">
+      Usage of your {threads.length} most recent thread
+      {threads.length === 1 ? "" : "s"}: {formatUsage(usage)}
+    </p>
+  );
+}
 
 function ThreadList({
   threads,
@@ -39,11 +66,12 @@ function ThreadList({
           const firstMessage = t.values.messages[0];
           itemText = getContentString(firstMessage.content);
         }
+        const usage = getThreadUsage(t);
         return (
           <div key={t.thread_id} className="w-full px-1">
             <Button
               variant="ghost"
-              className="text-left items-start justify-start font-normal w-[280px]"
+              className="text-left items-start justify-start font-normal w-[280px] h-auto"
               onClick={(e) => {
                 e.preventDefault();
                 onThreadClick?.(t.thread_id);
@@ -51,7 +79,12 @@ function ThreadList({
                 setThreadId(t.thread_id);
               }}
             >
-              <p className="truncate text-ellipsis">{itemText}</p>
+              <div className="flex flex-col items-start w-full min-w-0">
+                <p className="truncate text-ellipsis w-full">{itemText}</p>
+                {usage?.modelCalls ? (
+                  <p className="text-xs text-gray-500">{formatUsage(usage)}</p>
+                ) : null}
+              </div>
             </Button>
           </div>
         );
@@ -110,6 +143,7 @@ export default function ThreadHistory() {
             Thread History
           </h1>
         </div>
+        <UserUsage threads={threads} />
         {threadsLoading ? (
           <ThreadHistoryLoading />
         ) : (
@@ -128,6 +162,7 @@ export default function ThreadHistory() {
             <SheetHeader>
               <SheetTitle>Thread History</SheetTitle>
             </SheetHeader>
+            <UserUsage threads={threads} />
             <ThreadList
               threads={threads}
               onThreadClick={() => setChatHistoryOpen((o) => !o)}
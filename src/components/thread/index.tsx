@@ -32,6 +32,19 @@ import {
 } from "@langchain/langgraph-sdk/react-ui";
 import * as Toaster from "@/components/ui/sonner";
 import * as sonner from "sonner";
+import { BudgetExceeded } from "./budget-exceeded";
+import type { Budget } from "@/lib/budget";
+import { ModelSettingsSheet } from "./model-settings";
+import {
+  loadModelSettings,
+  ModelSettings,
+  saveModelSettings,
+  UNSET_MODEL_SETTINGS,
+} from "@/lib/model-settings";
+import { SkillsSheet } from "./skills";
+import type { ReplaySkillRequest, SaveSkillRequest } from "@/lib/skills";
+import { FanOutSheet } from "./fan-out";
+import type { FanOutRequest } from "@/lib/fan-out";
 
 experimental_loadShare("nuqs", nuqs);
 experimental_loadShare("nuqs/adapters/next/app", nuqsAdapters);
@@ -84,6 +97,10 @@ interface ChatViewProps {
   input: string;
   setInput: (input: string) => void;
   handleRegenerate: (parentCheckpoint: Checkpoint | null | undefined) => void;
+  handleGrantBudget: (budget: Budget) => void;
+  handleCancel: () => void;
+  handleSaveSkill: (request: SaveSkillRequest) => void;
+  configurable: Record<string, unknown>;
 }
 
 function ChatView({
@@ -94,8 +111,17 @@ function ChatView({
   input,
   setInput,
   handleRegenerate,
+  handleGrantBudget,
+  handleCancel,
+  handleSaveSkill,
+  configurable,
 }: ChatViewProps) {
   const stream = useStreamContext();
+  // Previews of computer actions the model is still generating. They are not
+  // tied to a message yet, since the message is only added once it completes.
+  const streamingToolCalls =
+    stream.values.ui?.filter((ui) => ui.metadata?.streaming) ?? [];
+  const budgetExceeded = !stream.isLoading && stream.values.budgetExceeded;
 
   return (
     <StickToBottom
@@ -124,6 +150,7 @@ function ChatView({
                     key={message.id || `${message.type}-${index}`}
                     message={message}
                     isLoading={stream.isLoading}
+                    configurable={configurable}
                   />
                 ) : (
                   <AssistantMessage
@@ -131,12 +158,22 @@ function ChatView({
                     message={message}
                     isLoading={stream.isLoading}
                     handleRegenerate={handleRegenerate}
+                    handleSaveSkill={handleSaveSkill}
+                    configurable={configurable}
                   />
                 ),
               )}
-            {stream.isLoading && !firstTokenReceived && (
-              <AssistantMessageLoading />
-            )}
+            {streamingToolCalls.map((ui) => (
+              <LoadExternalComponent
+                key={ui.id}
+                stream={stream}
+                message={ui}
+                meta={{ ui, onCancel: handleCancel }}
+              />
+            ))}
+            {stream.isLoading &&
+              !firstTokenReceived &&
+              !streamingToolCalls.length && <AssistantMessageLoading />}
           </>
         }
         footer={
@@ -153,6 +190,12 @@ function ChatView({
             <ScrollToBottom className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 animate-in fade-in-0 zoom-in-95" />
 
             <div className="bg-muted rounded-2xl border shadow-xs mx-auto mb-8 w-full max-w-3xl relative z-10">
+              {budgetExceeded && (
+                <BudgetExceeded
+                  exceeded={budgetExceeded}
+                  onContinue={handleGrantBudget}
+                />
+              )}
               <form
                 onSubmit={handleSubmit}
                 className="grid grid-rows-[1fr_auto] gap-2 max-w-3xl mx-auto"
@@ -174,7 +217,7 @@ function ChatView({
 
                 <div className="flex items-center justify-end p-2 pt-4">
                   {stream.isLoading ? (
-                    <Button key="stop" onClick={() => stream.stop()}>
+                    <Button key="stop" onClick={handleCancel}>
                       <LoaderCircle className="w-4 h-4 animate-spin" />
                       Cancel
                     </Button>
@@ -211,6 +254,14 @@ export function Thread() {
     parseAsBoolean,
   );
   const isLargeScreen = useMediaQuery("(min-width: 1024px)");
+  const [modelSettings, setModelSettings] = useState<ModelSettings>({});
+  useEffect(() => {
+    setModelSettings(loadModelSettings());
+  }, []);
+  const handleModelSettingsChange = (settings: ModelSettings) => {
+    setModelSettings(settings);
+    saveModelSettings(settings);
+  };
 
   const stream = useStreamContext();
   const messages = stream.messages;
@@ -232,15 +283,23 @@ export function Thread() {
 
       // Message is defined, and it has not been logged yet. Save it, and send the error
       lastError.current = message;
-      toast.error("An error occurred. Please try again.", {
-        description: (
-          <p>
-            <strong>Error:</strong> <code>{message}</code>
-          </p>
-        ),
-        richColors: true,
-        closeButton: true,
-      });
+      // Raised by the agent once retries against the model provider are exhausted.
+      const isModelProviderError =
+        (stream.error as any).name === "ModelProviderError";
+      toast.error(
+        isModelProviderError
+          ? "The model provider request failed, so the run was stopped."
+          : "An error occurred. Please try again.",
+        {
+          description: (
+            <p>
+              <strong>Error:</strong> <code>{message}</code>
+            </p>
+          ),
+          richColors: true,
+          closeButton: true,
+        },
+      );
     } catch {
       // no-op
     }
@@ -260,37 +319,74 @@ export function Thread() {
     prevMessageLength.current = messages.length;
   }, [messages]);
 
-  const handleSubmit = (e: FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  // Sent with every run, including runs which resume an interrupted run.
+  const configurable = {
+    timeoutHours: 0.1,
+    ...UNSET_MODEL_SETTINGS,
+    ...modelSettings,
+  };
+
+  const submitMessage = (content: string, budget?: Budget) => {
     setFirstTokenReceived(false);
 
     const newHumanMessage: Message = {
       id: uuidv4(),
       type: "human",
-      content: input,
+      content,
     };
 
     stream.submit(
       { messages: [newHumanMessage] },
       {
         streamMode: ["values"],
-        config: {
-          recursion_limit: 150,
-          configurable: {
-            timeoutHours: 0.1,
-          },
-        },
+        config: { configurable },
+        // Sent as run metadata, which the server does not keep on the thread.
+        ...(budget && { metadata: { budget } }),
         optimisticValues: (prev) => ({
           ...prev,
           messages: [...(prev.messages ?? []), newHumanMessage],
         }),
       },
     );
+  };
 
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading) return;
+    submitMessage(input);
     setInput("");
   };
 
+  // Continues a run which stopped because it reached its budget, with an
+  // extra budget of the same kind.
+  const handleGrantBudget = (budget: Budget) => {
+    if (isLoading) return;
+    submitMessage("Continue the task from where you left off.", budget);
+  };
+
+  // Cancelling stops the run on the server once its stream closes. A second
+  // run then records which step it was cancelled at, and answers the actions
+  // it did not take.
+  const [cancelling, setCancelling] = useState(false);
+  const handleCancel = () => {
+    stream.stop();
+    setCancelling(true);
+  };
+  useEffect(() => {
+    if (!cancelling || isLoading) return;
+    setCancelling(false);
+    stream.submit(
+      { messages: [] },
+      {
+        streamMode: ["values"],
+        // Stops the cancelled run, if the server has not stopped it yet.
+        multitaskStrategy: "interrupt",
+        // Sent as run metadata, which the server does not keep on the thread.
+        metadata: { cancel_run: true },
+      },
+    );
+  }, [cancelling, isLoading, stream]);
+
   const handleRegenerate = (
     parentCheckpoint: Checkpoint | null | undefined,
   ) => {
@@ -300,9 +396,24 @@ export function Thread() {
     stream.submit(undefined, {
       checkpoint: parentCheckpoint,
       streamMode: ["values"],
+      config: { configurable },
     });
   };
 
+  // Saves the thread's actions as a skill. The run does not call the model.
+  const handleSaveSkill = (request: SaveSkillRequest) => {
+    if (isLoading) return;
+    stream.submit(
+      { messages: [] },
+      {
+        streamMode: ["values"],
+        config: { configurable },
+        // Sent as run metadata, which the server does not keep on the thread.
+        metadata: { save_skill: request },
+      },
+    );
+  };
+
   const chatStarted = !!threadId || !!messages.length;
 
   const newThread = () => {
@@ -310,6 +421,65 @@ export function Thread() {
     setIsShowingInstanceFrame(null);
   };
 
+  // Runs which start in a new thread, like skill replays and fan-outs, are
+  // submitted once the current thread is closed.
+  const [pendingRun, setPendingRun] = useState<{
+    content: string;
+    configurable: Record<string, unknown>;
+    metadata: Record<string, unknown>;
+    onDisconnect?: "cancel" | "continue";
+  }>();
+  useEffect(() => {
+    if (!pendingRun || threadId || isLoading) return;
+    setPendingRun(undefined);
+    setFirstTokenReceived(false);
+    const newHumanMessage: Message = {
+      id: uuidv4(),
+      type: "human",
+      content: pendingRun.content,
+    };
+    stream.submit(
+      { messages: [newHumanMessage] },
+      {
+        streamMode: ["values"],
+        config: { configurable: pendingRun.configurable },
+        metadata: pendingRun.metadata,
+        onDisconnect: pendingRun.onDisconnect,
+        optimisticValues: (prev) => ({
+          ...prev,
+          messages: [...(prev.messages ?? []), newHumanMessage],
+        }),
+      },
+    );
+  }, [pendingRun, threadId, isLoading, stream]);
+
+  // Replays a skill in a new thread. The run takes the skill's actions
+  // without calling the model.
+  const handleReplaySkill = (request: ReplaySkillRequest) => {
+    if (isLoading) return;
+    newThread();
+    setPendingRun({
+      content: `Replay the skill "${request.name}".`,
+      configurable,
+      metadata: { replay_skill: request },
+    });
+  };
+
+  // Runs a task once per input in a new thread, which starts a sub-run in a
+  // thread of its own for each input. The run keeps going when its stream
+  // closes, so the sub-runs' threads can be opened while it runs.
+  const handleFanOut = (request: FanOutRequest) => {
+    if (isLoading) return;
+    newThread();
+    const count = request.inputs.length;
+    setPendingRun({
+      content: `Run this task for ${count} input${count === 1 ? "" : "s"}:\n\n${request.task}`,
+      configurable,
+      metadata: { fan_out: request },
+      onDisconnect: "continue",
+    });
+  };
+
   const customInstanceViewComponent = stream.values.ui?.find(
     (ui) => ui.name === "instance",
   );
@@ -375,6 +545,14 @@ export function Thread() {
                 )}
               </Button>
             )}
+            <div className="flex items-center gap-2 ml-auto">
+              <FanOutSheet isLoading={isLoading} onStart={handleFanOut} />
+              <SkillsSheet isLoading={isLoading} onReplay={handleReplaySkill} />
+              <ModelSettingsSheet
+                settings={modelSettings}
+                onChange={handleModelSettingsChange}
+              />
+            </div>
           </div>
         )}
         {chatStarted && (
@@ -414,15 +592,23 @@ export function Thread() {
               </motion.button>
             </div>
 
-            <TooltipIconButton
-              size="lg"
-              className="p-4"
-              tooltip="New thread"
-              variant="ghost"
-              onClick={() => newThread()}
-            >
-              <SquarePen className="size-5" />
-            </TooltipIconButton>
+            <div className="flex items-center gap-2">
+              <FanOutSheet isLoading={isLoading} onStart={handleFanOut} />
+              <SkillsSheet isLoading={isLoading} onReplay={handleReplaySkill} />
+              <ModelSettingsSheet
+                settings={modelSettings}
+                onChange={handleModelSettingsChange}
+              />
+              <TooltipIconButton
+                size="lg"
+                className="p-4"
+                tooltip="New thread"
+                variant="ghost"
+                onClick={() => newThread()}
+              >
+                <SquarePen className="size-5" />
+              </TooltipIconButton>
+            </div>
 
             <div className="absolute inset-x-0 top-full h-5 bg-gradient-to-b from-background to-background/0" />
           </div>
@@ -488,6 +674,10 @@ export function Thread() {
             input={input}
             setInput={setInput}
             handleRegenerate={handleRegenerate}
+            handleGrantBudget={handleGrantBudget}
+            handleCancel={handleCancel}
+            handleSaveSkill={handleSaveSkill}
+            configurable={configurable}
           />
 
           {/* Render InstanceFrame inside the flex container when conditions are met */}
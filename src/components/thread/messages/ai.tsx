@@ -5,9 +5,15 @@ import { AIMessage, Checkpoint, Message } from "@langchain/langgraph-sdk";
 import { getContentString } from "../utils";
 import { BranchSwitcher, CommandBar } from "./shared";
 import { MarkdownText } from "../markdown-text";
-import { LoadExternalComponent } from "@langchain/langgraph-sdk/react-ui";
+import {
+  LoadExternalComponent,
+  type UIMessage,
+} from "@langchain/langgraph-sdk/react-ui";
 import { cn } from "@/lib/utils";
 import { Fragment } from "react/jsx-runtime";
+import { formatCost, formatTokens } from "@/lib/usage";
+import type { SaveSkillRequest } from "@/lib/skills";
+import { SaveSkillButton } from "../skills";
 
 export function hasToolOutputs(message: AIMessage): boolean {
   const toolOutputs = message.additional_kwargs?.tool_outputs
@@ -23,7 +29,7 @@ export function hasToolOutputs(message: AIMessage): boolean {
   );
 }
 
-function CustomComponent({
+export function CustomComponent({
   message,
   thread,
 }: {
@@ -50,14 +56,69 @@ function CustomComponent({
   );
 }
 
+function MessageUsage({ message }: { message: Message }) {
+  if (message.type !== "ai" || !message.usage_metadata) return null;
+  const cost = message.response_metadata?.cost_usd;
+  return (
+    <p className="text-xs text-gray-400">
+      {formatTokens(message.usage_metadata.total_tokens)}
+      {typeof cost === "number" && ` · ${formatCost(cost)}`}
+    </p>
+  );
+}
+
+/**
+ * The agent's UI component for each type of interrupt.
+ */
+const INTERRUPT_COMPONENTS: Record<string, string> = {
+  approval: "action-approval",
+  safety_check: "safety-check",
+};
+
+/**
+ * The card which asks the user to answer the interrupt the run paused on,
+ * e.g. to approve its next action. The run's configurable fields are passed
+ * on to the run which resumes it.
+ */
+function InterruptCard({
+  thread,
+  configurable,
+}: {
+  thread: ReturnType<typeof useStreamContext>;
+  configurable: Record<string, unknown>;
+}) {
+  const value = thread.interrupt?.value as Record<string, unknown> | undefined;
+  const name = INTERRUPT_COMPONENTS[value?.type as string];
+  if (!value || !name) return null;
+  // Built from the interrupt rather than pushed by the run, so it has no run ID.
+  const ui: UIMessage = {
+    type: "ui",
+    id: name,
+    name,
+    props: value,
+    metadata: { run_id: "" },
+  };
+  return (
+    <LoadExternalComponent
+      stream={thread}
+      message={ui}
+      meta={{ configurable }}
+    />
+  );
+}
+
 export function AssistantMessage({
   message,
   isLoading,
   handleRegenerate,
+  handleSaveSkill,
+  configurable,
 }: {
   message: Message;
   isLoading: boolean;
   handleRegenerate: (parentCheckpoint: Checkpoint | null | undefined) => void;
+  handleSaveSkill: (request: SaveSkillRequest) => void;
+  configurable: Record<string, unknown>;
 }) {
   const contentString = getContentString(message.content);
 
@@ -82,6 +143,10 @@ export function AssistantMessage({
         )}
 
         <CustomComponent message={message} thread={thread} />
+        {isLastMessage && !isLoading && interrupt && (
+          <InterruptCard thread={thread} configurable={configurable} />
+        )}
+        <MessageUsage message={message} />
         {!isToolCallMsg && !isToolMessage && (
           <div
             className={cn(
@@ -101,6 +166,11 @@ export function AssistantMessage({
               isAiMessage={true}
               handleRegenerate={() => handleRegenerate(parentCheckpoint)}
             />
+            <SaveSkillButton
+              messageId={message.id}
+              isLoading={isLoading}
+              onSave={handleSaveSkill}
+            />
           </div>
         )}
       </div>
@@ -5,6 +5,7 @@ import { getContentString } from "../utils";
 import { cn } from "@/lib/utils";
 import { Textarea } from "@/components/ui/textarea";
 import { BranchSwitcher, CommandBar } from "./shared";
+import { CustomComponent } from "./ai";
 
 function EditableContent({
   value,
@@ -35,9 +36,11 @@ function EditableContent({
 export function HumanMessage({
   message,
   isLoading,
+  configurable,
 }: {
   message: Message;
   isLoading: boolean;
+  configurable: Record<string, unknown>;
 }) {
   const thread = useStreamContext();
   const meta = thread.getMessagesMetadata(message);
@@ -56,6 +59,7 @@ export function HumanMessage({
       {
         checkpoint: parentCheckpoint,
         streamMode: ["values"],
+        config: { configurable },
         optimisticValues: (prev) => {
           const values = meta?.firstSeenState?.values;
           if (!values) return prev;
@@ -70,53 +74,57 @@ export function HumanMessage({
   };
 
   return (
-    <div
-      className={cn(
-        "flex items-center ml-auto gap-2 group",
-        isEditing && "w-full max-w-xl",
-      )}
-    >
-      <div className={cn("flex flex-col gap-2", isEditing && "w-full")}>
-        {isEditing ? (
-          <EditableContent
-            value={value}
-            setValue={setValue}
-            onSubmit={handleSubmitEdit}
-          />
-        ) : (
-          <p className="text-right px-4 py-2 rounded-3xl bg-muted">
-            {contentString}
-          </p>
+    <>
+      <div
+        className={cn(
+          "flex items-center ml-auto gap-2 group",
+          isEditing && "w-full max-w-xl",
         )}
-
-        <div
-          className={cn(
-            "flex gap-2 items-center ml-auto transition-opacity",
-            "opacity-0 group-focus-within:opacity-100 group-hover:opacity-100",
-            isEditing && "opacity-100",
+      >
+        <div className={cn("flex flex-col gap-2", isEditing && "w-full")}>
+          {isEditing ? (
+            <EditableContent
+              value={value}
+              setValue={setValue}
+              onSubmit={handleSubmitEdit}
+            />
+          ) : (
+            <p className="text-right px-4 py-2 rounded-3xl bg-muted">
+              {contentString}
+            </p>
           )}
-        >
-          <BranchSwitcher
-            branch={meta?.branch}
-            branchOptions={meta?.branchOptions}
-            onSelect={(branch) => thread.setBranch(branch)}
-            isLoading={isLoading}
-          />
-          <CommandBar
-            isLoading={isLoading}
-            content={contentString}
-            isEditing={isEditing}
-            setIsEditing={(c) => {
-              if (c) {
-                setValue(contentString);
-              }
-              setIsEditing(c);
-            }}
-            handleSubmitEdit={handleSubmitEdit}
-            isHumanMessage={true}
-          />
+
+          <div
+            className={cn(
+              "flex gap-2 items-center ml-auto transition-opacity",
+              "opacity-0 group-focus-within:opacity-100 group-hover:opacity-100",
+              isEditing && "opacity-100",
+            )}
+          >
+            <BranchSwitcher
+              branch={meta?.branch}
+              branchOptions={meta?.branchOptions}
+              onSelect={(branch) => thread.setBranch(branch)}
+              isLoading={isLoading}
+            />
+            <CommandBar
+              isLoading={isLoading}
+              content={contentString}
+              isEditing={isEditing}
+              setIsEditing={(c) => {
+                if (c) {
+                  setValue(contentString);
+                }
+                setIsEditing(c);
+              }}
+              handleSubmitEdit={handleSubmitEdit}
+              isHumanMessage={true}
+            />
+          </div>
         </div>
       </div>
-    </div>
+      {/* Components pushed for the request, such as its plan. */}
+      <CustomComponent message={message} thread={thread} />
+    </>
   );
 }
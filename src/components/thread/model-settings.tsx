@@ -0,0 +1,384 @@
+import { useEffect, useState } from "react";
+import { Settings2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+import { Textarea } from "../ui/textarea";
+import { TooltipIconButton } from "./tooltip-icon-button";
+import {
+  MODEL_PROVIDERS,
+  ModelSettings,
+  REASONING_EFFORTS,
+} from "@/lib/model-settings";
+import {
+  LIBRARY_PROMPT_PREFIX,
+  LIBRARY_PROMPTS,
+  loadSavedPrompts,
+  PROMPT_TEMPLATE_EXAMPLE,
+  PROMPT_VARIABLES,
+  SavedPrompt,
+  saveSavedPrompts,
+} from "@/lib/prompts";
+
+const SELECT_CLASS_NAME =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none md:text-sm";
+
+/**
+ * A number input which can be left empty, to use the agent's default.
+ */
+function OptionalNumberInput({
+  id,
+  value,
+  onChange,
+  step,
+  placeholder,
+}: {
+  id: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  step: string;
+  placeholder: string;
+}) {
+  // Show what was typed, so partial values like "0." are not reformatted,
+  // unless the value was changed elsewhere, e.g. by a reset.
+  const [draft, setDraft] = useState(value?.toString() ?? "");
+  const shown =
+    draft.trim() && Number(draft) === value ? draft : (value?.toString() ?? "");
+
+  return (
+    <Input
+      id={id}
+      type="number"
+      step={step}
+      min={0}
+      value={shown}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = Number(e.target.value);
+        onChange(
+          e.target.value.trim() && Number.isFinite(parsed) ? parsed : undefined,
+        );
+      }}
+    />
+  );
+}
+
+const CUSTOM = "custom";
+
+const SAVED_PREFIX = "saved:";
+
+/**
+ * Lets the user pick the prompt sent with each run: the agent's default for
+ * the environment, a prompt from the agent's library, or a template, which
+ * can be saved in the browser and picked again later. Also sets the
+ * instructions filled into the template.
+ */
+function PromptSettings({
+  prompt,
+  instructions,
+  onPromptChange,
+  onInstructionsChange,
+}: {
+  prompt: string | undefined;
+  instructions: string | undefined;
+  onPromptChange: (prompt: string | undefined) => void;
+  onInstructionsChange: (instructions: string | undefined) => void;
+}) {
+  const [savedPrompts, setSavedPrompts] = useState<SavedPrompt[]>([]);
+  const [name, setName] = useState("");
+  useEffect(() => {
+    setSavedPrompts(loadSavedPrompts());
+  }, []);
+
+  const saved = savedPrompts.find((p) => p.template === prompt);
+  let selected = CUSTOM;
+  if (!prompt) {
+    selected = "";
+  } else if (
+    prompt.startsWith(LIBRARY_PROMPT_PREFIX) &&
+    LIBRARY_PROMPTS.includes(prompt.slice(LIBRARY_PROMPT_PREFIX.length))
+  ) {
+    selected = prompt;
+  } else if (saved) {
+    selected = `${SAVED_PREFIX}${saved.name}`;
+  }
+
+  const updateSavedPrompts = (prompts: SavedPrompt[]) => {
+    setSavedPrompts(prompts);
+    saveSavedPrompts(prompts);
+  };
+
+  const handleSelect = (value: string) => {
+    if (value === CUSTOM) {
+      onPromptChange(PROMPT_TEMPLATE_EXAMPLE);
+    } else if (value.startsWith(SAVED_PREFIX)) {
+      const savedName = value.slice(SAVED_PREFIX.length);
+      onPromptChange(savedPrompts.find((p) => p.name === savedName)?.template);
+    } else {
+      onPromptChange(value || undefined);
+    }
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || !prompt) {
+      return;
+    }
+    updateSavedPrompts([
+      ...savedPrompts.filter((p) => p.name !== name.trim()),
+      { name: name.trim(), template: prompt },
+    ]);
+    setName("");
+  };
+
+  const isTemplate = selected === CUSTOM || !!saved;
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="prompt">Prompt</Label>
+        <select
+          id="prompt"
+          className={SELECT_CLASS_NAME}
+          value={selected}
+          onChange={(e) => handleSelect(e.target.value)}
+        >
+          <option value="">Default for the environment</option>
+          <optgroup label="Library">
+            {LIBRARY_PROMPTS.map((libraryPrompt) => (
+              <option
+                key={libraryPrompt}
+                value={`${LIBRARY_PROMPT_PREFIX}${libraryPrompt}`}
+              >
+                {libraryPrompt}
+              </option>
+            ))}
+          </optgroup>
+          {savedPrompts.length > 0 && (
+            <optgroup label="Saved">
+              {savedPrompts.map((p) => (
+                <option key={p.name} value={`${SAVED_PREFIX}${p.name}`}>
+                  {p.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <option value={CUSTOM}>Custom template</option>
+        </select>
+      </div>
+      {isTemplate && (
+        <div className="flex flex-col gap-2">
+          <Textarea
+            aria-label="Prompt template"
+            className="max-h-60 font-mono text-xs"
+            value={prompt ?? ""}
+            onChange={(e) => onPromptChange(e.target.value || undefined)}
+          />
+          <p className="text-muted-foreground text-xs">
+            Variables:{" "}
+            {PROMPT_VARIABLES.map((variable) => `{{${variable}}}`).join(", ")}
+          </p>
+          <div className="flex gap-2">
+            <Input
+              aria-label="Prompt name"
+              value={name}
+              placeholder={saved?.name ?? "Name"}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              disabled={!name.trim()}
+              onClick={handleSave}
+            >
+              Save
+            </Button>
+            {saved && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  updateSavedPrompts(
+                    savedPrompts.filter((p) => p.name !== saved.name),
+                  )
+                }
+              >
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="instructions">Instructions</Label>
+        <Textarea
+          id="instructions"
+          className="max-h-40"
+          value={instructions ?? ""}
+          placeholder="Added to the prompt, e.g. preferred sites or accounts"
+          onChange={(e) => onInstructionsChange(e.target.value || undefined)}
+        />
+      </div>
+    </>
+  );
+}
+
+/**
+ * Lets the user pick the model provider, model, sampling parameters and
+ * prompt sent with each run. Empty fields use the agent's defaults.
+ */
+export function ModelSettingsSheet({
+  settings,
+  onChange,
+}: {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const update = <K extends keyof ModelSettings>(
+    key: K,
+    value: ModelSettings[K],
+  ) => {
+    const next = { ...settings };
+    if (value === undefined || value === "") {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip="Model settings"
+        variant="ghost"
+        onClick={() => setOpen(true)}
+      >
+        <Settings2 className="size-5" />
+      </TooltipIconButton>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="right" className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Model settings</SheetTitle>
+            <SheetDescription>
+              Used for new messages. Leave a field empty to use the agent&apos;s
+              default.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex flex-col gap-4 px-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="model-provider">Provider</Label>
+              <select
+                id="model-provider"
+                className={SELECT_CLASS_NAME}
+                value={settings.modelProvider ?? ""}
+                onChange={(e) => update("modelProvider", e.target.value)}
+              >
+                <option value="">Default</option>
+                {MODEL_PROVIDERS.map((provider) => (
+                  <option key={provider} value={provider}>
+                    {provider}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="model-name">Model</Label>
+              <Input
+                id="model-name"
+                value={settings.model ?? ""}
+                placeholder="Provider default"
+                onChange={(e) => update("model", e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="model-temperature">Temperature</Label>
+              <OptionalNumberInput
+                id="model-temperature"
+                step="0.1"
+                placeholder="0.1"
+                value={settings.temperature}
+                onChange={(value) => update("temperature", value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="model-max-tokens">Max tokens</Label>
+              <OptionalNumberInput
+                id="model-max-tokens"
+                step="1"
+                placeholder="4096"
+                value={settings.maxTokens}
+                onChange={(value) => update("maxTokens", value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="model-top-p">Top P</Label>
+              <OptionalNumberInput
+                id="model-top-p"
+                step="0.05"
+                placeholder="Provider default"
+                value={settings.topP}
+                onChange={(value) => update("topP", value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="model-reasoning-effort">Reasoning effort</Label>
+              <select
+                id="model-reasoning-effort"
+                className={SELECT_CLASS_NAME}
+                value={settings.reasoningEffort ?? ""}
+                onChange={(e) =>
+                  update(
+                    "reasoningEffort",
+                    (e.target.value ||
+                      undefined) as ModelSettings["reasoningEffort"],
+                  )
+                }
+              >
+                <option value="">Default</option>
+                {REASONING_EFFORTS.map((effort) => (
+                  <option key={effort} value={effort}>
+                    {effort}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="approval-enabled">
+                Ask before sensitive actions
+              </Label>
+              <Switch
+                id="approval-enabled"
+                checked={settings.approval?.enabled ?? false}
+                onCheckedChange={(enabled) =>
+                  update("approval", enabled ? { enabled } : undefined)
+                }
+              />
+            </div>
+            <PromptSettings
+              prompt={settings.prompt}
+              instructions={settings.instructions}
+              onPromptChange={(value) => update("prompt", value)}
+              onInstructionsChange={(value) => update("instructions", value)}
+            />
+          </div>
+          <SheetFooter>
+            <Button variant="outline" onClick={() => onChange({})}>
+              Reset to defaults
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
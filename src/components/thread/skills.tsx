@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { BookmarkPlus, LibraryBig, LoaderCircle } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+import { TooltipIconButton } from "./tooltip-icon-button";
+import { createClient } from "@/providers/client";
+import {
+  ReplaySkillRequest,
+  SaveSkillRequest,
+  Skill,
+  SKILL_NAME_PATTERN,
+  SKILLS_NAMESPACE,
+} from "@/lib/skills";
+
+const apiUrl = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3000/api";
+
+/**
+ * A saved skill, with inputs for its parameters. Parameters left empty are
+ * typed as they were recorded.
+ */
+function SkillItem({
+  skill,
+  disabled,
+  onReplay,
+  onDelete,
+}: {
+  skill: Skill;
+  disabled: boolean;
+  onReplay: (request: ReplaySkillRequest) => void;
+  onDelete: () => void;
+}) {
+  const [params, setParams] = useState<Record<string, string>>({});
+
+  return (
+    <li className="flex flex-col gap-2 p-3 border rounded-md">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-sm font-medium font-mono">{skill.name}</p>
+        <p className="text-xs text-muted-foreground">
+          {skill.environment} · {skill.steps.length} step
+          {skill.steps.length === 1 ? "" : "s"}
+        </p>
+      </div>
+      {skill.description && (
+        <p className="text-sm text-muted-foreground">{skill.description}</p>
+      )}
+      {skill.parameters.map((parameter) => (
+        <div key={parameter.name} className="flex flex-col gap-1">
+          <Label htmlFor={`skill-${skill.name}-${parameter.name}`}>
+            {parameter.name}
+            <span className="font-normal text-muted-foreground">
+              {parameter.description}
+            </span>
+          </Label>
+          <Input
+            id={`skill-${skill.name}-${parameter.name}`}
+            value={params[parameter.name] ?? ""}
+            placeholder={parameter.default}
+            onChange={(e) =>
+              setParams({ ...params, [parameter.name]: e.target.value })
+            }
+          />
+        </div>
+      ))}
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={onDelete}>
+          Delete
+        </Button>
+        <Button
+          size="sm"
+          disabled={disabled}
+          onClick={() =>
+            onReplay({
+              name: skill.name,
+              params: Object.fromEntries(
+                Object.entries(params).filter(([, value]) => value),
+              ),
+            })
+          }
+        >
+          Replay
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Lists the skills saved in the agent's store, and lets the user replay one
+ * in a new thread, or delete it.
+ */
+export function SkillsSheet({
+  isLoading,
+  onReplay,
+}: {
+  isLoading: boolean;
+  onReplay: (request: ReplaySkillRequest) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [skills, setSkills] = useState<Skill[]>();
+
+  useEffect(() => {
+    if (!open) return;
+    setSkills(undefined);
+    createClient(apiUrl)
+      .store.searchItems(SKILLS_NAMESPACE, { limit: 100 })
+      .then(({ items }) => setSkills(items.map((item) => item.value as Skill)))
+      .catch((e) => {
+        console.error("Failed to load skills", e);
+        setSkills([]);
+      });
+  }, [open]);
+
+  const handleDelete = async (name: string) => {
+    await createClient(apiUrl).store.deleteItem(SKILLS_NAMESPACE, name);
+    setSkills((prev) => prev?.filter((skill) => skill.name !== name));
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip="Skills"
+        variant="ghost"
+        onClick={() => setOpen(true)}
+      >
+        <LibraryBig className="size-5" />
+      </TooltipIconButton>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="right" className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Skills</SheetTitle>
+            <SheetDescription>
+              Actions saved from earlier threads. Replaying a skill starts a new
+              thread, and takes its actions without calling the model.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="px-4">
+            {!skills ? (
+              <LoaderCircle className="w-4 h-4 animate-spin" />
+            ) : skills.length ? (
+              <ul className="flex flex-col gap-3">
+                {skills.map((skill) => (
+                  <SkillItem
+                    key={skill.name}
+                    skill={skill}
+                    disabled={isLoading}
+                    onReplay={(request) => {
+                      setOpen(false);
+                      onReplay(request);
+                    }}
+                    onDelete={() => handleDelete(skill.name)}
+                  />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No skills yet. Save one from the bookmark button under a reply.
+              </p>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
+
+/**
+ * Saves the actions taken in the thread, up to the message it is shown
+ * under, as a skill.
+ */
+export function SaveSkillButton({
+  messageId,
+  isLoading,
+  onSave,
+}: {
+  messageId: string | undefined;
+  isLoading: boolean;
+  onSave: (request: SaveSkillRequest) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const isValidName = SKILL_NAME_PATTERN.test(name);
+
+  const handleSave = () => {
+    onSave({
+      name,
+      description: description.trim() || undefined,
+      messageId,
+    });
+    setOpen(false);
+    setName("");
+    setDescription("");
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        tooltip="Save actions as a skill"
+        variant="ghost"
+        disabled={isLoading}
+        onClick={() => setOpen(true)}
+      >
+        <BookmarkPlus />
+      </TooltipIconButton>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent side="right" className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Save as a skill</SheetTitle>
+            <SheetDescription>
+              Saves the actions taken in this thread, up to this reply, so they
+              can be replayed later. Typed text becomes the skill&apos;s
+              parameters.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex flex-col gap-4 px-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="skill-name">Name</Label>
+              <Input
+                id="skill-name"
+                value={name}
+                placeholder="export-report"
+                onChange={(e) => setName(e.target.value)}
+              />
+              {name && !isValidName && (
+                <p className="text-xs text-red-600">
+                  Use letters, numbers, underscores and dashes only.
+                </p>
+              )}
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="skill-description">Description</Label>
+              <Input
+                id="skill-description"
+                value={description}
+                placeholder="What the skill does, shown to the model"
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <SheetFooter>
+            <Button disabled={!isValidName || isLoading} onClick={handleSave}>
+              Save
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+import { formatCost, formatTokens } from "./usage";
+
+/**
+ * Limits on a single run, passed in `configurable.budget`. Mirrors `Budget`
+ * in `src/agent/budget.ts`.
+ */
+export type Budget = {
+  maxSteps?: number;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxDurationSeconds?: number;
+};
+
+/**
+ * The budget which stopped the last run, as recorded by the agent in the
+ * `budgetExceeded` state key.
+ */
+export type ExceededBudget = {
+  limit: keyof Budget;
+  max: number;
+  used: number;
+};
+
+export const BUDGET_LIMIT_LABELS: Record<keyof Budget, string> = {
+  maxSteps: "steps",
+  maxTokens: "tokens",
+  maxCostUsd: "US dollars",
+  maxDurationSeconds: "seconds",
+};
+
+export function formatBudget(limit: keyof Budget, value: number): string {
+  switch (limit) {
+    case "maxSteps":
+      return `${value} ${value === 1 ? "step" : "steps"}`;
+    case "maxTokens":
+      return formatTokens(Math.round(value));
+    case "maxCostUsd":
+      return formatCost(value);
+    case "maxDurationSeconds":
+      return `${Math.round(value)} seconds`;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * The number of sub-runs which run at once when a fan-out does not set
+ * `maxConcurrency`. Mirrors `DEFAULT_FAN_OUT_CONCURRENCY` in
+ * `src/agent/fan-out.ts`.
+ */
+export const DEFAULT_FAN_OUT_CONCURRENCY = 3;
+
+/**
+ * Mirrors `MAX_FAN_OUT_CONCURRENCY` in `src/agent/fan-out.ts`.
+ */
+export const MAX_FAN_OUT_CONCURRENCY = 10;
+
+/**
+ * Sent in `metadata.fan_out`. Mirrors `FanOutRequest` in
+ * `src/agent/fan-out.ts`.
+ */
+export type FanOutRequest = {
+  task: string;
+  inputs: string[];
+  maxConcurrency?: number;
+};
@@ -0,0 +1,79 @@
+import { getItem, removeItem, setItem } from "./local-storage";
+
+export const MODEL_SETTINGS_KEY = "gen_ui_cua_model_settings";
+
+export const MODEL_PROVIDERS = [
+  "xai",
+  "openai",
+  "openai-compatible",
+  "mock",
+  "demo",
+  "replay",
+];
+
+export const REASONING_EFFORTS = ["low", "medium", "high"] as const;
+
+/**
+ * The model settings chosen in the settings panel, sent with every run in
+ * `config.configurable`. Mirrors `ModelSettings` in
+ * `src/agent/model-settings.ts`, plus the model provider, prompt and
+ * approval settings. Unset fields use the agent's defaults.
+ */
+export type ModelSettings = {
+  modelProvider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  reasoningEffort?: (typeof REASONING_EFFORTS)[number];
+  /**
+   * A prompt in the agent's library, as `library:<name>`, or a prompt
+   * template.
+   */
+  prompt?: string;
+  instructions?: string;
+  /**
+   * Merged over the agent's `DEFAULT_APPROVAL`. See `src/agent/approval.ts`.
+   */
+  approval?: { enabled: boolean };
+};
+
+/**
+ * Sent in place of the settings which are not set. The server keeps a
+ * thread's configurable fields between runs, so a setting left out would
+ * keep the value an earlier run was sent. `null` uses the agent's default.
+ * Approval is merged over the agent's defaults, so it is turned off instead,
+ * and no instructions are an empty string.
+ */
+export const UNSET_MODEL_SETTINGS = {
+  modelProvider: null,
+  model: null,
+  temperature: null,
+  maxTokens: null,
+  topP: null,
+  reasoningEffort: null,
+  prompt: null,
+  instructions: "",
+  // Turns off approval which an earlier run on the thread turned on.
+  approval: { enabled: false },
+};
+
+export function loadModelSettings(): ModelSettings {
+  const stored = getItem(MODEL_SETTINGS_KEY);
+  if (!stored) {
+    return {};
+  }
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+}
+
+export function saveModelSettings(settings: ModelSettings) {
+  if (!Object.keys(settings).length) {
+    removeItem(MODEL_SETTINGS_KEY);
+    return;
+  }
+  setItem(MODEL_SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,67 @@
+import { getItem, removeItem, setItem } from "./local-storage";
+
+export const SAVED_PROMPTS_KEY = "gen_ui_cua_saved_prompts";
+
+/**
+ * The prompts shipped in `src/agent/prompt-library`, which runs can select
+ * by name.
+ */
+export const LIBRARY_PROMPTS = ["shell-first", "web-research"];
+
+/**
+ * Selects a library prompt by name, e.g. `library:shell-first`. Mirrors
+ * `LIBRARY_PROMPT_PREFIX` in `src/agent/prompt-templates.ts`.
+ */
+export const LIBRARY_PROMPT_PREFIX = "library:";
+
+/**
+ * The variables prompt templates can use. Mirrors `PROMPT_VARIABLES` in
+ * `src/agent/prompt-templates.ts`.
+ */
+export const PROMPT_VARIABLES = [
+  "environment",
+  "screenSize",
+  "date",
+  "tools",
+  "instructions",
+];
+
+/**
+ * The template a new custom prompt starts from.
+ */
+export const PROMPT_TEMPLATE_EXAMPLE = `You are a computer use agent operating a {{environment}} environment. Screen size: {{screenSize}}. Today is {{date}}.
+
+You can use these tools:
+{{tools}}
+
+Always take a screenshot first to see the current state before taking any action.
+
+{{instructions}}`;
+
+/**
+ * A prompt template saved in the browser, so it can be selected again.
+ */
+export type SavedPrompt = {
+  name: string;
+  template: string;
+};
+
+export function loadSavedPrompts(): SavedPrompt[] {
+  const stored = getItem(SAVED_PROMPTS_KEY);
+  if (!stored) {
+    return [];
+  }
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+export function saveSavedPrompts(prompts: SavedPrompt[]) {
+  if (!prompts.length) {
+    removeItem(SAVED_PROMPTS_KEY);
+    return;
+  }
+  setItem(SAVED_PROMPTS_KEY, JSON.stringify(prompts));
+}
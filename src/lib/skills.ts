@@ -0,0 +1,53 @@
+/**
+ * The namespace the agent saves skills under in the LangGraph store.
+ * Mirrors `SKILLS_NAMESPACE` in `src/agent/skills.ts`.
+ */
+export const SKILLS_NAMESPACE = ["skills"];
+
+/**
+ * The names the agent accepts for skills. Mirrors `SKILL_NAME_PATTERN` in
+ * `src/agent/skills.ts`.
+ */
+export const SKILL_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Text typed while the skill was recorded, which can be replaced when it is
+ * replayed. Mirrors `SkillParameter` in `src/agent/skills.ts`.
+ */
+export type SkillParameter = {
+  name: string;
+  description: string;
+  default: string;
+};
+
+/**
+ * A sequence of computer actions saved from a thread. Mirrors `Skill` in
+ * `src/agent/skills.ts`, without the steps' contents.
+ */
+export type Skill = {
+  name: string;
+  description?: string;
+  environment: string;
+  parameters: SkillParameter[];
+  steps: unknown[];
+  createdAt: string;
+};
+
+/**
+ * Sent in `metadata.save_skill`. Mirrors `SaveSkillRequest` in
+ * `src/agent/skills.ts`.
+ */
+export type SaveSkillRequest = {
+  name: string;
+  description?: string;
+  messageId?: string;
+};
+
+/**
+ * Sent in `metadata.replay_skill`. Mirrors `ReplaySkillRequest` in
+ * `src/agent/skills.ts`.
+ */
+export type ReplaySkillRequest = {
+  name: string;
+  params?: Record<string, string>;
+};
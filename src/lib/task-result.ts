@@ -0,0 +1,9 @@
+/**
+ * The outcome of a run, as recorded by the agent in the `taskResult` state
+ * key. Mirrors `TaskResult` in `src/agent/task-result.ts`.
+ */
+export type TaskResult = {
+  status: "success" | "failure" | "blocked";
+  summary: string;
+  result?: unknown;
+};
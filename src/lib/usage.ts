@@ -0,0 +1,61 @@
+/**
+ * Token usage and cost, as recorded by the agent in the `usage` state key.
+ * Mirrors `UsageTotals` in `src/agent/usage.ts`.
+ */
+export type UsageTotals = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  modelCalls: number;
+  unpricedModelCalls: number;
+};
+
+export function sumUsage(usages: (UsageTotals | undefined)[]): UsageTotals {
+  return usages.reduce<UsageTotals>(
+    (acc, usage) => ({
+      inputTokens: acc.inputTokens + (usage?.inputTokens ?? 0),
+      outputTokens: acc.outputTokens + (usage?.outputTokens ?? 0),
+      totalTokens: acc.totalTokens + (usage?.totalTokens ?? 0),
+      costUsd: acc.costUsd + (usage?.costUsd ?? 0),
+      modelCalls: acc.modelCalls + (usage?.modelCalls ?? 0),
+      unpricedModelCalls:
+        acc.unpricedModelCalls + (usage?.unpricedModelCalls ?? 0),
+    }),
+    {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      modelCalls: 0,
+      unpricedModelCalls: 0,
+    },
+  );
+}
+
+export function formatTokens(tokens: number): string {
+  return `${tokens.toLocaleString()} tokens`;
+}
+
+/**
+ * Formats a cost in US dollars. Small costs keep more decimals, since a
+ * single model call usually costs a fraction of a cent.
+ */
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) {
+    return "$0.00";
+  }
+  if (costUsd < 0.01) {
+    return `$${costUsd.toFixed(4)}`;
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Formats usage totals, marking the cost as a lower bound when some model
+ * calls could not be priced.
+ */
+export function formatUsage(usage: UsageTotals): string {
+  const cost = `${usage.unpricedModelCalls ? "≥ " : ""}${formatCost(usage.costUsd)}`;
+  return `${formatTokens(usage.totalTokens)} · ${cost}`;
+}
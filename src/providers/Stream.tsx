@@ -19,6 +19,9 @@ import { parseAsBoolean, useQueryState } from "nuqs";
 import { useThreads } from "./Thread";
 import { getItem, setItem, USER_ID_KEY } from "@/lib/local-storage";
 import { createClient } from "./client";
+import type { UsageTotals } from "@/lib/usage";
+import type { ExceededBudget } from "@/lib/budget";
+import type { TaskResult } from "@/lib/task-result";
 
 export type StateType = {
   messages: Message[];
@@ -26,6 +29,9 @@ export type StateType = {
   streamUrl?: string;
   instanceId?: string;
   environment?: string;
+  usage?: UsageTotals;
+  budgetExceeded?: ExceededBudget | null;
+  taskResult?: TaskResult | null;
 };
 
 const useTypedStream = useStream<
@@ -97,6 +103,12 @@ const StreamSession = ({
           .catch(console.error);
       }
     },
+    onFinish: () => {
+      // Re-fetch threads so their usage totals include the finished run.
+      if (userId) {
+        getThreads(userId).then(setThreads).catch(console.error);
+      }
+    },
   });
 
   useEffect(() => {